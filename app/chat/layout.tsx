@@ -2,18 +2,37 @@
 
 import { SidebarInset } from '@/components/ui/sidebar';
 import { SidebarHeader, SidebarMain } from '@/components/jrg/appwrapper/SidebarHeader';
-import { useConversations } from '@/components/interactive/hooks';
-import { EditIcon, Edit2, Trash2, Download, Paperclip } from 'lucide-react';
+import { useConversationBranches, useConversations } from '@/components/interactive/hooks';
+import { EditIcon, Edit2, Trash2, Download, Paperclip, GitBranch } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { useContext, useState } from 'react';
-import { InteractiveConfigContext } from '@/components/interactive/InteractiveConfigContext';
+import { Fragment, useContext, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { InteractiveConfig, InteractiveConfigContext } from '@/components/interactive/InteractiveConfigContext';
 import { TooltipBasic } from '@/components/ui/tooltip';
 import { Skeleton } from '@/components/ui/skeleton';
 import { mutate } from 'swr';
-import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { setCookie } from 'cookies-next';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { BranchTreeNode, getBranchTree } from '@/components/interactive/Chat/conversationBranches';
+import ConversationAttachments from '@/components/interactive/Chat/Attachments/AttachmentGallery';
+import { toastError } from '@/lib/errors';
 
 export default function ChatLayout({ children }: { children: React.ReactNode }) {
   const state = useContext(InteractiveConfigContext);
@@ -48,17 +67,33 @@ export default function ChatLayout({ children }: { children: React.ReactNode })
             ) : currentConversation ? (
               <>
                 <h2 className='text-sm font-medium'>{currentConversation.name}</h2>
-                {currentConversation.attachment_count > 0 && (
-                  <Badge variant='secondary' className='gap-1'>
-                    <Paperclip className='w-3 h-3' />
-                    {currentConversation.attachment_count}
-                  </Badge>
+                {currentConversation.attachmentCount > 0 && (
+                  <Dialog>
+                    <TooltipBasic title='Attachments' side='bottom'>
+                      <DialogTrigger asChild>
+                        <button type='button'>
+                          <Badge variant='secondary' className='gap-1 cursor-pointer'>
+                            <Paperclip className='w-3 h-3' />
+                            {currentConversation.attachmentCount}
+                          </Badge>
+                        </button>
+                      </DialogTrigger>
+                    </TooltipBasic>
+                    <DialogContent className='max-w-3xl'>
+                      <DialogHeader>
+                        <DialogTitle>Attachments</DialogTitle>
+                        <DialogDescription>The files attached to {currentConversation.name}.</DialogDescription>
+                      </DialogHeader>
+                      <ConversationAttachments conversationId={currentConversation.id} />
+                    </DialogContent>
+                  </Dialog>
                 )}
               </>
             ) : (
               <p className='text-sm text-muted-foreground'>New Chat</p>
             )}
           </div>
+          {currentConversation && <ConversationBranchNavigator conversationId={currentConversation.id} />}
           {currentConversation && <ConversationActions currentConversation={currentConversation} />}
         </div>
       </SidebarHeader>
@@ -67,6 +102,56 @@ export default function ChatLayout({ children }: { children: React.ReactNode })
   );
 }
 
+export function ConversationBranchNavigator({ conversationId }: { conversationId: string }) {
+  const state = useContext(InteractiveConfigContext);
+  const router = useRouter();
+  const { data: conversations } = useConversations();
+  const { data: branches = [] } = useConversationBranches();
+  const tree = useMemo(
+    () =>
+      getBranchTree(branches, conversationId, (id) => conversations?.find((conversation) => conversation.id === id)?.name),
+    [branches, conversations, conversationId],
+  );
+
+  const handleOpenBranch = (id: string): void => {
+    router.push(`/chat/${id}`);
+    state.mutate?.((oldState: InteractiveConfig) => ({
+      ...oldState,
+      overrides: { ...oldState.overrides, conversation: id },
+    }));
+  };
+
+  const renderBranch = (node: BranchTreeNode, depth: number): React.ReactNode => (
+    <Fragment key={node.id}>
+      <DropdownMenuItem
+        onClick={() => handleOpenBranch(node.id)}
+        className={node.id === conversationId ? 'font-medium bg-accent' : ''}
+        style={{ paddingLeft: `${depth + 0.5}rem` }}
+      >
+        {node.name}
+      </DropdownMenuItem>
+      {node.children.map((child) => renderBranch(child, depth + 1))}
+    </Fragment>
+  );
+
+  if (tree.children.length === 0) return null;
+  return (
+    <DropdownMenu>
+      <TooltipBasic title='Conversation Branches' side='left'>
+        <DropdownMenuTrigger asChild>
+          <Button size='icon' variant='ghost'>
+            <GitBranch className='w-4 h-4' />
+          </Button>
+        </DropdownMenuTrigger>
+      </TooltipBasic>
+      <DropdownMenuContent align='end'>
+        <DropdownMenuLabel>Branches</DropdownMenuLabel>
+        {renderBranch(tree, 0)}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
 export function ConversationActions({ currentConversation }: { currentConversation: any }) {
   const state = useContext(InteractiveConfigContext);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
@@ -75,7 +160,12 @@ export function ConversationActions({ currentConversation }: { currentConversati
 
   const handleDeleteConversation = async (): Promise<void> => {
     if (currentConversation?.id) {
-      await state.agixt.deleteConversation(currentConversation.id);
+      try {
+        await state.agixt.deleteConversation(currentConversation.id);
+      } catch (error) {
+        toastError('Unable to Delete Conversation', error);
+        return;
+      }
       await mutate('/conversation');
       state.mutate((oldState) => ({
         ...oldState,
@@ -87,10 +177,12 @@ export function ConversationActions({ currentConversation }: { currentConversati
 
   const handleRenameConversation = async (): Promise<void> => {
     if (currentConversation?.id) {
-      const response = await state.agixt.renameConversation(state.agent, currentConversation.id, newName);
-      if (!response.startsWith('Error')) {
+      try {
+        await state.agixt.renameConversation(state.agent, currentConversation.id, newName);
         await mutate('/conversation');
         setIsRenameDialogOpen(false);
+      } catch (error) {
+        toastError('Unable to Rename Conversation', error);
       }
     }
   };
@@ -98,7 +190,13 @@ export function ConversationActions({ currentConversation }: { currentConversati
   const handleExportConversation = async (): Promise<void> => {
     if (currentConversation?.id) {
       // Get the full conversation content
-      const conversationContent = await state.agixt.getConversation('', currentConversation.id);
+      let conversationContent;
+      try {
+        conversationContent = await state.agixt.getConversationHistory({ id: currentConversation.id });
+      } catch (error) {
+        toastError('Unable to Export Conversation', error);
+        return;
+      }
 
       // Format the conversation for export
       const exportData = {
@@ -0,0 +1,73 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { useConversation } from '../../hooks';
+import { NamedFile, getMessageFiles } from '../conversationFiles';
+import AttachmentPreview, { AttachmentKind, getAttachmentKind } from './AttachmentPreview';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+
+const kindLabels: Record<AttachmentKind, string> = {
+  image: 'Images',
+  pdf: 'PDFs',
+  audio: 'Audio',
+  video: 'Videos',
+  file: 'Other',
+};
+
+/** The files attached to a conversation, which can be narrowed down to one kind. */
+export function AttachmentGallery({ files }: { files: NamedFile[] }): React.JSX.Element {
+  const [kind, setKind] = useState<AttachmentKind | null>(null);
+  const kinds = [...new Set(files.map((file) => getAttachmentKind(file.mimeType)))];
+  const shown = kind ? files.filter((file) => getAttachmentKind(file.mimeType) === kind) : files;
+
+  if (files.length === 0) {
+    return <p className='text-sm text-muted-foreground'>No files have been attached to this conversation.</p>;
+  }
+
+  return (
+    <div className='flex flex-col gap-3'>
+      {kinds.length > 1 && (
+        <div className='flex flex-wrap gap-1'>
+          <Button size='sm' variant={kind === null ? 'secondary' : 'ghost'} onClick={() => setKind(null)}>
+            All ({files.length})
+          </Button>
+          {kinds.map((option) => (
+            <Button key={option} size='sm' variant={kind === option ? 'secondary' : 'ghost'} onClick={() => setKind(option)}>
+              {kindLabels[option]} ({files.filter((file) => getAttachmentKind(file.mimeType) === option).length})
+            </Button>
+          ))}
+        </div>
+      )}
+      <div className='grid grid-cols-2 gap-3 overflow-y-auto sm:grid-cols-3 max-h-[60vh]'>
+        {shown.map((file, index) => (
+          // The same file can be linked to more than once.
+          // eslint-disable-next-line react/no-array-index-key
+          <figure key={`${file.name}-${index}`} className='flex flex-col gap-1'>
+            <AttachmentPreview file={file} className='w-full h-28' />
+            <figcaption className='text-xs truncate' title={file.name}>
+              {file.name}
+            </figcaption>
+          </figure>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/** The gallery of the files linked to in the user's messages of a conversation. */
+export default function ConversationAttachments({ conversationId }: { conversationId: string }): React.JSX.Element {
+  const { data: conversation, isLoading } = useConversation(conversationId);
+  const files = useMemo(() => {
+    const byURL = new Map<string, NamedFile>();
+    conversation?.messages
+      .filter((message) => message.role.toUpperCase() === 'USER')
+      .forEach((message) => getMessageFiles(message.message).forEach((file) => byURL.set(file.url, file)));
+    return [...byURL.values()];
+  }, [conversation]);
+
+  if (isLoading && !conversation) {
+    return <Skeleton className='w-full h-28' />;
+  }
+  return <AttachmentGallery files={files} />;
+}
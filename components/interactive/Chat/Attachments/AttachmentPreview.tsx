@@ -0,0 +1,99 @@
+'use client';
+
+import React from 'react';
+import { LuFile, LuFileText } from 'react-icons/lu';
+import { NamedFile, isSafeFileURL } from '../conversationFiles';
+import AudioWaveform from './AudioWaveform';
+import { cn } from '@/lib/utils';
+
+export type AttachmentKind = 'image' | 'pdf' | 'audio' | 'video' | 'file';
+
+export function getAttachmentKind(mimeType: string): AttachmentKind {
+  if (mimeType === 'application/pdf') return 'pdf';
+  const [type] = mimeType.split('/');
+  return type === 'image' || type === 'audio' || type === 'video' ? type : 'file';
+}
+
+// Asks the browser's PDF viewer for the first page alone, fitted to the width. Data URLs cannot carry a fragment.
+function getFirstPageURL(url: string): string {
+  return url.startsWith('data:') ? url : `${url}#page=1&toolbar=0&navpanes=0&view=FitH`;
+}
+
+function FileExtension({ name }: { name: string }): React.JSX.Element {
+  return (
+    <span className='flex flex-col items-center gap-1 p-1 text-xs uppercase text-muted-foreground'>
+      <LuFile className='w-6 h-6' />
+      {name.includes('.') && name.split('.').pop()}
+    </span>
+  );
+}
+
+/**
+ * A thumbnail of an attached file: images scaled down, the first page of PDFs, the waveform of recordings and the first
+ * frame of videos, or else the file's extension. Opens the file in a new tab when clicked, but for recordings, which
+ * play in place.
+ */
+export default function AttachmentPreview({
+  file: { name, url, mimeType },
+  className,
+}: {
+  file: NamedFile;
+  className?: string;
+}): React.JSX.Element {
+  const kind = getAttachmentKind(mimeType);
+  const frame = 'relative flex items-center justify-center overflow-hidden border rounded-md bg-muted';
+
+  // Files whose URL is not safe to open are shown by their extension alone.
+  if (!isSafeFileURL(url)) {
+    return (
+      <div title={name} className={cn(frame, className)}>
+        <FileExtension name={name} />
+      </div>
+    );
+  }
+
+  if (kind === 'audio') {
+    return (
+      <div title={name} className={cn(frame, className)}>
+        <AudioWaveform url={url} />
+      </div>
+    );
+  }
+
+  return (
+    <a href={url} target='_blank' rel='noreferrer' title={name} className={cn(frame, className)}>
+      {kind === 'image' && <img src={url} alt={name} className='object-cover w-full h-full' />}
+      {kind === 'pdf' && (
+        <object
+          data={getFirstPageURL(url)}
+          type='application/pdf'
+          aria-label={name}
+          // The link, rather than the viewer, handles clicks.
+          className='w-full h-full pointer-events-none'
+        >
+          <LuFileText className='w-6 h-6 text-muted-foreground' />
+        </object>
+      )}
+      {kind === 'video' && (
+        <video src={url} preload='metadata' muted className='object-cover w-full h-full'>
+          <track kind='captions' />
+        </video>
+      )}
+      {kind === 'file' && <FileExtension name={name} />}
+    </a>
+  );
+}
+
+/** The previews of the files attached to a message, if it has any. */
+export function AttachmentList({ files, className }: { files: NamedFile[]; className?: string }): React.JSX.Element | null {
+  if (files.length === 0) return null;
+  return (
+    <div className={cn('flex flex-wrap gap-2', className)}>
+      {files.map((file, index) => (
+        // The same file can be attached or linked to more than once.
+        // eslint-disable-next-line react/no-array-index-key
+        <AttachmentPreview key={`${file.name}-${index}`} file={file} className='w-40 h-28' />
+      ))}
+    </div>
+  );
+}
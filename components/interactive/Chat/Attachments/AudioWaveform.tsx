@@ -0,0 +1,103 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { LuPause, LuPlay } from 'react-icons/lu';
+import log from '@/components/jrg/next-log/log';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+const barCount = 40;
+
+// The loudest sample in each of barCount stretches of the recording, relative to the loudest overall.
+async function getPeaks(url: string, signal: AbortSignal): Promise<number[]> {
+  const response = await fetch(url, { signal });
+  const context = new AudioContext();
+  try {
+    const samples = (await context.decodeAudioData(await response.arrayBuffer())).getChannelData(0);
+    const size = Math.max(1, Math.floor(samples.length / barCount));
+    const peaks = Array.from({ length: barCount }, (_, bar) =>
+      samples.subarray(bar * size, (bar + 1) * size).reduce((peak, sample) => Math.max(peak, Math.abs(sample)), 0),
+    );
+    const loudest = Math.max(...peaks) || 1;
+    return peaks.map((peak) => peak / loudest);
+  } finally {
+    context.close();
+  }
+}
+
+/** The waveform of a recording, which fills in as it is played. */
+export default function AudioWaveform({ url, className }: { url: string; className?: string }): React.JSX.Element {
+  const [peaks, setPeaks] = useState<number[] | null>(null);
+  const [playing, setPlaying] = useState(false);
+  // The share of the recording played, from 0 to 1.
+  const [played, setPlayed] = useState(0);
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    getPeaks(url, controller.signal)
+      .then(setPeaks)
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        log(['Failed to draw the waveform of', url, error], { client: 1 });
+        setPeaks([]);
+      });
+    return () => controller.abort();
+  }, [url]);
+
+  const togglePlaying = (): void => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play();
+    } else {
+      audio.pause();
+    }
+  };
+
+  return (
+    <div className={cn('flex items-center w-full h-full gap-1 px-1', className)}>
+      <Button
+        variant='ghost'
+        size='icon'
+        className='w-6 h-6 shrink-0'
+        title={playing ? 'Pause' : 'Play'}
+        onClick={togglePlaying}
+      >
+        {playing ? <LuPause className='w-3 h-3' /> : <LuPlay className='w-3 h-3' />}
+      </Button>
+      {peaks && peaks.length > 0 ? (
+        <svg viewBox={`0 0 ${barCount * 3} 24`} preserveAspectRatio='none' className='flex-1 h-3/4' aria-hidden>
+          {peaks.map((peak, bar) => (
+            <rect
+              // Bars are identified by their position.
+              // eslint-disable-next-line react/no-array-index-key
+              key={bar}
+              x={bar * 3}
+              y={12 - Math.max(1, peak * 12)}
+              width={2}
+              height={Math.max(2, peak * 24)}
+              className={bar / barCount < played ? 'fill-primary' : 'fill-muted-foreground'}
+            />
+          ))}
+        </svg>
+      ) : (
+        <div className={cn('flex-1 h-px bg-muted-foreground', !peaks && 'animate-pulse')} />
+      )}
+      <audio
+        ref={audioRef}
+        src={url}
+        preload='none'
+        onPlay={() => setPlaying(true)}
+        onPause={() => setPlaying(false)}
+        onEnded={() => setPlayed(0)}
+        onTimeUpdate={(event) => {
+          const { currentTime, duration } = event.currentTarget;
+          setPlayed(duration ? currentTime / duration : 0);
+        }}
+      >
+        <track kind='captions' />
+      </audio>
+    </div>
+  );
+}
@@ -1,45 +1,30 @@
 'use client';
 
-import { useContext, useEffect, useState } from 'react';
+import { useContext, useEffect, useMemo, useRef, useState } from 'react';
 import { getCookie } from 'cookies-next';
+import OpenAI from 'openai';
 import useSWR, { mutate } from 'swr';
 import { UIProps } from '../InteractiveAGiXT';
-import { InteractiveConfigContext, Overrides } from '../InteractiveConfigContext';
-import ChatLog from './ChatLog';
+import { InteractiveConfig, InteractiveConfigContext, Overrides } from '../InteractiveConfigContext';
+import { useConversationBranches } from '../hooks';
+import ChatLog, { QueuedMessage } from './ChatLog';
 import ChatBar from './ChatInput';
+import { TurnOptions, getModeFields } from './ChatInput/commands';
+import { moveDraft } from './ChatInput/drafts';
+import { parseActivities } from './parseActivities';
+import { ConversationVersions, getMessageVersions, saveConversationBranch } from './conversationBranches';
+import { AttachedFile, ConversationFilesContext, NamedFile, getConversationFiles } from './conversationFiles';
 import log from '@/components/jrg/next-log/log';
+import { ToastAction } from '@/components/ui/toast';
+import { useToast } from '@/hooks/use-toast';
+import { ConversationMessage, ConversationPage } from '@/lib/sdk';
+import { toastError } from '@/lib/errors';
 
-export async function getAndFormatConversastion(state): Promise<any[]> {
-  const rawConversation = await state.agixt.getConversation('', state.overrides.conversation, 100, 1);
-  log(['Raw conversation: ', rawConversation], { client: 3 });
-  return rawConversation.reduce((accumulator, currentMessage: { id: string; message: string }) => {
-    const messageType = currentMessage.message.split(' ')[0];
-    log(['Message type: ', messageType], { client: 2 });
-    if (messageType.startsWith('[SUBACTIVITY]')) {
-      let target;
-      const parent = messageType.split('[')[2].split(']')[0];
+// Number of messages fetched per page of conversation history.
+const conversationPageSize = 100;
 
-      const parentIndex = accumulator.findIndex((message) => {
-        return message.id === parent || message.children.some((child) => child.id === parent);
-      });
-      if (parentIndex !== -1) {
-        if (accumulator[parentIndex].id === parent) {
-          target = accumulator[parentIndex];
-        } else {
-          target = accumulator[parentIndex].children.find((child) => child.id === parent);
-        }
-        target.children.push({ ...currentMessage, children: [] });
-      } else {
-        throw new Error(
-          `Parent message not found for subactivity ${currentMessage.id} - ${currentMessage.message}, parent ID: ${parent}`,
-        );
-      }
-    } else {
-      accumulator.push({ ...currentMessage, children: [] });
-    }
-    return accumulator;
-  }, []);
-}
+// Time in milliseconds a deleted message can be restored in before it is deleted for good.
+const deleteUndoDelay = 5000;
 
 const conversationSWRPath = '/conversation/';
 export default function Chat({
@@ -47,20 +32,241 @@ export default function Chat({
   alternateBackground,
   enableFileUpload,
   enableVoiceInput,
+  enableStreaming,
   showOverrideSwitchesCSV,
 }: Overrides & UIProps): React.JSX.Element {
   const [loading, setLoading] = useState(false);
+  const [streamingMessage, setStreamingMessage] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const state = useContext(InteractiveConfigContext);
-  const conversation = useSWR(
-    conversationSWRPath + state.overrides.conversation,
-    async () => {
-      return await getAndFormatConversastion(state);
+  const { toast } = useToast();
+  const conversationId = state.overrides?.conversation ?? '';
+  // Pages before the most recent ones, loaded as the user scrolls up, with the conversation they belong to.
+  const [olderPages, setOlderPages] = useState<{ conversation: string; pages: ConversationPage[] }>({
+    conversation: conversationId,
+    pages: [],
+  });
+  const latestPageRef = useRef<{ conversation: string; page: number } | null>(null);
+  const loadingOlderRef = useRef(false);
+  const recentPages = useSWR(
+    conversationSWRPath + conversationId,
+    async (): Promise<ConversationPage[]> => {
+      const conversation = { id: conversationId };
+      const latestPage = latestPageRef.current;
+      const known = latestPage?.conversation === conversationId ? latestPage.page : null;
+      const latest = await state.agixt.getLatestConversationPage(conversation, conversationPageSize, known ?? 1);
+      const pages = [latest];
+      // Include pages that filled up since the last refresh, so no messages are skipped between them and the older pages.
+      for (let page = latest.page - 1; known !== null && page >= known; page--) {
+        pages.unshift(await state.agixt.getConversation(conversation, { limit: conversationPageSize, page }));
+      }
+      latestPageRef.current = { conversation: conversationId, page: latest.page };
+      return pages;
     },
     {
       fallbackData: [],
-      refreshInterval: loading ? 1000 : 0,
+      // Streamed responses are rendered as they arrive, so there is no need to poll the whole conversation.
+      refreshInterval: loading && !enableStreaming ? 1000 : 0,
     },
   );
+  const loadedPages = useMemo(() => {
+    const recent = recentPages.data;
+    const older =
+      olderPages.conversation === conversationId && recent.length > 0
+        ? olderPages.pages.filter((page) => page.page < recent[0].page)
+        : [];
+    return [...older, ...recent];
+  }, [olderPages, recentPages.data, conversationId]);
+  const messages = useMemo(() => loadedPages.flatMap((page) => page.messages), [loadedPages]);
+  const conversation = useMemo(() => {
+    const { entries, orphans } = parseActivities(messages);
+    if (orphans.length > 0) {
+      // The parents are on older pages that have not been loaded yet, so these are shown at the top level until they are.
+      log(['Subactivities without a loaded parent', orphans], { client: 2 });
+    }
+    return entries;
+  }, [messages]);
+  // Files attached to messages sent this session, with the text of their message and the conversation they were sent to.
+  const [attachedFiles, setAttachedFiles] = useState<{
+    conversation: string;
+    messages: { text: string; files: NamedFile[] }[];
+  }>({
+    conversation: conversationId,
+    messages: [],
+  });
+  const conversationFiles = useMemo(
+    () =>
+      getConversationFiles(
+        messages,
+        Object.fromEntries(
+          (attachedFiles.conversation === conversationId ? attachedFiles.messages : [])
+            .flatMap((sent) => sent.files)
+            .map((file) => [file.name, file.url]),
+        ),
+      ),
+    [messages, attachedFiles, conversationId],
+  );
+  // The log records only the text of a message, so the files sent with it are matched to it by its text.
+  const messageAttachments = useMemo(() => {
+    const attachments = new Map<string, NamedFile[]>();
+    const unmatched = attachedFiles.conversation === conversationId ? [...attachedFiles.messages] : [];
+    messages
+      .filter((message) => message.role === 'USER')
+      .forEach((message) => {
+        const index = unmatched.findIndex((sent) => sent.text === message.message);
+        if (index !== -1) {
+          attachments.set(message.id, unmatched[index].files);
+          unmatched.splice(index, 1);
+        }
+      });
+    return attachments;
+  }, [messages, attachedFiles, conversationId]);
+  // Messages sent while a response is in progress, which are sent in the order they were sent in once it completes.
+  const [queuedMessages, setQueuedMessages] = useState<QueuedMessage[]>([]);
+  const { data: branches = [] } = useConversationBranches();
+  const messageVersions = useMemo(() => {
+    const versions = new Map<string, ConversationVersions>();
+    messages.forEach((message, index) => {
+      // Whether the first loaded message is the first of the conversation is only known once all pages are loaded.
+      if (index === 0 && loadedPages[0].previousPage) return;
+      const found = getMessageVersions(branches, conversationId, messages[index - 1]?.id ?? null);
+      if (found) {
+        versions.set(message.id, found);
+      }
+    });
+    return versions;
+  }, [messages, loadedPages, branches, conversationId]);
+  async function loadOlderMessages(): Promise<void> {
+    const previousPage = loadedPages[0]?.previousPage;
+    if (!previousPage || loadingOlderRef.current) return;
+    loadingOlderRef.current = true;
+    try {
+      const page = await state.agixt.getConversation(
+        { id: conversationId },
+        { limit: conversationPageSize, page: previousPage },
+      );
+      setOlderPages((previous) => ({
+        conversation: conversationId,
+        pages: [page, ...(previous.conversation === conversationId ? previous.pages : [])],
+      }));
+    } finally {
+      loadingOlderRef.current = false;
+    }
+  }
+  /**
+   * Applies a change to the loaded messages straight away, then makes the request that persists it.
+   * The change is reverted if the request fails.
+   */
+  async function changeMessages(
+    change: (messages: ConversationMessage[]) => ConversationMessage[],
+    persist: () => Promise<unknown>,
+  ): Promise<void> {
+    const changePages = (pages: ConversationPage[]): ConversationPage[] =>
+      pages.map((page) => ({ ...page, messages: change(page.messages) }));
+    const unchangedOlderPages = olderPages;
+    setOlderPages((previous) => ({ ...previous, pages: changePages(previous.pages) }));
+    try {
+      await recentPages.mutate(
+        async (pages) => {
+          await persist();
+          return changePages(pages ?? []);
+        },
+        { optimisticData: (pages) => changePages(pages ?? []), rollbackOnError: true },
+      );
+    } catch (error) {
+      setOlderPages(unchangedOlderPages);
+      throw error;
+    }
+  }
+  async function editMessage(messageId: string, text: string): Promise<void> {
+    await changeMessages(
+      (messages) =>
+        messages.map((message) =>
+          message.id === messageId ? { ...message, message: text, updatedAt: new Date().toISOString() } : message,
+        ),
+      () => state.agixt.updateConversationMessage(conversationId, messageId, text),
+    );
+  }
+  /**
+   * Hides a message, and deletes it unless the deletion is undone within a few seconds.
+   */
+  async function deleteMessage(messageId: string): Promise<void> {
+    let restored = false;
+    let restore: () => void = () => undefined;
+    const undone = new Promise<void>((resolve) => {
+      restore = resolve;
+    });
+    toast({
+      title: 'Message Deleted',
+      duration: deleteUndoDelay,
+      action: (
+        <ToastAction altText='Restore the deleted message' onClick={() => restore()}>
+          Undo
+        </ToastAction>
+      ),
+    });
+    try {
+      await changeMessages(
+        (messages) => messages.filter((message) => message.id !== messageId),
+        async () => {
+          restored = await Promise.race([
+            undone.then(() => true),
+            new Promise<boolean>((resolve) => setTimeout(() => resolve(false), deleteUndoDelay)),
+          ]);
+          if (restored) {
+            // Rejecting rolls the deletion back.
+            throw new Error('Message deletion undone.');
+          }
+          await state.agixt.deleteConversationMessage(conversationId, messageId);
+        },
+      );
+    } catch (error) {
+      if (!restored) {
+        toastError('Unable to Delete Message', error);
+      }
+    }
+  }
+  /**
+   * Sends a message in a new branch of the conversation, forked just before one of its messages.
+   * @param messageId The message to send another version of.
+   * @param text The text of the new version.
+   */
+  async function branchConversation(messageId: string, text: string): Promise<void> {
+    const index = messages.findIndex((message) => message.id === messageId);
+    let previous: ConversationMessage | null = messages[index - 1] ?? null;
+    if (index === 0 && loadedPages[0].previousPage) {
+      const page = await state.agixt.getConversation(
+        { id: conversationId },
+        { limit: conversationPageSize, page: loadedPages[0].previousPage },
+      );
+      previous = page.messages.at(-1) ?? null;
+    }
+    setLoading(true);
+    try {
+      const branch = await state.agixt.branchConversation(conversationId, previous?.id ?? null, state.agent);
+      const anchor = previous
+        ? (await state.agixt.getLatestConversationPage({ id: branch.id }, conversationPageSize)).messages.at(-1)
+        : undefined;
+      saveConversationBranch({
+        id: branch.id,
+        name: branch.name,
+        parentId: conversationId,
+        forkedAfter: previous?.id ?? null,
+        anchorId: anchor?.id ?? null,
+        createdAt: new Date().toISOString(),
+      });
+      mutate('/conversation/branches');
+      mutate('/conversation');
+      state.mutate?.((oldState: InteractiveConfig) => ({
+        ...oldState,
+        overrides: { ...oldState.overrides, conversation: branch.id },
+      }));
+      await chat(text, {}, {}, branch.id);
+    } catch (error) {
+      setLoading(false);
+      throw error;
+    }
+  }
   useEffect(() => {
     if (Array.isArray(state.overrides.conversation)) {
       state.mutate((oldState) => ({
@@ -69,50 +275,125 @@ export default function Chat({
       }));
     }
   }, [state.overrides.conversation]);
-  async function chat(messageTextBody, messageAttachedFiles): Promise<string> {
+  function recordAttachedFiles(targetConversation: string, text: string, files: Record<string, AttachedFile>): void {
+    const sentFiles = Object.entries(files).map(([name, file]) => ({ name, ...file }));
+    if (sentFiles.length === 0) return;
+    setAttachedFiles((previous) => ({
+      conversation: targetConversation,
+      messages: [...(previous.conversation === targetConversation ? previous.messages : []), { text, files: sentFiles }],
+    }));
+  }
+  // A new conversation is only given its id by the response to its first message, and what was sent to it moves there.
+  function moveToConversation(from: string, to: string): void {
+    moveDraft(from, to);
+    setAttachedFiles((previous) => (previous.conversation === from ? { ...previous, conversation: to } : previous));
+    setQueuedMessages((previous) =>
+      previous.map((queued) => (queued.conversation === from ? { ...queued, conversation: to } : queued)),
+    );
+  }
+  async function send(
+    message: string | object,
+    files: Record<string, AttachedFile> = {},
+    turn: TurnOptions = {},
+  ): Promise<string> {
+    if (!loading && queuedMessages.length === 0) {
+      // The failure is passed on as well, so that what was sent can be given back to be sent again.
+      return chat(message, files, turn).catch((error) => {
+        toastError('Unable to Send Message', error);
+        throw error;
+      });
+    }
+    setQueuedMessages((previous) => [
+      ...previous,
+      { id: crypto.randomUUID(), conversation: conversationId, message, files, turn },
+    ]);
+    return '';
+  }
+  // The queue is sent with the chat function of the latest render, which has the latest state.
+  const chatRef = useRef(chat);
+  chatRef.current = chat;
+  useEffect(() => {
+    if (loading || queuedMessages.length === 0) return;
+    const [next, ...rest] = queuedMessages;
+    setQueuedMessages(rest);
+    chatRef.current(next.message, next.files, next.turn, next.conversation).catch((error) => {
+      toastError('Unable to Send Queued Message', error);
+    });
+  }, [loading, queuedMessages]);
+  async function chat(
+    messageTextBody,
+    messageAttachedFiles: Record<string, AttachedFile>,
+    turn: TurnOptions = {},
+    targetConversation = conversationId,
+  ): Promise<string> {
     const messages = [];
 
     messages.push({
       role: 'user',
       content: [
         { type: 'text', text: messageTextBody },
-        ...Object.entries(messageAttachedFiles).map(([fileName, fileContent]: [string, string]) => ({
-          type: `${fileContent.split(':')[1].split('/')[0]}_url`,
+        // Files are sent as links to where they were uploaded rather than with their content.
+        ...Object.entries(messageAttachedFiles).map(([fileName, { url, mimeType }]) => ({
+          type: `${mimeType.split('/')[0]}_url`,
           file_name: fileName,
-          [`${fileContent.split(':')[1].split('/')[0]}_url`]: {
-            url: fileContent,
+          [`${mimeType.split('/')[0]}_url`]: {
+            url,
           },
-        })), // Spread operator to include all file contents
+        })),
       ],
       ...(getCookie('agixt-company-id') ? { company_id: getCookie('agixt-company-id') } : {}),
       ...(getCookie('agixt-create-image') ? { create_image: getCookie('agixt-create-image') } : {}),
       ...(getCookie('agixt-tts') ? { tts: getCookie('agixt-tts') } : {}),
       ...(getCookie('agixt-websearch') ? { websearch: getCookie('agixt-websearch') } : {}),
       ...(getCookie('agixt-analyze-user-input') ? { analyze_user_input: getCookie('agixt-analyze-user-input') } : {}),
+      ...getModeFields(turn),
     });
 
+    recordAttachedFiles(targetConversation, messageTextBody, messageAttachedFiles);
     const toOpenAI = {
       messages: messages,
-      model: getCookie('agixt-agent'),
-      user: state.overrides.conversation,
+      // A message mentioning an agent is answered by it rather than the selected agent.
+      model: turn.agent ?? getCookie('agixt-agent'),
+      user: targetConversation,
     };
     setLoading(true);
+    try {
+      return await sendChat(toOpenAI, targetConversation);
+    } finally {
+      // Queued messages are sent once loading ends, whether or not this one could be.
+      setLoading(false);
+      setStreamingMessage(null);
+    }
+  }
+  async function sendChat(
+    toOpenAI: Omit<OpenAI.ChatCompletionCreateParams, 'stream'>,
+    targetConversation: string,
+  ): Promise<string> {
     log(['Sending: ', state.openai, toOpenAI], { client: 1 });
-    const req = state.openai.chat.completions.create(toOpenAI);
-    await new Promise((resolve) => setTimeout(resolve, 100));
-    mutate(conversationSWRPath + state.overrides.conversation);
-    const chatCompletion = await req;
-    log(['RESPONSE: ', chatCompletion], { client: 1 });
-    state.mutate((oldState) => ({
-      ...oldState,
-      overrides: {
-        ...oldState.overrides,
-        conversation: chatCompletion.id,
-      },
-    }));
+    let completion: { id: string; content: string };
+    if (enableStreaming) {
+      completion = await streamChat(toOpenAI, targetConversation);
+    } else {
+      const req = state.openai.chat.completions.create(toOpenAI);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      mutate(conversationSWRPath + targetConversation);
+      const chatCompletion = await req;
+      log(['RESPONSE: ', chatCompletion], { client: 1 });
+      completion = { id: chatCompletion.id, content: chatCompletion?.choices[0]?.message.content ?? '' };
+    }
+    if (completion.id) {
+      moveToConversation(targetConversation, completion.id);
+      state.mutate((oldState) => ({
+        ...oldState,
+        overrides: {
+          ...oldState.overrides,
+          conversation: completion.id,
+        },
+      }));
+    }
     let response;
-    if (state.overrides.conversation === '-') {
-      response = await state.agixt.renameConversation(state.agent, state.overrides.conversation);
+    if (targetConversation === '-') {
+      response = await state.agixt.renameConversation(state.agent, targetConversation);
       // response = await axios.put(
       //   `${process.env.NEXT_PUBLIC_AGIXT_SERVER}/api/conversation`,
       //   {
@@ -129,15 +410,49 @@ export default function Chat({
       await mutate('/conversation');
       log([response], { client: 1 });
     }
-    setLoading(false);
     mutate(conversationSWRPath + response);
     mutate('/user');
-    if (chatCompletion?.choices[0]?.message.content.length > 0) {
-      return chatCompletion.choices[0].message.content;
+    if (completion.content.length > 0) {
+      return completion.content;
     } else {
       return 'Unable to get response from the agent';
     }
   }
+  async function streamChat(
+    toOpenAI: Omit<OpenAI.ChatCompletionCreateParams, 'stream'>,
+    targetConversation: string,
+  ): Promise<{ id: string; content: string }> {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setStreamingMessage('');
+    let id = '';
+    let content = '';
+    try {
+      const stream = await state.openai.chat.completions.create(
+        { ...toOpenAI, stream: true },
+        { signal: controller.signal },
+      );
+      // The user message has been logged by the time the first chunk arrives, refresh once to show it.
+      mutate(conversationSWRPath + targetConversation);
+      for await (const chunk of stream) {
+        id = chunk.id || id;
+        content += chunk.choices[0]?.delta?.content ?? '';
+        setStreamingMessage(content);
+      }
+      log(['STREAMED RESPONSE: ', { id, content }], { client: 1 });
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        throw error;
+      }
+      log(['Streamed response aborted after receiving: ', content], { client: 1 });
+    } finally {
+      abortControllerRef.current = null;
+    }
+    return { id, content };
+  }
+  function stopStreaming(): void {
+    abortControllerRef.current?.abort();
+  }
   useEffect(() => {
     mutate(conversationSWRPath + state.overrides.conversation);
   }, [state.overrides.conversation]);
@@ -149,16 +464,26 @@ export default function Chat({
     }
   }, [loading, state.overrides.conversation]);
   return (
-    <>
+    <ConversationFilesContext.Provider value={conversationFiles}>
       <ChatLog
-        conversation={conversation.data}
+        conversation={conversation}
+        hasOlderMessages={Boolean(loadedPages[0]?.previousPage)}
+        onLoadOlderMessages={loadOlderMessages}
+        messageVersions={messageVersions}
+        messageAttachments={messageAttachments}
+        onBranch={branchConversation}
+        onEditMessage={editMessage}
+        onDeleteMessage={deleteMessage}
+        streamingMessage={streamingMessage}
+        queuedMessages={queuedMessages.filter((queued) => queued.conversation === conversationId)}
+        onCancelQueued={(id) => setQueuedMessages((previous) => previous.filter((queued) => queued.id !== id))}
         alternateBackground={alternateBackground}
         setLoading={setLoading}
         loading={loading}
       />
       <ChatBar
-        onSend={chat}
-        disabled={loading}
+        onSend={send}
+        onStop={enableStreaming ? stopStreaming : undefined}
         showChatThemeToggles={showChatThemeToggles}
         enableFileUpload={enableFileUpload}
         enableVoiceInput={enableVoiceInput}
@@ -170,6 +495,6 @@ export default function Chat({
           process.env.NEXT_PUBLIC_AGIXT_CONVERSATION_MODE === 'uuid'
         }
       />
-    </>
+    </ConversationFilesContext.Provider>
   );
 }
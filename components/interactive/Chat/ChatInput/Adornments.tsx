@@ -1,13 +1,29 @@
 'use client';
 
-import { ReactNode } from 'react';
+import { ReactNode, useEffect, useState } from 'react';
 import { CheckCircle as LuCheckCircle } from 'lucide-react';
-import { LuPaperclip, LuSend, LuArrowUp, LuLoader, LuTrash2 } from 'react-icons/lu';
+import {
+  LuPaperclip,
+  LuSend,
+  LuArrowUp,
+  LuLoader,
+  LuTrash2,
+  LuSquare,
+  LuX,
+  LuRotateCcw,
+  LuClipboardList,
+  LuScreenShare,
+} from 'react-icons/lu';
 import { OverrideSwitch } from '../OverrideSwitch';
+import AttachmentPreview from '../Attachments/AttachmentPreview';
+import { TurnOptions } from './commands';
+import { Attachment } from './useAttachments';
 import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipBasic, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
 import {
   Dialog,
   DialogContent,
@@ -19,6 +35,8 @@ import {
 } from '@/components/ui/dialog';
 import SwitchDark from '@/components/jrg/theme/SwitchDark';
 import SwitchColorblind from '@/components/jrg/theme/SwitchColorblind';
+import { formatFileSize } from '@/components/jrg/dropzone/DropZoneContext';
+import { cn } from '@/lib/utils';
 
 export const Timer = ({ loading, timer }: { loading: boolean; timer: number }) => {
   const tooltipMessage = loading
@@ -92,6 +110,16 @@ export const UploadFiles = ({ handleUploadFiles, message, uploadedFiles, disable
   );
 };
 
+export const CaptureScreen = ({ onCapture, disabled }: { onCapture: () => void; disabled?: boolean }): ReactNode => {
+  return (
+    <TooltipBasic title='Capture Screen' side='top'>
+      <Button size='icon' variant='ghost' className='rounded-full' onClick={onCapture} disabled={disabled}>
+        <LuScreenShare className='w-5 h-5' />
+      </Button>
+    </TooltipBasic>
+  );
+};
+
 export const SendMessage = ({ handleSend, message, uploadedFiles, disabled }: any) => {
   return (
     <TooltipBasic title='Send Message' side='left'>
@@ -112,6 +140,25 @@ export const SendMessage = ({ handleSend, message, uploadedFiles, disabled }: an
   );
 };
 
+export const StopGeneration = ({ onStop }: { onStop: () => void }) => {
+  return (
+    <TooltipBasic title='Stop Generating' side='left'>
+      <Button
+        id='stop-generation'
+        onClick={(event) => {
+          event.preventDefault();
+          onStop();
+        }}
+        size='icon'
+        variant='ghost'
+        className='rounded-full'
+      >
+        <LuSquare className='w-5 h-5 fill-current' />
+      </Button>
+    </TooltipBasic>
+  );
+};
+
 export const ResetConversation = ({ state, setCookie }: any) => {
   return (
     <Dialog>
@@ -153,25 +200,148 @@ export const ThemeToggles = (): ReactNode => {
   );
 };
 
-export const ListUploadedFiles = ({ uploadedFiles, setUploadedFiles }: any): ReactNode => {
+// A URL for the content of a file on this device, revoked once it is no longer shown.
+function useObjectURL(file?: File): string | null {
+  const [url, setURL] = useState<string | null>(null);
+  useEffect(() => {
+    if (!file) {
+      setURL(null);
+      return;
+    }
+    const created = URL.createObjectURL(file);
+    setURL(created);
+    return () => URL.revokeObjectURL(created);
+  }, [file]);
+  return url;
+}
+
+// Text pasted into the message, which can be read back without opening it: from this device, or from where it was
+// uploaded if it was restored from a draft.
+const PastedText = ({ file, url, label }: { file?: File; url?: string; label: string }): ReactNode => {
+  const [text, setText] = useState<string | null>(null);
+  const readText = async (): Promise<string> => (file ? file.text() : (await fetch(url ?? '')).text());
+  return (
+    <Popover onOpenChange={(open) => open && text === null && readText().then(setText, () => setText('Unavailable.'))}>
+      <PopoverTrigger asChild>
+        <button type='button' className='flex items-center gap-1 font-normal'>
+          <LuClipboardList className='w-4 h-4' />
+          {label}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent side='top' className='w-[32rem] max-w-[90vw]'>
+        <pre className='overflow-auto text-xs whitespace-pre-wrap max-h-80'>{text ?? 'Loading...'}</pre>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+const UploadedFile = ({
+  id,
+  attachment: { name: fileName, file, size, mimeType, label, status, progress, url, error },
+  onRemove,
+  onRetry,
+}: {
+  id: string;
+  attachment: Attachment;
+  onRemove: (id: string) => void;
+  onRetry: (file: File, label: string | undefined, id: string) => void;
+}): ReactNode => {
+  const previewURL = useObjectURL(file) ?? url;
+  return (
+    <Badge
+      variant='outline'
+      title={error}
+      className={cn('gap-2 py-1 pl-1 bg-muted', status === 'failed' && 'border-destructive')}
+    >
+      {!label && previewURL && (
+        <AttachmentPreview file={{ name: fileName, url: previewURL, mimeType }} className='w-16 h-10 shrink-0' />
+      )}
+      <span className='flex flex-col gap-1'>
+        <span className='flex items-center gap-1'>
+          {label ? <PastedText file={file} url={url} label={label} /> : fileName}
+          <span className='font-normal text-muted-foreground'>
+            {status === 'uploading' ? `${Math.round(progress * 100)}%` : formatFileSize(size)}
+          </span>
+          {status === 'failed' && file && (
+            <LuRotateCcw
+              className='w-3 h-3 cursor-pointer'
+              aria-label='Retry the upload'
+              onClick={() => onRetry(file, label, id)}
+            />
+          )}
+          <LuX
+            className='w-3 h-3 cursor-pointer'
+            aria-label={status === 'uploading' ? 'Cancel the upload' : 'Remove the file'}
+            onClick={() => onRemove(id)}
+          />
+        </span>
+        {status === 'uploading' && <Progress value={progress * 100} className='h-1' />}
+      </span>
+    </Badge>
+  );
+};
+
+export const ListUploadedFiles = ({
+  attachments,
+  onRemove,
+  onRetry,
+}: {
+  attachments: Record<string, Attachment>;
+  onRemove: (id: string) => void;
+  onRetry: (file: File, label: string | undefined, id: string) => void;
+}): ReactNode => {
   return (
     <div className='flex flex-wrap items-center gap-2'>
       <span className='text-sm text-muted-foreground'>Uploaded Files:</span>
-      {Object.entries(uploadedFiles).map(([fileName]) => (
-        <Badge
-          key={fileName}
-          variant='outline'
-          className='py-1 cursor-pointer bg-muted'
-          onClick={() => {
-            setUploadedFiles((prevFiles: any) => {
-              const newFiles = { ...prevFiles };
-              delete newFiles[String(fileName)];
-              return newFiles;
-            });
-          }}
-        >
-          {fileName}
+      {Object.entries(attachments).map(([id, attachment]) => (
+        <UploadedFile key={id} id={id} attachment={attachment} onRemove={onRemove} onRetry={onRetry} />
+      ))}
+    </div>
+  );
+};
+
+const modeLabels = { prompt: 'Prompt', chain: 'Chain', command: 'Command' };
+
+export const TurnOptionsBar = ({
+  turn,
+  setTurn,
+}: {
+  turn: TurnOptions;
+  setTurn: (update: (turn: TurnOptions) => TurnOptions) => void;
+}): ReactNode => {
+  return (
+    <div className='flex flex-wrap items-center w-full gap-2 px-2 pt-1'>
+      {turn.agent && (
+        <Badge variant='secondary' className='gap-1 py-1'>
+          @{turn.agent}
+          <LuX
+            className='w-3 h-3 cursor-pointer'
+            aria-label='Send to the selected agent'
+            onClick={() => setTurn((current) => ({ ...current, agent: undefined }))}
+          />
+        </Badge>
+      )}
+      {turn.mode && (
+        <Badge variant='secondary' className='gap-1 py-1'>
+          {modeLabels[turn.mode]}: {turn.name}
+          <LuX
+            className='w-3 h-3 cursor-pointer'
+            aria-label='Send as a message'
+            onClick={() => setTurn(({ agent }) => ({ agent }))}
+          />
         </Badge>
+      )}
+      {Object.entries(turn.args ?? {}).map(([name, value]) => (
+        <label key={name} className='flex items-center gap-1 text-xs text-muted-foreground'>
+          {name}
+          <Input
+            value={value}
+            className='h-7 text-xs w-36'
+            onChange={(event) =>
+              setTurn((current) => ({ ...current, args: { ...current.args, [name]: event.target.value } }))
+            }
+          />
+        </label>
       ))}
     </div>
   );
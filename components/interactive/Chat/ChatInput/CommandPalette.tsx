@@ -0,0 +1,150 @@
+'use client';
+
+import React, { forwardRef, KeyboardEvent, useEffect, useImperativeHandle, useMemo, useState } from 'react';
+import { LuBot, LuFileText, LuLink, LuTerminal } from 'react-icons/lu';
+import { useAgent, useAgents, useChains, usePrompts } from '../../hooks';
+import { PaletteItem, PaletteTrigger } from './commands';
+import { cn } from '@/lib/utils';
+
+// The number of matches listed for each kind of item.
+const maxItemsPerKind = 8;
+
+const kinds: { kind: PaletteItem['kind']; label: string; icon: React.ElementType }[] = [
+  { kind: 'prompt', label: 'Prompts', icon: LuFileText },
+  { kind: 'chain', label: 'Chains', icon: LuLink },
+  { kind: 'command', label: 'Commands', icon: LuTerminal },
+  { kind: 'agent', label: 'Agents', icon: LuBot },
+];
+
+function usePaletteItems({ type, query }: PaletteTrigger): PaletteItem[] {
+  const { data: prompts } = usePrompts();
+  const { data: chains } = useChains();
+  const { data: agentData } = useAgent();
+  const { data: agents } = useAgents();
+
+  return useMemo(() => {
+    const candidates: PaletteItem[] =
+      type === '@'
+        ? // Agents of different companies can share a name, and are addressed by it.
+          [...new Set((agents ?? []).map((agent) => agent.name))].map((name) => ({ kind: 'agent', name }))
+        : [
+            ...(prompts ?? []).map(
+              (prompt): PaletteItem => ({
+                kind: 'prompt',
+                name: prompt.name,
+                category: prompt.category,
+                description: prompt.description,
+              }),
+            ),
+            ...(chains ?? []).map((chain): PaletteItem => ({ kind: 'chain', name: chain.chainName })),
+            ...Object.entries(agentData?.commands ?? {})
+              .filter(([, enabled]) => enabled)
+              .map(([name]): PaletteItem => ({ kind: 'command', name })),
+          ];
+    const search = query.toLowerCase();
+    return kinds.flatMap(({ kind }) =>
+      candidates.filter((item) => item.kind === kind && item.name.toLowerCase().includes(search)).slice(0, maxItemsPerKind),
+    );
+  }, [type, query, prompts, chains, agentData, agents]);
+}
+
+export type CommandPaletteHandle = {
+  /** Moves through and picks from the list. Returns whether the key was used, in which case it is not typed. */
+  handleKeyDown: (event: KeyboardEvent<HTMLTextAreaElement>) => boolean;
+};
+
+export type CommandPaletteProps = {
+  trigger: PaletteTrigger;
+  onSelect: (item: PaletteItem) => void;
+  onDismiss: () => void;
+};
+
+/**
+ * Lists the prompts, chains and enabled commands matching a / typed in the message, or the agents matching an @, for
+ * the message to be sent with. Navigated with the arrow keys while typing, and picked with Enter or Tab.
+ */
+export const CommandPalette = forwardRef<CommandPaletteHandle, CommandPaletteProps>(function CommandPalette(
+  { trigger, onSelect, onDismiss },
+  ref,
+) {
+  const items = usePaletteItems(trigger);
+  const [highlighted, setHighlighted] = useState(0);
+
+  useEffect(() => {
+    setHighlighted(0);
+  }, [trigger.type, trigger.query]);
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      handleKeyDown: (event) => {
+        if (event.key === 'Escape') {
+          onDismiss();
+          return true;
+        }
+        if (items.length === 0) return false;
+        if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+          const step = event.key === 'ArrowDown' ? 1 : -1;
+          setHighlighted((current) => (current + step + items.length) % items.length);
+          return true;
+        }
+        if ((event.key === 'Enter' && !event.shiftKey) || event.key === 'Tab') {
+          onSelect(items[Math.min(highlighted, items.length - 1)]);
+          return true;
+        }
+        return false;
+      },
+    }),
+    [items, highlighted, onSelect, onDismiss],
+  );
+
+  return (
+    <div role='listbox' className='overflow-y-auto max-h-80'>
+      {items.length === 0 ? (
+        <p className='p-2 text-sm text-muted-foreground'>
+          {trigger.type === '@' ? 'No matching agents.' : 'No matching prompts, chains or commands.'}
+        </p>
+      ) : (
+        kinds.map(({ kind, label, icon: Icon }) => {
+          const group = items.filter((item) => item.kind === kind);
+          return (
+            group.length > 0 && (
+              <div key={kind} className='p-1'>
+                <p className='px-2 py-1 text-xs font-medium text-muted-foreground'>{label}</p>
+                {group.map((item) => {
+                  const index = items.indexOf(item);
+                  return (
+                    <button
+                      key={`${item.category ?? ''}/${item.name}`}
+                      type='button'
+                      tabIndex={-1}
+                      role='option'
+                      aria-selected={index === highlighted}
+                      className={cn(
+                        'flex items-center w-full gap-2 px-2 py-1.5 text-sm text-left rounded-sm cursor-pointer',
+                        index === highlighted && 'bg-accent text-accent-foreground',
+                      )}
+                      onMouseEnter={() => setHighlighted(index)}
+                      // Picking with the mouse keeps the focus in the message.
+                      onMouseDown={(event) => event.preventDefault()}
+                      onClick={() => onSelect(item)}
+                    >
+                      <Icon className='w-4 h-4 shrink-0' />
+                      <span className='truncate'>{item.name}</span>
+                      {item.category && item.category !== 'Default' && (
+                        <span className='text-xs text-muted-foreground'>{item.category}</span>
+                      )}
+                      {item.description && (
+                        <span className='ml-auto text-xs truncate text-muted-foreground'>{item.description}</span>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            )
+          );
+        })
+      )}
+    </div>
+  );
+});
@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getPastedFiles, pastedTextLimit } from './capture';
+
+/** What the clipboard holds for a paste, as the browser passes it to the paste event. */
+function clipboard(data: Record<string, string>, files: File[] = []): DataTransfer {
+  const types = new Map(Object.entries(data));
+  return {
+    types: [...types.keys(), ...(files.length > 0 ? ['Files'] : [])],
+    files,
+    getData: (type: string) => types.get(type) ?? '',
+  } as unknown as DataTransfer;
+}
+
+const screenshot = new File(['png'], 'image.png', { type: 'image/png' });
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(Date.UTC(2025, 0, 2, 3, 4, 5));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('getPastedFiles', () => {
+  it('attaches pasted images, named after when they were pasted', () => {
+    const pasted = getPastedFiles(clipboard({}, [screenshot, screenshot]));
+    expect(pasted.map(({ file }) => [file.name, file.type])).toEqual([
+      ['pasted-2025-01-02T03-04-05-000Z.png', 'image/png'],
+      ['pasted-2025-01-02T03-04-05-000Z-1.png', 'image/png'],
+    ]);
+  });
+
+  it('keeps the names of pasted files', () => {
+    const report = new File(['%PDF'], 'report.pdf', { type: 'application/pdf' });
+    expect(getPastedFiles(clipboard({ 'text/plain': 'report.pdf' }, [report]))).toEqual([{ file: report }]);
+  });
+
+  it('leaves formatted text to be typed rather than attaching the image that comes with it', () => {
+    expect(getPastedFiles(clipboard({ 'text/html': '<table></table>', 'text/plain': 'A\tB' }, [screenshot]))).toEqual([]);
+  });
+
+  it('types short text into the message', () => {
+    expect(getPastedFiles(clipboard({ 'text/plain': 'x'.repeat(pastedTextLimit) }))).toEqual([]);
+  });
+
+  it('attaches long text as a text file, labelled by its lines', async () => {
+    const text = 'line\n'.repeat(pastedTextLimit / 4);
+    const [{ file, label }] = getPastedFiles(clipboard({ 'text/plain': text }));
+    expect(file.name).toBe('pasted-text-2025-01-02T03-04-05-000Z.txt');
+    expect(file.type).toBe('text/plain');
+    expect(await file.text()).toBe(text);
+    expect(label).toBe(`Pasted text (${pastedTextLimit / 4 + 1} lines)`);
+  });
+});
@@ -0,0 +1,79 @@
+// Turns what is pasted into the message, or captured from the screen, into files to attach to it.
+
+// Pastes longer than this many characters are attached as a file rather than typed into the message.
+export const pastedTextLimit = 2000;
+
+export type CapturedFile = {
+  file: File;
+  /** Shown in place of the file's name. */
+  label?: string;
+};
+
+// Files pasted from the clipboard are all named alike, such as image.png, so they are named after when they were made.
+function nameFile(blob: Blob, prefix: string, extension: string, index = 0): File {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const suffix = index ? '-' + index : '';
+  return new File([blob], `${prefix}-${timestamp}${suffix}.${extension}`, { type: blob.type });
+}
+
+// The extension of a file of a MIME type such as image/png or image/svg+xml.
+function getExtension(mimeType: string): string {
+  return mimeType.split('/')[1]?.split('+')[0] || 'bin';
+}
+
+/**
+ * Gets the files to attach for a paste, or none if it is typed into the message as usual. Pasted images and files are
+ * attached, unless they come with formatted text: documents and spreadsheets also offer an image of what was copied,
+ * but it is their text that is meant. Text longer than pastedTextLimit is attached as a text file.
+ */
+export function getPastedFiles(data: DataTransfer): CapturedFile[] {
+  const text = data.getData('text/plain');
+  if (data.files.length > 0 && !data.types.includes('text/html')) {
+    return Array.from(data.files).map((file, index) => ({
+      file: file.name && file.name !== 'image.png' ? file : nameFile(file, 'pasted', getExtension(file.type), index),
+    }));
+  }
+  if (text.length > pastedTextLimit) {
+    const lines = text.split('\n').length;
+    return [
+      {
+        file: nameFile(new Blob([text], { type: 'text/plain' }), 'pasted-text', 'txt'),
+        label: `Pasted text (${lines} ${lines === 1 ? 'line' : 'lines'})`,
+      },
+    ];
+  }
+  return [];
+}
+
+export function canCaptureScreen(): boolean {
+  return typeof navigator !== 'undefined' && Boolean(navigator.mediaDevices?.getDisplayMedia);
+}
+
+/**
+ * Asks the user to pick a screen, window or tab to share, and captures a frame of it as a PNG, ending the share.
+ * @throws {DOMException} Named NotAllowedError if the user declines to share.
+ */
+export async function captureScreen(): Promise<File> {
+  const stream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+  try {
+    const video = document.createElement('video');
+    video.srcObject = stream;
+    video.muted = true;
+    await video.play();
+    // The first frame played can still be blank.
+    await new Promise((resolve) => requestAnimationFrame(resolve));
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+    const blob = await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob(
+        (result) => (result ? resolve(result) : reject(new Error('The screen could not be captured.'))),
+        'image/png',
+      ),
+    );
+    return nameFile(blob, 'screenshot', 'png');
+  } finally {
+    stream.getTracks().forEach((track) => track.stop());
+  }
+}
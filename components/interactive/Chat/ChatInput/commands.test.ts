@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { getModeFields, getPaletteTrigger } from './commands';
+
+describe('getPaletteTrigger', () => {
+  it('finds a command typed at the start of the message', () => {
+    expect(getPaletteTrigger('/sum', 4)).toEqual({ type: '/', query: 'sum', start: 0, end: 4 });
+    expect(getPaletteTrigger('  /', 3)).toEqual({ type: '/', query: '', start: 2, end: 3 });
+  });
+
+  it('ignores a / after other text, such as in a path', () => {
+    expect(getPaletteTrigger('Open /etc', 9)).toBeNull();
+    expect(getPaletteTrigger('a/b', 3)).toBeNull();
+  });
+
+  it('finds a mention after a space anywhere in the message', () => {
+    expect(getPaletteTrigger('Ask @Res about it', 8)).toEqual({ type: '@', query: 'Res', start: 4, end: 8 });
+    expect(getPaletteTrigger('me@example.com', 14)).toBeNull();
+  });
+
+  it('only finds the token that ends at the cursor', () => {
+    expect(getPaletteTrigger('Ask @Research about it', 13)).toEqual({ type: '@', query: 'Research', start: 4, end: 13 });
+    expect(getPaletteTrigger('Ask @Research about it', 16)).toBeNull();
+  });
+});
+
+describe('getModeFields', () => {
+  it('runs the message with a prompt, in the default category unless another is given', () => {
+    expect(getModeFields({ mode: 'prompt', name: 'Think', args: { topic: 'AI' } })).toEqual({
+      mode: 'prompt',
+      prompt_name: 'Think',
+      prompt_category: 'Default',
+      prompt_args: { topic: 'AI' },
+    });
+  });
+
+  it('runs the message with a chain', () => {
+    expect(getModeFields({ mode: 'chain', name: 'Research' })).toEqual({
+      mode: 'chain',
+      chain_name: 'Research',
+      chain_args: {},
+    });
+  });
+
+  it('passes the message to a command as its message argument', () => {
+    expect(getModeFields({ mode: 'command', name: 'Search', args: { limit: '5' }, messageArg: 'query' })).toEqual({
+      mode: 'command',
+      command_name: 'Search',
+      command_args: { limit: '5' },
+      command_variable: 'query',
+    });
+    expect(getModeFields({ mode: 'command', name: 'Search' })).not.toHaveProperty('command_variable');
+  });
+
+  it('adds nothing for the conversation mode or an agent alone', () => {
+    expect(getModeFields({ agent: 'Researcher' })).toEqual({});
+  });
+});
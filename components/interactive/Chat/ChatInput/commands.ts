@@ -0,0 +1,117 @@
+import { Overrides } from '../../InteractiveConfigContext';
+import { ignoreArgs } from '../../Settings/chain/ChainStep';
+import AGiXTSDK from '@/lib/sdk';
+
+export type ChatMode = NonNullable<Overrides['mode']>;
+
+/** How a single message is sent, in place of the conversation's agent and mode. */
+export type TurnOptions = {
+  /** The agent the message is sent to instead of the selected one. */
+  agent?: string;
+  mode?: ChatMode;
+  /** The prompt, chain or command the message is run with. */
+  name?: string;
+  promptCategory?: string;
+  args?: Record<string, string>;
+  /** The argument of the command the message is passed as. */
+  messageArg?: string;
+};
+
+/** Something the / palette runs the message with, or an agent the @ palette sends it to. */
+export type PaletteItem = {
+  kind: ChatMode | 'agent';
+  name: string;
+  description?: string;
+  category?: string;
+};
+
+/** A / or @ being typed in the message, and the text typed after it. */
+export type PaletteTrigger = {
+  type: '/' | '@';
+  query: string;
+  /** The index of the / or @ in the message. */
+  start: number;
+  /** The index after the query. */
+  end: number;
+};
+
+/**
+ * Finds the / or @ token that ends at the cursor. Commands are typed at the start of the message, mentions anywhere
+ * after a space.
+ */
+export function getPaletteTrigger(message: string, cursor: number): PaletteTrigger | null {
+  const match = message.slice(0, cursor).match(/(?:^|\s)([/@])([^\s/@]*)$/);
+  if (!match) return null;
+  const start = cursor - match[2].length - 1;
+  if (match[1] === '/' && message.slice(0, start).trim()) return null;
+  return { type: match[1] as '/' | '@', query: match[2], start, end: cursor };
+}
+
+/**
+ * Fetches the arguments of a prompt, chain or command, leaving out those AGiXT fills in itself.
+ * A command's message argument, the one named by the overrides or else its first, is filled by the message.
+ * @returns The options the message is sent with, the arguments with their default values.
+ */
+export async function getTurnOptions(
+  agixt: AGiXTSDK,
+  item: PaletteItem,
+  commandMessageArg?: string,
+): Promise<Omit<TurnOptions, 'agent'>> {
+  const toArgs = (names: string[], defaults: Record<string, unknown> = {}): Record<string, string> =>
+    Object.fromEntries(
+      names.filter((name) => !ignoreArgs.includes(name)).map((name) => [name, String(defaults[name] ?? '')]),
+    );
+  switch (item.kind) {
+    case 'prompt':
+      return {
+        mode: 'prompt',
+        name: item.name,
+        promptCategory: item.category,
+        args: toArgs(await agixt.getPromptArgs(item.name, item.category)),
+      };
+    case 'chain':
+      return { mode: 'chain', name: item.name, args: toArgs(await agixt.getChainArgs(item.name)) };
+    case 'command': {
+      const defaults = await agixt.getCommandArgs(item.name);
+      const names = Object.keys(defaults);
+      const messageArg = commandMessageArg && names.includes(commandMessageArg) ? commandMessageArg : names[0];
+      return {
+        mode: 'command',
+        name: item.name,
+        args: toArgs(
+          names.filter((name) => name !== messageArg),
+          defaults,
+        ),
+        messageArg,
+      };
+    }
+    default:
+      return {};
+  }
+}
+
+/**
+ * The fields of a chat completion message that run it with a prompt, chain or command.
+ */
+export function getModeFields(turn: TurnOptions): Record<string, unknown> {
+  switch (turn.mode) {
+    case 'prompt':
+      return {
+        mode: 'prompt',
+        prompt_name: turn.name,
+        prompt_category: turn.promptCategory ?? 'Default',
+        prompt_args: turn.args ?? {},
+      };
+    case 'chain':
+      return { mode: 'chain', chain_name: turn.name, chain_args: turn.args ?? {} };
+    case 'command':
+      return {
+        mode: 'command',
+        command_name: turn.name,
+        command_args: turn.args ?? {},
+        ...(turn.messageArg ? { command_variable: turn.messageArg } : {}),
+      };
+    default:
+      return {};
+  }
+}
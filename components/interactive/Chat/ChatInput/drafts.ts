@@ -0,0 +1,149 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { TurnOptions } from './commands';
+import { Attachment } from './useAttachments';
+import log from '@/components/jrg/next-log/log';
+
+// Messages being written are kept on this device for each conversation, so that they survive switching and reloading.
+const databaseName = 'agixt-drafts';
+const storeName = 'drafts';
+
+/** An attachment of a draft, which is kept without the content of its file. */
+export type DraftAttachment = {
+  name: string;
+  size: number;
+  mimeType: string;
+  label?: string;
+  /** Where the file was uploaded to, unless its upload had not completed. */
+  url?: string;
+};
+
+export type Draft = {
+  message: string;
+  turn: TurnOptions;
+  attachments: DraftAttachment[];
+};
+
+export function isEmptyDraft({ message, turn, attachments }: Draft): boolean {
+  return !message && !turn.agent && !turn.mode && attachments.length === 0;
+}
+
+export function toDraftAttachments(attachments: Record<string, Attachment>): DraftAttachment[] {
+  return Object.values(attachments).map(({ name, size, mimeType, label, status, url }) => ({
+    name,
+    size,
+    mimeType,
+    label,
+    url: status === 'uploaded' ? url : undefined,
+  }));
+}
+
+// Files whose upload had not completed are not kept, so they have to be attached again, which resumes their upload.
+export function fromDraftAttachments(attachments: DraftAttachment[]): Record<string, Attachment> {
+  return Object.fromEntries(
+    attachments.map(({ url, ...attachment }): [string, Attachment] => [
+      uuidv4(),
+      url
+        ? { ...attachment, url, status: 'uploaded', progress: 1 }
+        : { ...attachment, status: 'failed', progress: 0, error: 'Attach the file again to finish uploading it.' },
+    ]),
+  );
+}
+
+let database: Promise<IDBDatabase> | null = null;
+// New conversations that have been given their id, by that id, so that their draft is kept rather than restored anew.
+const movedDrafts = new Map<string, string>();
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(databaseName, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch((error) => {
+    // Opening is tried again the next time, such as once storage is no longer blocked.
+    database = null;
+    throw error;
+  });
+  return database;
+}
+
+async function runRequest<T>(mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  const store = (await openDatabase()).transaction(storeName, mode).objectStore(storeName);
+  return new Promise<T>((resolve, reject) => {
+    const request = makeRequest(store);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function loadDraft(conversationId: string): Promise<Draft | null> {
+  return (await runRequest<Draft | undefined>('readonly', (store) => store.get(conversationId))) ?? null;
+}
+
+/** Saves the draft of a conversation, or discards it if it is empty. */
+export async function saveDraft(conversationId: string, draft: Draft): Promise<void> {
+  await runRequest('readwrite', (store) =>
+    isEmptyDraft(draft) ? store.delete(conversationId) : store.put(draft, conversationId),
+  );
+}
+
+/** Keeps the draft being written in a new conversation once it is given its id, instead of restoring the one saved for it. */
+export function moveDraft(from: string, to: string): void {
+  if (from !== to) {
+    movedDrafts.set(to, from);
+  }
+}
+
+/**
+ * Keeps the draft of the conversation shown, restoring the one saved for each conversation it switches to. Changes are
+ * only saved once the conversation's draft has been restored, so that they are not saved to the wrong conversation.
+ * @param restore Replaces what is being written with a saved draft, or with nothing if there is none.
+ */
+export function useDraft(conversationId: string, draft: Draft, restore: (draft: Draft | null) => void): void {
+  const restoredRef = useRef<string | null>(null);
+  const restoreRef = useRef(restore);
+  restoreRef.current = restore;
+  // Saved when the draft changes rather than whenever it is rendered anew, such as as its uploads progress.
+  const serialized = JSON.stringify(draft);
+
+  useEffect(() => {
+    if (typeof indexedDB === 'undefined') return;
+    const movedFrom = movedDrafts.get(conversationId);
+    movedDrafts.delete(conversationId);
+    if (movedFrom !== undefined && restoredRef.current === movedFrom) {
+      // What is being written is saved for the conversation's id from now on.
+      restoredRef.current = conversationId;
+      saveDraft(movedFrom, { message: '', turn: {}, attachments: [] }).catch((error) =>
+        log(['Failed to discard the draft of', movedFrom, error], { client: 1 }),
+      );
+      return;
+    }
+    let cancelled = false;
+    restoredRef.current = null;
+    const restoreDraft = async (): Promise<void> => {
+      let saved: Draft | null = null;
+      try {
+        saved = await loadDraft(conversationId);
+      } catch (error) {
+        log(['Failed to load the draft of', conversationId, error], { client: 1 });
+      }
+      if (cancelled) return;
+      restoreRef.current(saved);
+      restoredRef.current = conversationId;
+    };
+    restoreDraft();
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationId]);
+
+  useEffect(() => {
+    if (restoredRef.current !== conversationId) return;
+    saveDraft(conversationId, JSON.parse(serialized)).catch((error) =>
+      log(['Failed to save the draft of', conversationId, error], { client: 1 }),
+    );
+  }, [conversationId, serialized]);
+}
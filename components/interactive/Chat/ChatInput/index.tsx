@@ -5,16 +5,40 @@ import { setCookie } from 'cookies-next';
 import { BiCollapseVertical } from 'react-icons/bi';
 import { InteractiveConfigContext } from '../../InteractiveConfigContext';
 import { VoiceRecorder } from '../VoiceRecorder';
-import { ListUploadedFiles, OverrideSwitches, ResetConversation, SendMessage, Timer, UploadFiles } from './Adornments';
+import { AttachedFile } from '../conversationFiles';
+import {
+  CaptureScreen,
+  ListUploadedFiles,
+  OverrideSwitches,
+  ResetConversation,
+  SendMessage,
+  StopGeneration,
+  Timer,
+  TurnOptionsBar,
+  UploadFiles,
+} from './Adornments';
+import { CommandPalette, CommandPaletteHandle } from './CommandPalette';
+import { PaletteItem, TurnOptions, getPaletteTrigger, getTurnOptions } from './commands';
+import { useAttachments } from './useAttachments';
+import { fromDraftAttachments, toDraftAttachments, useDraft } from './drafts';
+import { CapturedFile, canCaptureScreen, captureScreen, getPastedFiles } from './capture';
 import { Textarea } from '@/components/ui/textarea';
 import { DropZone } from '@/components/jrg/dropzone/DropZone';
+import { FileLimits, FileRejection, getFileRejection } from '@/components/jrg/dropzone/DropZoneContext';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import { TooltipBasic } from '@/components/ui/tooltip';
+import { Popover, PopoverAnchor, PopoverContent } from '@/components/ui/popover';
+import log from '@/components/jrg/next-log/log';
+import { useToast } from '@/hooks/use-toast';
+import { toastError } from '@/lib/errors';
+
+const defaultUploadLimits: FileLimits = { blockList: ['application/x-msdownload'], maxFileSize: 512 * 1024 * 1024 };
 
 export default function ChatBar({
   onSend,
-  disabled,
+  onStop,
+  disabled = false,
   loading,
   setLoading,
   clearOnSend = true,
@@ -24,9 +48,12 @@ export default function ChatBar({
   enableVoiceInput = false,
   showResetConversation = false,
   showOverrideSwitchesCSV = '',
+  uploadLimits = defaultUploadLimits,
 }: {
-  onSend: (message: string | object, uploadedFiles?: { [x: string]: string }) => Promise<string>;
-  disabled: boolean;
+  onSend: (message: string | object, uploadedFiles?: Record<string, AttachedFile>, turn?: TurnOptions) => Promise<string>;
+  onStop?: () => void;
+  disabled?: boolean;
+  /** Whether a response is in progress. Messages can still be sent, for the caller to queue. */
   loading: boolean;
   setLoading: (loading: boolean) => void;
   clearOnSend?: boolean;
@@ -36,10 +63,22 @@ export default function ChatBar({
   enableVoiceInput?: boolean;
   showResetConversation?: boolean;
   showOverrideSwitchesCSV?: string;
+  /** The types and size of files that can be attached. */
+  uploadLimits?: FileLimits;
 }): ReactNode {
   const state = useContext(InteractiveConfigContext);
+  const { toast } = useToast();
   const [timer, setTimer] = useState<number>(-1);
-  const [uploadedFiles, setUploadedFiles] = useState<{ [x: string]: string }>({});
+  const {
+    attachments,
+    files: uploadedFiles,
+    uploading,
+    attach,
+    remove: removeAttachment,
+    replace: replaceAttachments,
+    clear: clearAttachments,
+    restore: restoreAttachments,
+  } = useAttachments(state.agixt);
   const [alternativeInputActive, setAlternativeInputActive] = useState(false);
   const {
     textareaRef,
@@ -48,26 +87,108 @@ export default function ChatBar({
     handleBlur,
     value: message,
     setValue: setMessage,
-  } = useDynamicInput('', uploadedFiles);
+  } = useDynamicInput('', attachments);
+  // The agent and mode the next message is sent with, picked by typing / or @.
+  const [turn, setTurn] = useState<TurnOptions>({});
+  const [cursor, setCursor] = useState(0);
+  // Where a palette was closed with Escape, so that it stays closed until another / or @ is typed.
+  const [dismissedAt, setDismissedAt] = useState<number | null>(null);
+  const paletteRef = useRef<CommandPaletteHandle>(null);
+  const trigger = getPaletteTrigger(message, cursor);
+  const paletteTrigger = trigger && trigger.start !== dismissedAt ? trigger : null;
+  const hasTrigger = Boolean(trigger);
+
+  useDraft(
+    String(state.overrides?.conversation ?? ''),
+    { message, turn, attachments: toDraftAttachments(attachments) },
+    (draft) => {
+      setMessage(draft?.message ?? '');
+      setTurn(draft?.turn ?? {});
+      replaceAttachments(fromDraftAttachments(draft?.attachments ?? []));
+    },
+  );
+
+  useEffect(() => {
+    if (!hasTrigger) {
+      setDismissedAt(null);
+    }
+  }, [hasTrigger]);
 
-  const handleUploadFiles = async (event: React.ChangeEvent<HTMLInputElement>): Promise<void> => {
-    if (event.target.files) {
-      for (const file of event.target.files) {
-        await uploadFile(file);
-      }
+  const selectPaletteItem = async (item: PaletteItem): Promise<void> => {
+    if (!paletteTrigger) return;
+    setMessage(message.slice(0, paletteTrigger.start) + message.slice(paletteTrigger.end));
+    setCursor(paletteTrigger.start);
+    const { start } = paletteTrigger;
+    setTimeout(() => textareaRef.current?.setSelectionRange(start, start), 0);
+    if (item.kind === 'agent') {
+      setTurn((current) => ({ ...current, agent: item.name }));
+      return;
+    }
+    try {
+      const options = await getTurnOptions(state.agixt, item, state.overrides?.commandMessageArg);
+      setTurn((current) => ({ agent: current.agent, ...options }));
+    } catch (error) {
+      log(['Failed to fetch arguments', item, error], { client: 1 });
+      setTurn((current) => ({ agent: current.agent, mode: item.kind as TurnOptions['mode'], name: item.name }));
     }
   };
 
-  const uploadFile = async (file: File) => {
-    const newUploadedFiles: { [x: string]: string } = {};
-    const fileContent = await new Promise<string>((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onloadend = (): void => resolve(reader.result as string);
-      reader.onerror = reject;
-      reader.readAsDataURL(file);
+  // What was written is cleared as it is sent, so that the next message can be written while this one is answered, and
+  // given back if it could not be sent, ahead of anything written since.
+  const send = (): void => {
+    if (blurOnSend) {
+      handleBlur();
+    }
+    if (clearOnSend) {
+      setMessage('');
+      clearAttachments();
+      setTurn({});
+    }
+    onSend(message, uploadedFiles, turn).catch(() => {
+      if (!clearOnSend) return;
+      setMessage((current) => (current ? `${message}\n\n${current}` : message));
+      restoreAttachments(attachments);
+      setTurn((current) => ({ ...turn, ...current }));
     });
-    newUploadedFiles[file.name] = fileContent;
-    setUploadedFiles((previous) => ({ ...previous, ...newUploadedFiles }));
+  };
+
+  const rejectFiles = (rejections: FileRejection[]): void => {
+    rejections.forEach(({ reason }) => toast({ title: 'File not attached', description: reason, variant: 'destructive' }));
+  };
+
+  const attachFiles = (files: CapturedFile[]): void => {
+    const rejections = files
+      .map(({ file }) => ({ file, reason: getFileRejection(file, uploadLimits) }))
+      .filter((rejection): rejection is FileRejection => rejection.reason !== null);
+    files
+      .filter(({ file }) => !rejections.some((rejection) => rejection.file === file))
+      .forEach(({ file, label }) => attach(file, label));
+    rejectFiles(rejections);
+  };
+
+  const handleUploadFiles = (event: React.ChangeEvent<HTMLInputElement>): void => {
+    attachFiles(Array.from(event.target.files ?? []).map((file) => ({ file })));
+    // The same file can then be picked again, such as to retry it after removing it.
+    event.target.value = '';
+  };
+
+  const handlePaste = (event: React.ClipboardEvent<HTMLTextAreaElement>): void => {
+    if (!enableFileUpload) return;
+    const pasted = getPastedFiles(event.clipboardData);
+    if (pasted.length > 0) {
+      event.preventDefault();
+      attachFiles(pasted);
+    }
+  };
+
+  const handleCaptureScreen = async (): Promise<void> => {
+    try {
+      attachFiles([{ file: await captureScreen() }]);
+    } catch (error) {
+      // The user chose not to share their screen.
+      if (error instanceof DOMException && error.name === 'NotAllowedError') return;
+      toastError('Unable to Capture Screen', error);
+    }
   };
 
   useEffect(() => {
@@ -85,7 +206,9 @@ export default function ChatBar({
 
   return (
     <DropZone
-      onUpload={(files: File[]) => files.map((file) => uploadFile(file))}
+      onUpload={(files: File[]) => files.forEach((file) => attach(file))}
+      onReject={rejectFiles}
+      {...uploadLimits}
       className={cn(
         'flex absolute bg-background bottom-0 items-center left-0 right-0 max-w-[95%] px-2 m-3 mx-auto border overflow-hidden shadow-md rounded-3xl',
         isActive && 'flex-col p-1',
@@ -93,33 +216,62 @@ export default function ChatBar({
     >
       {isActive ? (
         <label className='w-full' htmlFor='message'>
-          <div className='w-full'>
-            <Textarea
-              ref={textareaRef}
-              placeholder={loading ? 'Sending...' : 'Enter your message here...'}
-              className='overflow-x-hidden overflow-y-auto border-none resize-none min-h-4 ring-0 focus-visible:ring-0 max-h-96'
-              rows={1}
-              name='message'
-              id='message'
-              value={message}
-              onChange={(e) => setMessage(e.target.value)}
-              onKeyDown={async (event) => {
-                if (event.key === 'Enter' && !event.shiftKey && message) {
-                  event.preventDefault();
-                  if (blurOnSend) {
-                    handleBlur();
-                  }
-
-                  await onSend(message, uploadedFiles);
-                  if (clearOnSend) {
-                    setMessage('');
-                    setUploadedFiles({});
-                  }
-                }
-              }}
-              disabled={disabled}
-            />
-          </div>
+          {(turn.agent || turn.mode) && <TurnOptionsBar turn={turn} setTurn={setTurn} />}
+          <Popover open={Boolean(paletteTrigger)}>
+            <PopoverAnchor asChild>
+              <div className='w-full'>
+                <Textarea
+                  ref={textareaRef}
+                  placeholder={loading ? 'Enter a message to send after this response...' : 'Enter your message here...'}
+                  className='overflow-x-hidden overflow-y-auto border-none resize-none min-h-4 ring-0 focus-visible:ring-0 max-h-96'
+                  rows={1}
+                  name='message'
+                  id='message'
+                  value={message}
+                  onChange={(e) => {
+                    setMessage(e.target.value);
+                    setCursor(e.target.selectionStart);
+                  }}
+                  onSelect={(e) => setCursor(e.currentTarget.selectionStart)}
+                  onPaste={handlePaste}
+                  onKeyDown={(event) => {
+                    if (paletteRef.current?.handleKeyDown(event)) {
+                      event.preventDefault();
+                      return;
+                    }
+                    if (event.key === 'Enter' && !event.shiftKey && message) {
+                      event.preventDefault();
+                      if (uploading) {
+                        toast({
+                          title: 'Attachments are still uploading',
+                          description: 'Send the message once they finish.',
+                        });
+                        return;
+                      }
+                      send();
+                    }
+                  }}
+                  disabled={disabled}
+                />
+              </div>
+            </PopoverAnchor>
+            <PopoverContent
+              side='top'
+              align='start'
+              className='p-0 w-96'
+              // The focus stays in the message, where the palette is navigated from.
+              onOpenAutoFocus={(event) => event.preventDefault()}
+            >
+              {paletteTrigger && (
+                <CommandPalette
+                  ref={paletteRef}
+                  trigger={paletteTrigger}
+                  onSelect={selectPaletteItem}
+                  onDismiss={() => setDismissedAt(paletteTrigger.start)}
+                />
+              )}
+            </PopoverContent>
+          </Popover>
           <div className='flex items-center w-full gap-1'>
             {enableFileUpload && !alternativeInputActive && (
               <UploadFiles
@@ -129,8 +281,11 @@ export default function ChatBar({
                 disabled={disabled}
               />
             )}
-            {Object.keys(uploadedFiles).length > 0 && (
-              <ListUploadedFiles uploadedFiles={uploadedFiles} setUploadedFiles={setUploadedFiles} />
+            {enableFileUpload && !alternativeInputActive && canCaptureScreen() && (
+              <CaptureScreen onCapture={handleCaptureScreen} disabled={disabled} />
+            )}
+            {Object.keys(attachments).length > 0 && (
+              <ListUploadedFiles attachments={attachments} onRemove={removeAttachment} onRetry={attach} />
             )}
             <div className='flex-grow' />
             <TooltipBasic title='Collapse' side='top'>
@@ -142,21 +297,13 @@ export default function ChatBar({
             {showOverrideSwitchesCSV && <OverrideSwitches showOverrideSwitches={showOverrideSwitchesCSV} />}
             {enableVoiceInput && <VoiceRecorder onSend={onSend} disabled={disabled} />}
             {showResetConversation && <ResetConversation state={state} setCookie={setCookie} />}
+            {loading && onStop && <StopGeneration onStop={onStop} />}
             {!alternativeInputActive && (
               <SendMessage
-                handleSend={() => {
-                  if (blurOnSend) {
-                    handleBlur();
-                  }
-                  if (clearOnSend) {
-                    setMessage('');
-                    setUploadedFiles({});
-                  }
-                  onSend(message, uploadedFiles);
-                }}
+                handleSend={send}
                 message={message}
                 uploadedFiles={uploadedFiles}
-                disabled={disabled}
+                disabled={disabled || uploading}
               />
             )}
           </div>
@@ -171,6 +318,9 @@ export default function ChatBar({
               disabled={disabled}
             />
           )}
+          {enableFileUpload && !alternativeInputActive && canCaptureScreen() && (
+            <CaptureScreen onCapture={handleCaptureScreen} disabled={disabled} />
+          )}
           <Button
             id='message'
             size='lg'
@@ -179,16 +329,20 @@ export default function ChatBar({
             className='justify-start w-full px-4 hover:bg-transparent'
             onClick={handleFocus}
           >
-            <span className='font-light text-muted-foreground'>Enter your message here...</span>
+            {/* The draft restored for the conversation, if there is one. */}
+            <span className={cn('truncate', !message && 'font-light text-muted-foreground')}>
+              {message || 'Enter your message here...'}
+            </span>
           </Button>
           {enableVoiceInput && <VoiceRecorder onSend={onSend} disabled={disabled} />}
+          {loading && onStop && <StopGeneration onStop={onStop} />}
         </>
       )}
     </DropZone>
   );
 }
 
-export function useDynamicInput(initialValue = '', uploadedFiles: { [x: string]: string }) {
+export function useDynamicInput(initialValue = '', uploadedFiles: Record<string, unknown>) {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const [isActive, setIsActive] = useState(false);
   const [value, setValue] = useState(initialValue);
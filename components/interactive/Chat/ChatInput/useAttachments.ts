@@ -0,0 +1,217 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { AttachedFile } from '../conversationFiles';
+import log from '@/components/jrg/next-log/log';
+import { formatFileSize } from '@/components/jrg/dropzone/DropZoneContext';
+import AGiXTSDK, { AGiXTError } from '@/lib/sdk';
+
+// Uploads that have not completed are recorded by the file they are of, so that attaching the file again resumes them.
+const storageKey = 'agixt-resumable-uploads';
+
+export type Attachment = {
+  name: string;
+  /** The file attached, unless the attachment was restored from a draft, which keeps only what the file is. */
+  file?: File;
+  size: number;
+  mimeType: string;
+  /** Shown in place of the file's name, as for text pasted into the message. */
+  label?: string;
+  status: 'uploading' | 'uploaded' | 'failed';
+  /** The share of the file sent, from 0 to 1. */
+  progress: number;
+  /** Where the file was uploaded to, or its content as a data URL if the server does not accept uploads. */
+  url?: string;
+  error?: string;
+};
+
+function getFileKey(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function loadResumableUploads(): Record<string, string> {
+  if (typeof window === 'undefined') return {};
+  try {
+    return JSON.parse(localStorage.getItem(storageKey) ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+function saveResumableUpload(file: File, uploadId: string | null): void {
+  const uploads = loadResumableUploads();
+  if (uploadId) {
+    uploads[getFileKey(file)] = uploadId;
+  } else {
+    delete uploads[getFileKey(file)];
+  }
+  localStorage.setItem(storageKey, JSON.stringify(uploads));
+}
+
+// Files sent with the message as data URLs are held in memory whole and sent in its body, so only small ones are.
+const maxDataURLSize = 5 * 1024 * 1024;
+
+// Servers that predate uploads respond to them as to any unknown endpoint.
+function isUploadUnsupported(error: unknown): boolean {
+  return error instanceof AGiXTError && (error.status === 404 || error.status === 405);
+}
+
+function readAsDataURL(file: File): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = (): void => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+}
+
+// What becomes of an attachment sent with the message as a data URL, as when the server does not accept uploads.
+async function getDataURLAttachment(file: File): Promise<Partial<Attachment>> {
+  if (file.size > maxDataURLSize) {
+    return {
+      status: 'failed',
+      error: `The server does not accept uploads, so files larger than ${formatFileSize(maxDataURLSize)} cannot be sent.`,
+    };
+  }
+  try {
+    return { status: 'uploaded', progress: 1, url: await readAsDataURL(file) };
+  } catch (error) {
+    log(['Failed to read', file.name, error], { client: 1 });
+    return { status: 'failed', error: `${file.name} could not be read.` };
+  }
+}
+
+// Files of the same name are sent under distinct names, such as "notes (2).txt", so that neither replaces the other.
+function getUniqueName(name: string, taken: Set<string>): string {
+  const extension = name.lastIndexOf('.') > 0 ? name.slice(name.lastIndexOf('.')) : '';
+  const base = name.slice(0, name.length - extension.length);
+  let unique = name;
+  for (let count = 2; taken.has(unique); count++) {
+    unique = `${base} (${count})${extension}`;
+  }
+  taken.add(unique);
+  return unique;
+}
+
+/**
+ * Uploads the files attached to a message as they are attached, so that the message refers to them by URL. Servers that
+ * do not accept uploads are sent the content of each small file with the message instead, as a data URL.
+ * @returns The attachments by id, and those that are uploaded as the files to send the message with, by name.
+ */
+export function useAttachments(agixt: AGiXTSDK) {
+  const [attachments, setAttachments] = useState<Record<string, Attachment>>({});
+  const controllers = useRef(new Map<string, AbortController>());
+
+  const update = useCallback((id: string, changes: Partial<Attachment>): void => {
+    setAttachments((current) => (current[id] ? { ...current, [id]: { ...current[id], ...changes } } : current));
+  }, []);
+
+  /**
+   * Attaches a file and uploads it.
+   * @param id The attachment to upload the file for again, such as to retry it, or none to add a new attachment.
+   */
+  const attach = useCallback(
+    async (file: File, label?: string, id: string = uuidv4()): Promise<void> => {
+      controllers.current.get(id)?.abort();
+      const controller = new AbortController();
+      controllers.current.set(id, controller);
+      setAttachments((current) => ({
+        // A file attached again takes the place of its unfinished upload restored from a draft.
+        ...Object.fromEntries(
+          Object.entries(current).filter(([, attachment]) => attachment.file || attachment.name !== file.name),
+        ),
+        [id]: {
+          name: file.name,
+          file,
+          size: file.size,
+          mimeType: file.type || 'application/octet-stream',
+          label,
+          status: 'uploading',
+          progress: 0,
+        },
+      }));
+      try {
+        const upload = await agixt.uploadFile(file, {
+          uploadId: loadResumableUploads()[getFileKey(file)],
+          onCreate: (uploadId) => saveResumableUpload(file, uploadId),
+          onProgress: (sent) => update(id, { progress: file.size ? sent / file.size : 1 }),
+          signal: controller.signal,
+        });
+        saveResumableUpload(file, null);
+        update(id, { status: 'uploaded', progress: 1, url: upload.url });
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        if (isUploadUnsupported(error)) {
+          saveResumableUpload(file, null);
+          update(id, await getDataURLAttachment(file));
+          return;
+        }
+        log(['Failed to upload', file.name, error], { client: 1 });
+        update(id, { status: 'failed', error: (error as Error).message });
+      } finally {
+        if (controllers.current.get(id) === controller) {
+          controllers.current.delete(id);
+        }
+      }
+    },
+    [agixt, update],
+  );
+
+  /** Removes an attachment, cancelling its upload and discarding what the server received if it is in progress. */
+  const remove = useCallback(
+    (id: string): void => {
+      const controller = controllers.current.get(id);
+      if (controller) {
+        controller.abort();
+        controllers.current.delete(id);
+        const file = attachments[id]?.file;
+        const uploadId = file && loadResumableUploads()[getFileKey(file)];
+        if (uploadId) {
+          saveResumableUpload(file, null);
+          agixt.cancelUpload(uploadId).catch((error) => log(['Failed to cancel upload', file.name, error], { client: 1 }));
+        }
+      }
+      setAttachments((current) => Object.fromEntries(Object.entries(current).filter(([key]) => key !== id)));
+    },
+    [agixt, attachments],
+  );
+
+  /**
+   * Replaces the attachments, such as with those of another draft. Uploads in progress are stopped but not cancelled, so
+   * that attaching their files again resumes them.
+   */
+  const replace = useCallback((replacement: Record<string, Attachment>): void => {
+    controllers.current.forEach((controller) => controller.abort());
+    controllers.current.clear();
+    setAttachments(replacement);
+  }, []);
+
+  const clear = useCallback((): void => setAttachments({}), []);
+
+  // Adds back attachments that were cleared, such as those of a message that could not be sent, to any attached since.
+  const restore = useCallback(
+    (restored: Record<string, Attachment>): void => setAttachments((current) => ({ ...restored, ...current })),
+    [],
+  );
+
+  useEffect(() => {
+    const current = controllers.current;
+    return () => current.forEach((controller) => controller.abort());
+  }, []);
+
+  const files = useMemo(() => {
+    const names = new Set<string>();
+    return Object.fromEntries(
+      Object.values(attachments)
+        .filter((attachment) => attachment.status === 'uploaded')
+        .map((attachment): [string, AttachedFile] => [
+          getUniqueName(attachment.name, names),
+          { url: attachment.url ?? '', mimeType: attachment.mimeType },
+        ]),
+    );
+  }, [attachments]);
+  const uploading = Object.values(attachments).some((attachment) => attachment.status === 'uploading');
+
+  return { attachments, files, uploading, attach, remove, replace, clear, restore };
+}
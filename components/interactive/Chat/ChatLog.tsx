@@ -1,86 +1,221 @@
 'use client';
 
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { getCookie } from 'cookies-next';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { ChartGantt, Clock, ListTree } from 'lucide-react';
 import ChatActivity from './Message/Activity';
+import ActivityTrace from './Message/ActivityTrace';
 import Message from './Message/Message';
+import { Activity, ConversationEntry } from './parseActivities';
+import { ConversationVersions } from './conversationBranches';
+import { AttachedFile, NamedFile } from './conversationFiles';
+import { TurnOptions } from './ChatInput/commands';
 import log from '@/components/jrg/next-log/log';
+import { Button } from '@/components/ui/button';
+import { ConversationMessage } from '@/lib/sdk';
+
+type Turn = { id: string; start: number; activities: Activity[] };
+
+/** A message sent while a response was in progress, waiting to be sent in turn. */
+export type QueuedMessage = {
+  id: string;
+  conversation: string;
+  message: string | object;
+  files: Record<string, AttachedFile>;
+  turn: TurnOptions;
+};
+
+// Distance in pixels from the top of the log at which older messages start loading.
+const loadOlderThreshold = 400;
 
 export default function ChatLog({
   conversation,
+  hasOlderMessages,
+  onLoadOlderMessages,
+  messageVersions,
+  messageAttachments,
+  onBranch,
+  onEditMessage,
+  onDeleteMessage,
+  streamingMessage,
+  queuedMessages = [],
+  onCancelQueued,
   alternateBackground,
   loading,
   setLoading,
 }: {
-  conversation: { role: string; message: string; timestamp: string; children: any[] }[];
+  conversation: ConversationEntry<ConversationMessage>[];
+  hasOlderMessages?: boolean;
+  onLoadOlderMessages?: () => Promise<void>;
+  messageVersions?: Map<string, ConversationVersions>;
+  messageAttachments?: Map<string, NamedFile[]>;
+  onBranch?: (messageId: string, text: string) => Promise<void>;
+  onEditMessage?: (messageId: string, text: string) => Promise<void>;
+  onDeleteMessage?: (messageId: string) => Promise<void>;
+  streamingMessage?: string | null;
+  queuedMessages?: QueuedMessage[];
+  onCancelQueued?: (id: string) => void;
   setLoading: (loading: boolean) => void;
   loading: boolean;
   alternateBackground?: string;
 }): React.JSX.Element {
-  let lastUserMessage = ''; // track the last user message
-  const messagesEndRef = useRef(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Distance from the bottom of the log before older messages were prepended, restored once they render.
+  const prependAnchorRef = useRef<number | null>(null);
+  const firstKeyRef = useRef<string | undefined>(undefined);
+  const virtualizer = useVirtualizer({
+    count: conversation.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => 120,
+    overscan: 8,
+    getItemKey: (index) => {
+      const entry = conversation[index];
+      return entry.type === 'activity' ? entry.activity.id : entry.message.id;
+    },
+  });
+  // The most recent user message at or before each item, used to regenerate responses.
+  const lastUserMessages = useMemo(() => {
+    let lastUserMessage: ConversationMessage | null = null;
+    return conversation.map((entry) => {
+      if (entry.type === 'message' && entry.message.role === 'USER') {
+        lastUserMessage = entry.message;
+      }
+      return lastUserMessage;
+    });
+  }, [conversation]);
+
+  // The turn of the agent, a run of consecutive activities, that each activity belongs to.
+  const turns = useMemo(() => {
+    let turn: Turn | null = null;
+    return conversation.map((entry, index) => {
+      if (entry.type !== 'activity') {
+        turn = null;
+      } else if (turn) {
+        turn.activities.push(entry.activity);
+      } else {
+        turn = { id: entry.activity.id, start: index, activities: [entry.activity] };
+      }
+      return turn;
+    });
+  }, [conversation]);
+  // Turns shown as a trace rather than as activities, by the ID of their first activity.
+  const [tracedTurns, setTracedTurns] = useState<string[]>([]);
+
+  const firstKey = conversation.length > 0 ? String(virtualizer.options.getItemKey(0)) : undefined;
+  const lastKey = conversation.length > 0 ? String(virtualizer.options.getItemKey(conversation.length - 1)) : undefined;
+
+  useLayoutEffect(() => {
+    const element = scrollRef.current;
+    if (element && firstKey !== firstKeyRef.current) {
+      // Keep the view in place when older messages are prepended, and open other conversations at their end rather than
+      // at the top, where they would immediately load older pages.
+      element.scrollTop = element.scrollHeight - (prependAnchorRef.current ?? 0);
+    }
+    firstKeyRef.current = firstKey;
+  }, [firstKey]);
 
   useEffect(() => {
+    if (prependAnchorRef.current !== null) return;
     log(['Conversation mutated, scrolling to bottom.', conversation], { client: 3 });
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [conversation]);
+  }, [lastKey, conversation.length, streamingMessage, queuedMessages.length]);
+
+  async function handleScroll(): Promise<void> {
+    const element = scrollRef.current;
+    if (!element || !hasOlderMessages || !onLoadOlderMessages || prependAnchorRef.current !== null) return;
+    if (element.scrollTop < loadOlderThreshold) {
+      prependAnchorRef.current = element.scrollHeight - element.scrollTop;
+      try {
+        await onLoadOlderMessages();
+      } catch (error) {
+        log(['Failed to load older messages', error], { client: 1 });
+      }
+      // Release the anchor once the prepended messages have rendered.
+      requestAnimationFrame(() => {
+        prependAnchorRef.current = null;
+      });
+    }
+  }
+
+  function toggleTrace(turnId: string): void {
+    setTracedTurns((traced) => (traced.includes(turnId) ? traced.filter((id) => id !== turnId) : [...traced, turnId]));
+  }
+
+  function renderActivity(activity: Activity, index: number): React.ReactNode {
+    const turn = turns[index];
+    if (turn === null) return null;
+    const traced = tracedTurns.includes(turn.id);
+    // The trace of a turn is rendered in place of its first activity, and covers the others.
+    if (traced && index !== turn.start) return null;
+    const traceable = turn.activities.length > 1 || turn.activities[0].children.length > 0;
+    return (
+      <>
+        {index === turn.start && traceable && (
+          <div className='flex justify-end px-2.5 pt-1'>
+            <Button variant='ghost' size='sm' className='h-7 gap-1' onClick={() => toggleTrace(turn.id)}>
+              {traced ? <ListTree className='w-4 h-4' /> : <ChartGantt className='w-4 h-4' />}
+              {traced ? 'Show Activities' : 'Show Trace'}
+            </Button>
+          </div>
+        )}
+        {traced ? (
+          <ActivityTrace activities={turn.activities} />
+        ) : (
+          <ChatActivity activity={activity} alternateBackground={alternateBackground} />
+        )}
+      </>
+    );
+  }
+
+  function renderMessage(message: ConversationMessage, index: number): React.ReactNode {
+    const lastUserMessage = lastUserMessages[index];
+    return (
+      <Message
+        chatItem={message}
+        lastUserMessage={lastUserMessage?.message ?? ''}
+        setLoading={setLoading}
+        versions={messageVersions?.get(message.id)}
+        attachments={messageAttachments?.get(message.id)}
+        onRegenerate={
+          onBranch && lastUserMessage && message.role !== 'USER'
+            ? () => onBranch(lastUserMessage.id, lastUserMessage.message)
+            : undefined
+        }
+        onEditAndResend={onBranch && message.role === 'USER' ? (text) => onBranch(message.id, text) : undefined}
+        onEdit={onEditMessage && ((text) => onEditMessage(message.id, text))}
+        onDelete={onDeleteMessage && (() => onDeleteMessage(message.id))}
+      />
+    );
+  }
 
   return (
-    <div className='flex flex-col-reverse flex-grow overflow-auto bg-background pb-28' style={{ flexBasis: '0px' }}>
-      <div className='flex flex-col h-min'>
-        {conversation.length > 0 && conversation.map ? (
-          conversation.map((chatItem, index: number) => {
-            if (chatItem.role === 'USER') {
-              lastUserMessage = chatItem.message;
-            }
-            const validTypes = [
-              '[ACTIVITY]',
-              '[ACTIVITY][ERROR]',
-              '[ACTIVITY][WARN]',
-              '[ACTIVITY][INFO]',
-              '[SUBACTIVITY]',
-              '[SUBACTIVITY][THOUGHT]',
-              '[SUBACTIVITY][REFLECTION]',
-              '[SUBACTIVITY][EXECUTION]',
-              '[SUBACTIVITY][ERROR]',
-              '[SUBACTIVITY][WARN]',
-              '[SUBACTIVITY][INFO]',
-            ];
-            const messageType = chatItem.message.split(' ')[0];
-            const messageBody = validTypes.some((x) => messageType.includes(x))
-              ? chatItem.message.substring(chatItem.message.indexOf(' '))
-              : chatItem.message;
-            // To-Do Fix this so the timestamp works. It's not granular enough rn and we get duplicates.
-            return validTypes.includes(messageType) ? (
-              <ChatActivity
-                key={chatItem.timestamp + '-' + messageBody}
-                activityType={
-                  messageType === '[ACTIVITY]'
-                    ? 'success'
-                    : (messageType.split('[')[2].split(']')[0].toLowerCase() as
-                        | 'error'
-                        | 'info'
-                        | 'success'
-                        | 'warn'
-                        | 'thought'
-                        | 'reflection'
-                        | 'execution'
-                        | 'diagram')
-                }
-                nextTimestamp={conversation[index + 1]?.timestamp}
-                message={messageBody}
-                timestamp={chatItem.timestamp}
-                alternateBackground={alternateBackground}
-                children={chatItem.children}
-              />
-            ) : (
-              <Message
-                key={chatItem.timestamp + '-' + messageBody}
-                chatItem={chatItem}
-                lastUserMessage={lastUserMessage}
-                setLoading={setLoading}
-              />
-            );
-          })
+    <div
+      ref={scrollRef}
+      onScroll={handleScroll}
+      className='flex flex-col flex-grow overflow-auto bg-background pb-28'
+      style={{ flexBasis: '0px' }}
+    >
+      <div className='flex flex-col h-min mt-auto'>
+        {conversation.length > 0 ? (
+          <div className='relative w-full' style={{ height: virtualizer.getTotalSize() }}>
+            {virtualizer.getVirtualItems().map((virtualItem) => {
+              const index = virtualItem.index;
+              const entry = conversation[index];
+              return (
+                <div
+                  key={virtualItem.key}
+                  data-index={index}
+                  ref={virtualizer.measureElement}
+                  className='absolute top-0 left-0 w-full'
+                  style={{ transform: `translateY(${virtualItem.start}px)` }}
+                >
+                  {entry.type === 'activity' ? renderActivity(entry.activity, index) : renderMessage(entry.message, index)}
+                </div>
+              );
+            })}
+          </div>
         ) : (
           <div className='max-w-4xl px-2 mx-auto space-y-2 text-center'>
             <div>
@@ -99,6 +234,38 @@ export default function ChatLog({
             </p>
           </div>
         )}
+        {typeof streamingMessage === 'string' && (
+          // Provisional response, replaced by the logged message once the stream completes.
+          <Message
+            key='streaming-response'
+            chatItem={{
+              role: (getCookie('agixt-agent') as string) || 'Assistant',
+              message: streamingMessage || '...',
+              timestamp: '',
+            }}
+            lastUserMessage={lastUserMessages[lastUserMessages.length - 1]?.message ?? ''}
+            setLoading={setLoading}
+          />
+        )}
+        {queuedMessages.map((queued) => (
+          <div key={queued.id} className='opacity-60'>
+            <Message
+              chatItem={{ role: 'USER', message: typeof queued.message === 'string' ? queued.message : '', timestamp: '' }}
+              lastUserMessage=''
+              setLoading={setLoading}
+              attachments={Object.entries(queued.files).map(([name, file]) => ({ name, ...file }))}
+            />
+            <div className='flex items-center justify-end gap-1 px-4 text-xs text-muted-foreground'>
+              <Clock className='w-3 h-3' />
+              Queued
+              {onCancelQueued && (
+                <Button variant='ghost' size='sm' className='h-6 px-2' onClick={() => onCancelQueued(queued.id)}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
 
         <div ref={messagesEndRef} />
       </div>
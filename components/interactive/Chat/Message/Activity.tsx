@@ -10,6 +10,7 @@ import { GiMirrorMirror } from 'react-icons/gi';
 import dayjs from 'dayjs';
 import timezone from 'dayjs/plugin/timezone';
 import utc from 'dayjs/plugin/utc';
+import { Activity as ActivityNode } from '../parseActivities';
 import MarkdownBlock from './MarkdownBlock';
 import formatDate from './formatDate';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
@@ -136,29 +137,26 @@ const severities = {
 };
 
 export type ActivityProps = {
-  activityType: 'error' | 'info' | 'success' | 'warn' | 'thought' | 'reflection' | 'execution' | 'diagram';
-  message: string;
+  activity: ActivityNode;
   alternateBackground?: string;
-  timestamp: string;
-  nextTimestamp: string;
-  children?: any[];
 };
 
+// Severities other than success take precedence over the kind, and kinds without an icon show as successes.
+function getActivityType(activity: ActivityNode): keyof typeof severities {
+  if (activity.severity !== 'success') return activity.severity;
+  return activity.kind in severities ? (activity.kind as keyof typeof severities) : 'success';
+}
+
 // Extend dayjs with plugins
 dayjs.extend(timezone);
 dayjs.extend(utc);
 
-export default function Activity({
-  message,
-  activityType,
-  alternateBackground = 'primary',
-  timestamp,
-  nextTimestamp,
-  children,
-}: ActivityProps): ReactNode {
+export default function Activity({ activity, alternateBackground = 'primary' }: ActivityProps): ReactNode {
+  const { startedAt: timestamp, endedAt: nextTimestamp, children } = activity;
+  const activityType = getActivityType(activity);
   // const [dots, setDots] = useState<string>('');
-  const title = useMemo(() => message.split('\n')[0].replace(/:$/, ''), [message]).trim();
-  const body = useMemo(() => message.split('\n').slice(1).join('\n'), [message]).trim();
+  const title = useMemo(() => activity.body.split('\n')[0].replace(/:$/, ''), [activity.body]).trim();
+  const body = useMemo(() => activity.body.split('\n').slice(1).join('\n'), [activity.body]).trim();
   const [currentTime, setCurrentTime] = useState(dayjs().format('YYYY-MM-DDTHH:mm:ssZ'));
   useEffect(() => {
     if (!nextTimestamp && activityType !== 'info') {
@@ -220,7 +218,7 @@ export default function Activity({
     </Tooltip>
   );
 
-  return children?.length > 0 ? (
+  return children.length > 0 ? (
     <Accordion
       type='single'
       className={`w-full border-t border-border ${alternateBackground === 'primary' ? 'bg-primary/10' : ''}`}
@@ -232,36 +230,9 @@ export default function Activity({
           {rootChildren}
         </AccordionTrigger>
         <AccordionContent className='pl-4 border-b-0'>
-          {children?.map((child, index) => {
-            const messageType = child.message.split(' ')[0];
-            const messageBody = child.message.substring(child.message.indexOf(' '));
-            return (
-              <Activity
-                key={child.timestamp + '-' + messageBody}
-                activityType={
-                  messageType.startsWith('[SUBACTIVITY]') && !messageType.split('[')[3]
-                    ? 'success'
-                    : (messageType
-                        .split('[')
-                        [messageType.startsWith('[SUBACTIVITY]') ? 3 : 2].split(']')[0]
-                        .toLowerCase() as
-                        | 'error'
-                        | 'info'
-                        | 'success'
-                        | 'warn'
-                        | 'thought'
-                        | 'reflection'
-                        | 'execution'
-                        | 'diagram')
-                }
-                message={messageBody}
-                nextTimestamp={index === children.length - 1 ? nextTimestamp : children[index + 1].timestamp}
-                timestamp={child.timestamp}
-                alternateBackground={alternateBackground}
-                children={child.children}
-              />
-            );
-          })}
+          {children.map((child) => (
+            <Activity key={child.id} activity={child} alternateBackground={alternateBackground} />
+          ))}
         </AccordionContent>
       </AccordionItem>
     </Accordion>
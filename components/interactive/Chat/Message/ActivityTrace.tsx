@@ -0,0 +1,118 @@
+'use client';
+
+import React, { ReactNode, useEffect, useMemo, useState } from 'react';
+import { Activity as ActivityNode, ActivitySeverity } from '../parseActivities';
+import { getTimeDifference } from './Activity';
+import formatDate from './formatDate';
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+
+const barColours: Record<ActivitySeverity, string> = {
+  success: 'bg-success',
+  info: 'bg-info',
+  warn: 'bg-warning',
+  error: 'bg-destructive',
+};
+
+type TraceRow = { activity: ActivityNode; depth: number; category: string; start: number; end: number };
+
+// Errors are grouped together whatever their kind, so that failures can be filtered on.
+function getCategory(activity: ActivityNode): string {
+  return activity.severity === 'error' ? 'error' : activity.kind;
+}
+
+function flattenActivities(activities: ActivityNode[], now: number, depth = 0): TraceRow[] {
+  return activities.flatMap((activity) => [
+    {
+      activity,
+      depth,
+      category: getCategory(activity),
+      start: new Date(activity.startedAt).getTime(),
+      end: activity.endedAt ? new Date(activity.endedAt).getTime() : now,
+    },
+    ...flattenActivities(activity.children, now, depth + 1),
+  ]);
+}
+
+export type ActivityTraceProps = {
+  activities: ActivityNode[];
+};
+
+/**
+ * Lays out the activities of a conversation turn and their subactivities on a timeline.
+ */
+export default function ActivityTrace({ activities }: ActivityTraceProps): ReactNode {
+  const [now, setNow] = useState(Date.now());
+  const [hiddenCategories, setHiddenCategories] = useState<string[]>([]);
+  const rows = useMemo(() => flattenActivities(activities, now), [activities, now]);
+  const running = rows.some((row) => !row.activity.endedAt);
+  useEffect(() => {
+    if (running) {
+      const interval = setInterval(() => setNow(Date.now()), 500);
+      return () => clearInterval(interval);
+    }
+  }, [running]);
+
+  const traceStart = Math.min(...rows.map((row) => row.start));
+  const traceDuration = Math.max(Math.max(...rows.map((row) => row.end)) - traceStart, 1);
+  // Nested activities overlap their parents, so these add up to more than the duration of the turn.
+  const totals = useMemo(
+    () =>
+      rows.reduce<Record<string, number>>((totals, row) => {
+        totals[row.category] = (totals[row.category] ?? 0) + row.end - row.start;
+        return totals;
+      }, {}),
+    [rows],
+  );
+  const categories = Object.keys(totals).sort();
+
+  function toggleCategory(category: string): void {
+    setHiddenCategories((hidden) =>
+      hidden.includes(category) ? hidden.filter((hiddenCategory) => hiddenCategory !== category) : [...hidden, category],
+    );
+  }
+
+  return (
+    <div className='flex flex-col gap-2 p-2.5 text-sm agixt-activity-trace'>
+      <div className='flex flex-wrap items-center gap-2'>
+        {categories.map((category) => (
+          <Button
+            key={category}
+            size='sm'
+            variant={hiddenCategories.includes(category) ? 'outline' : 'secondary'}
+            className='h-7 capitalize'
+            onClick={() => toggleCategory(category)}
+          >
+            {category}: {getTimeDifference(0, totals[category])}
+          </Button>
+        ))}
+        <span className='ml-auto text-muted-foreground'>Total: {getTimeDifference(0, traceDuration)}</span>
+      </div>
+      {rows
+        .filter((row) => !hiddenCategories.includes(row.category))
+        .map((row) => (
+          <div key={row.activity.id} className='flex items-center gap-2'>
+            <div className='w-1/3 truncate capitalize' style={{ paddingLeft: `${row.depth}rem` }}>
+              {row.category}: <span className='normal-case'>{row.activity.body.split('\n')[0].replace(/:$/, '')}</span>
+            </div>
+            <div className='relative flex-1 h-4 rounded bg-muted'>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <div
+                    className={`absolute h-full rounded ${barColours[row.activity.severity]} ${row.activity.endedAt ? '' : 'animate-pulse'}`}
+                    style={{
+                      left: `${((row.start - traceStart) / traceDuration) * 100}%`,
+                      width: `max(${((row.end - row.start) / traceDuration) * 100}%, 2px)`,
+                    }}
+                  />
+                </TooltipTrigger>
+                <TooltipContent side='bottom' align='start'>
+                  {formatDate(row.activity.startedAt, false)} ({getTimeDifference(row.start, row.end)})
+                </TooltipContent>
+              </Tooltip>
+            </div>
+          </div>
+        ))}
+    </div>
+  );
+}
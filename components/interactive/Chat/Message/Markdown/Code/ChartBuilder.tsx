@@ -0,0 +1,377 @@
+'use client';
+
+import React, { ReactNode, useMemo, useRef, useState } from 'react';
+import { LuDownload as Download } from 'react-icons/lu';
+import {
+  Aggregation,
+  ChartColumn,
+  ChartPoint,
+  ChartType,
+  ColumnType,
+  TableData,
+  getChartPoints,
+  inferColumns,
+} from './chartData';
+import { downloadPNG, downloadSVG } from './exportImage';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toastError } from '@/lib/errors';
+
+const width = 640;
+const height = 360;
+const margin = { top: 16, right: 16, bottom: 64, left: 64 };
+const plotWidth = width - margin.left - margin.right;
+const plotHeight = height - margin.top - margin.bottom;
+// The value of the y select that counts the rows instead of reading a column.
+const countRows = '__count';
+
+const chartTypes: { value: ChartType; label: string }[] = [
+  { value: 'bar', label: 'Bar' },
+  { value: 'line', label: 'Line' },
+  { value: 'scatter', label: 'Scatter' },
+  { value: 'pie', label: 'Pie' },
+];
+const aggregations: { value: Aggregation; label: string }[] = [
+  { value: 'sum', label: 'Sum' },
+  { value: 'average', label: 'Average' },
+  { value: 'min', label: 'Minimum' },
+  { value: 'max', label: 'Maximum' },
+  { value: 'count', label: 'Count' },
+];
+
+const numberFormat = new Intl.NumberFormat(undefined, { notation: 'compact', maximumFractionDigits: 2 });
+
+function getColor(index: number): string {
+  return `hsl(var(--chart-${(index % 5) + 1}))`;
+}
+
+function formatValue(value: number, type: ColumnType): string {
+  return type === 'date' ? new Date(value).toLocaleDateString() : numberFormat.format(value);
+}
+
+function truncate(label: string, length = 12): string {
+  return label.length > length ? `${label.slice(0, length - 1)}…` : label;
+}
+
+// Round tick values covering the values, about five of them.
+function getTicks(values: number[], includeZero: boolean): number[] {
+  const min = Math.min(...values, ...(includeZero ? [0] : []));
+  const max = Math.max(...values, ...(includeZero ? [0] : []));
+  if (min === max) return [min - 1, min, min + 1];
+  const magnitude = 10 ** Math.floor(Math.log10((max - min) / 5));
+  const step = magnitude * ([1, 2, 5, 10].find((factor) => (max - min) / (magnitude * factor) <= 5) ?? 10);
+  const ticks: number[] = [];
+  for (let tick = Math.floor(min / step) * step; tick < max + step; tick += step) {
+    ticks.push(Number(tick.toPrecision(12)));
+  }
+  return ticks;
+}
+
+function scale(ticks: number[], range: number): (value: number) => number {
+  const min = ticks[0];
+  const max = ticks[ticks.length - 1];
+  return (value) => ((value - min) / (max - min)) * range;
+}
+
+function YAxis({ ticks, y, type }: { ticks: number[]; y: (value: number) => number; type: ColumnType }): ReactNode {
+  return ticks.map((tick) => (
+    <g key={tick} transform={`translate(0, ${plotHeight - y(tick)})`}>
+      <line x2={plotWidth} style={{ stroke: 'hsl(var(--border))' }} />
+      <text x={-8} dy='0.32em' textAnchor='end' fontSize={11} style={{ fill: 'currentColor' }}>
+        {formatValue(tick, type)}
+      </text>
+    </g>
+  ));
+}
+
+// Labels below the x axis, tilted so that long ones fit, and thinned out so that no more than twenty are shown.
+function XLabels({ labels }: { labels: { key: string | number; x: number; label: string }[] }): ReactNode {
+  const every = Math.ceil(labels.length / 20);
+  return labels
+    .filter((_, index) => index % every === 0)
+    .map(({ key, x, label }) => (
+      <text
+        key={key}
+        transform={`translate(${x}, ${plotHeight + 12}) rotate(-30)`}
+        textAnchor='end'
+        fontSize={11}
+        style={{ fill: 'currentColor' }}
+      >
+        {truncate(label)}
+      </text>
+    ));
+}
+
+function CategoryChart({ points, type, valueType }: { points: ChartPoint[]; type: 'bar' | 'line'; valueType: ColumnType }) {
+  const ticks = getTicks(
+    points.map((point) => point.y),
+    type === 'bar',
+  );
+  const y = scale(ticks, plotHeight);
+  const band = plotWidth / points.length;
+  const center = (index: number): number => band * index + band / 2;
+  return (
+    <>
+      <YAxis ticks={ticks} y={y} type={valueType === 'date' ? 'date' : 'number'} />
+      {type === 'bar' ? (
+        points.map((point) => (
+          <rect
+            key={point.x}
+            x={center(point.x) - band * 0.4}
+            y={plotHeight - Math.max(y(point.y), y(0))}
+            width={band * 0.8}
+            height={Math.abs(y(point.y) - y(0))}
+            style={{ fill: getColor(0) }}
+          >
+            <title>{`${point.label}: ${point.y}`}</title>
+          </rect>
+        ))
+      ) : (
+        <>
+          <polyline
+            points={points.map((point) => `${center(point.x)},${plotHeight - y(point.y)}`).join(' ')}
+            style={{ fill: 'none', stroke: getColor(0), strokeWidth: 2 }}
+          />
+          {points.map((point) => (
+            <circle key={point.x} cx={center(point.x)} cy={plotHeight - y(point.y)} r={3} style={{ fill: getColor(0) }}>
+              <title>{`${point.label}: ${point.y}`}</title>
+            </circle>
+          ))}
+        </>
+      )}
+      <XLabels labels={points.map((point) => ({ key: point.x, x: center(point.x), label: point.label }))} />
+    </>
+  );
+}
+
+function ScatterChart({ points, x: xColumn, y: yColumn }: { points: ChartPoint[]; x: ChartColumn; y: ChartColumn }) {
+  const xTicks = getTicks(
+    points.map((point) => point.x),
+    false,
+  );
+  const yTicks = getTicks(
+    points.map((point) => point.y),
+    false,
+  );
+  const x = scale(xTicks, plotWidth);
+  const y = scale(yTicks, plotHeight);
+  return (
+    <>
+      <YAxis ticks={yTicks} y={y} type={yColumn.type} />
+      {points.map((point, index) => (
+        <circle
+          // Points are not unique, rows are.
+          // eslint-disable-next-line react/no-array-index-key
+          key={index}
+          cx={x(point.x)}
+          cy={plotHeight - y(point.y)}
+          r={4}
+          style={{ fill: getColor(0), opacity: 0.7 }}
+        >
+          <title>{`${point.label}: ${point.y}`}</title>
+        </circle>
+      ))}
+      <XLabels labels={xTicks.map((tick) => ({ key: tick, x: x(tick), label: formatValue(tick, xColumn.type) }))} />
+    </>
+  );
+}
+
+function PieChart({ points }: { points: ChartPoint[] }) {
+  const slices = points.filter((point) => point.y > 0);
+  const total = slices.reduce((sum, point) => sum + point.y, 0);
+  const radius = plotHeight / 2;
+  let angle = -Math.PI / 2;
+  return (
+    <>
+      <g transform={`translate(${radius}, ${radius})`}>
+        {slices.map((point, index) => {
+          const start = angle;
+          angle += (point.y / total) * Math.PI * 2;
+          const [x1, y1, x2, y2] = [Math.cos(start), Math.sin(start), Math.cos(angle), Math.sin(angle)].map(
+            (coordinate) => coordinate * radius,
+          );
+          const large = angle - start > Math.PI ? 1 : 0;
+          return slices.length === 1 ? (
+            <circle key={point.x} r={radius} style={{ fill: getColor(index) }} />
+          ) : (
+            <path
+              key={point.x}
+              d={`M0,0 L${x1},${y1} A${radius},${radius} 0 ${large} 1 ${x2},${y2} Z`}
+              style={{ fill: getColor(index), stroke: 'hsl(var(--background))' }}
+            >
+              <title>{`${point.label}: ${point.y}`}</title>
+            </path>
+          );
+        })}
+      </g>
+      {slices.slice(0, 12).map((point, index) => (
+        <g key={point.x} transform={`translate(${radius * 2 + 32}, ${index * 20})`}>
+          <rect width={12} height={12} style={{ fill: getColor(index) }} />
+          <text x={18} y={10} fontSize={12} style={{ fill: 'currentColor' }}>
+            {`${truncate(point.label, 28)} (${Math.round((point.y / total) * 100)}%)`}
+          </text>
+        </g>
+      ))}
+    </>
+  );
+}
+
+// The chart as a standalone SVG document, with the colors of the theme it is shown in.
+function serializeChart(svg: SVGSVGElement): string {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const clones = [clone, ...clone.querySelectorAll<SVGElement>('*')];
+  [svg, ...svg.querySelectorAll<SVGElement>('*')].forEach((element, index) => {
+    const style = getComputedStyle(element);
+    clones[index].setAttribute(
+      'style',
+      ['fill', 'stroke', 'stroke-width', 'opacity', 'font-family']
+        .map((property) => `${property}:${style.getPropertyValue(property)}`)
+        .join(';'),
+    );
+  });
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  return new XMLSerializer().serializeToString(clone);
+}
+
+function ChartSelect({
+  label,
+  value,
+  onChange,
+  options,
+  disabled,
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  options: { value: string; label: string }[];
+  disabled?: boolean;
+}): ReactNode {
+  return (
+    <label className='flex items-center gap-2 text-sm'>
+      {label}
+      <Select value={value} onValueChange={onChange} disabled={disabled}>
+        <SelectTrigger className='h-8 w-36'>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </label>
+  );
+}
+
+export type ChartBuilderProps = TableData & {
+  /** The name, without extension, the chart is exported as. */
+  fileName?: string;
+};
+
+/**
+ * Plots a table as a bar, line, scatter or pie chart of the columns the user picks, and exports it as PNG or SVG.
+ */
+export default function ChartBuilder({ columns, rows, fileName = 'chart' }: ChartBuilderProps): ReactNode {
+  const chartColumns = useMemo(() => inferColumns({ columns, rows }), [columns, rows]);
+  const numberColumns = chartColumns.filter((column) => column.type === 'number');
+  const initialX = chartColumns.find((column) => column.type !== 'number') ?? chartColumns[0];
+  const [chartType, setChartType] = useState<ChartType>(initialX?.type === 'date' ? 'line' : 'bar');
+  const [xField, setXField] = useState(initialX?.field ?? '');
+  const [yField, setYField] = useState(numberColumns.find((column) => column.field !== initialX?.field)?.field ?? countRows);
+  const [aggregation, setAggregation] = useState<Aggregation>('sum');
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const x = chartColumns.find((column) => column.field === xField);
+  const y = chartColumns.find((column) => column.field === yField) ?? null;
+  const points = useMemo(
+    () => (x ? getChartPoints(rows, chartType, x, y, aggregation) : []),
+    [rows, chartType, x, y, aggregation],
+  );
+  const isScatter = chartType === 'scatter';
+  const scatterError =
+    isScatter && (!x || x.type === 'category' || !y) ? 'Scatter plots need a number or date column on each axis.' : null;
+
+  const renderChart = (): ReactNode => {
+    if (!x || !points.length) return null;
+    if (chartType === 'pie') return <PieChart points={points} />;
+    if (isScatter) return y && <ScatterChart points={points} x={x} y={y} />;
+    return <CategoryChart points={points} type={chartType} valueType={y && aggregation !== 'count' ? y.type : 'number'} />;
+  };
+
+  return (
+    <div className='flex flex-col gap-2 p-2'>
+      <div className='flex flex-wrap items-center gap-4'>
+        <ChartSelect
+          label='Chart'
+          value={chartType}
+          onChange={(value) => setChartType(value as ChartType)}
+          options={chartTypes}
+        />
+        <ChartSelect
+          label='X'
+          value={xField}
+          onChange={setXField}
+          options={chartColumns.map((column) => ({ value: column.field, label: column.headerName }))}
+        />
+        <ChartSelect
+          label='Y'
+          value={yField}
+          onChange={setYField}
+          options={[
+            ...(isScatter ? [] : [{ value: countRows, label: 'Number of rows' }]),
+            ...chartColumns
+              .filter((column) => column.type !== 'category')
+              .map((column) => ({ value: column.field, label: column.headerName })),
+          ]}
+        />
+        <ChartSelect
+          label='Aggregate'
+          value={aggregation}
+          onChange={(value) => setAggregation(value as Aggregation)}
+          options={aggregations}
+          disabled={isScatter || !y}
+        />
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant='outline' size='sm' className='ml-auto rounded-lg' disabled={!points.length}>
+              <Download className='w-4 h-4 mr-2' />
+              Export
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align='end'>
+            <DropdownMenuLabel>Export As</DropdownMenuLabel>
+            <DropdownMenuItem
+              onClick={() =>
+                svgRef.current &&
+                downloadPNG(serializeChart(svgRef.current), width, height, fileName).catch((error) =>
+                  toastError('Unable to Export Chart', error),
+                )
+              }
+            >
+              PNG (.png)
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => svgRef.current && downloadSVG(serializeChart(svgRef.current), fileName)}>
+              SVG (.svg)
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+      {scatterError || !points.length ? (
+        <p className='p-4 text-sm text-muted-foreground'>{scatterError ?? 'There is nothing to plot.'}</p>
+      ) : (
+        <svg ref={svgRef} viewBox={`0 0 ${width} ${height}`} className='w-full max-w-3xl text-foreground'>
+          <g transform={`translate(${margin.left}, ${margin.top})`}>{renderChart()}</g>
+        </svg>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+'use client';
+
+import React, { ReactNode, useContext, useMemo, useState } from 'react';
+import { Columns2, Download, Rows2 } from 'lucide-react';
+import SyntaxHighlighter from 'react-syntax-highlighter';
+import { a11yDark, a11yLight } from 'react-syntax-highlighter/dist/esm/styles/hljs';
+import { getCookie } from 'cookies-next';
+import { getLanguageForFile } from '../codeRenderers';
+import { ConversationFilesContext, findConversationFile } from '../../../conversationFiles';
+import { applyDiff, DiffHunk, DiffLine, FileDiff, parseDiff } from './parseDiff';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+type DiffMode = 'inline' | 'split';
+
+const lineColours: Record<DiffLine['type'], string> = {
+  context: '',
+  add: 'bg-success/15',
+  remove: 'bg-destructive/15',
+};
+
+const lineMarkers: Record<DiffLine['type'], string> = { context: ' ', add: '+', remove: '-' };
+
+// Pairs removed lines with the lines added in their place, so that a split view shows them side by side.
+function toSplitRows(hunk: DiffHunk): [DiffLine | null, DiffLine | null][] {
+  const rows: [DiffLine | null, DiffLine | null][] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+  const flush = (): void => {
+    for (let index = 0; index < Math.max(removed.length, added.length); index++) {
+      rows.push([removed[index] ?? null, added[index] ?? null]);
+    }
+    removed = [];
+    added = [];
+  };
+  hunk.lines.forEach((line) => {
+    if (line.type === 'remove') {
+      if (added.length > 0) flush();
+      removed.push(line);
+    } else if (line.type === 'add') {
+      added.push(line);
+    } else {
+      flush();
+      rows.push([line, line]);
+    }
+  });
+  flush();
+  return rows;
+}
+
+function Code({ content, language }: { content: string; language?: string }): ReactNode {
+  if (!language) return <span>{content}</span>;
+  return (
+    <SyntaxHighlighter
+      language={language}
+      style={getCookie('theme')?.includes('dark') ? a11yDark : a11yLight}
+      PreTag='span'
+      CodeTag='span'
+      customStyle={{ background: 'transparent', padding: 0, display: 'inline' }}
+    >
+      {content}
+    </SyntaxHighlighter>
+  );
+}
+
+function LineCells({ line, number, language }: { line: DiffLine | null; number: number | null; language?: string }) {
+  return (
+    <>
+      <td className={cn('px-2 text-right select-none text-muted-foreground', line && lineColours[line.type])}>{number}</td>
+      <td className={cn('px-2 whitespace-pre-wrap break-all', line ? lineColours[line.type] : 'bg-muted')}>
+        {line && (
+          <>
+            <span className='select-none text-muted-foreground'>{lineMarkers[line.type]} </span>
+            <Code content={line.content} language={language} />
+          </>
+        )}
+      </td>
+    </>
+  );
+}
+
+function FileDiffView({ file, mode }: { file: FileDiff; mode: DiffMode }): ReactNode {
+  const { toast } = useToast();
+  const files = useContext(ConversationFilesContext);
+  const path = file.newPath ?? file.oldPath;
+  const language = path ? getLanguageForFile(path) : undefined;
+  const original = file.oldPath ? findConversationFile(files, file.oldPath) : undefined;
+  const lines = file.hunks.flatMap((hunk) => hunk.lines);
+  const additions = lines.filter((line) => line.type === 'add').length;
+  const removals = lines.filter((line) => line.type === 'remove').length;
+
+  async function downloadPatched(): Promise<void> {
+    try {
+      const response = await fetch(original as string);
+      const patched = applyDiff(await response.text(), file);
+      const element = document.createElement('a');
+      element.href = URL.createObjectURL(new Blob([patched], { type: 'text/plain;charset=utf-8' }));
+      element.download = (path as string).split('/').pop() as string;
+      document.body.appendChild(element);
+      element.click();
+      document.body.removeChild(element);
+    } catch (error) {
+      toast({ title: 'Unable to apply the diff', description: (error as Error).message, variant: 'destructive' });
+    }
+  }
+
+  return (
+    <div className='overflow-hidden border rounded-md'>
+      <div className='flex items-center gap-2 px-2 py-1 border-b bg-muted'>
+        <span className='font-semibold truncate'>
+          {file.oldPath && file.newPath && file.oldPath !== file.newPath
+            ? `${file.oldPath} → ${file.newPath}`
+            : (path ?? 'Changes')}
+        </span>
+        <span className='text-success'>+{additions}</span>
+        <span className='text-destructive'>-{removals}</span>
+        {original && file.newPath && (
+          <Button variant='ghost' size='sm' className='h-7 gap-1 ml-auto' onClick={downloadPatched}>
+            <Download className='w-4 h-4' />
+            Download Patched
+          </Button>
+        )}
+      </div>
+      <table className='w-full font-mono text-xs border-collapse'>
+        {file.hunks.map((hunk) => (
+          <tbody key={`${hunk.oldStart}-${hunk.newStart}`}>
+            <tr className='text-muted-foreground bg-info/10'>
+              <td colSpan={mode === 'split' ? 4 : 3} className='px-2'>
+                @@ -{hunk.oldStart} +{hunk.newStart} @@ {hunk.header}
+              </td>
+            </tr>
+            {mode === 'split'
+              ? toSplitRows(hunk).map(([left, right]) => (
+                  <tr key={`${left?.oldNumber}-${right?.newNumber}`}>
+                    <LineCells line={left} number={left?.oldNumber ?? null} language={language} />
+                    <LineCells line={right} number={right?.newNumber ?? null} language={language} />
+                  </tr>
+                ))
+              : hunk.lines.map((line) => (
+                  <tr key={`${line.oldNumber}-${line.newNumber}`}>
+                    <td className={cn('px-2 text-right select-none text-muted-foreground', lineColours[line.type])}>
+                      {line.oldNumber}
+                    </td>
+                    <LineCells line={line} number={line.newNumber} language={language} />
+                  </tr>
+                ))}
+          </tbody>
+        ))}
+      </table>
+    </div>
+  );
+}
+
+export type DiffViewProps = {
+  content: string;
+};
+
+/**
+ * Shows a unified diff file by file, inline or side by side.
+ * Files whose original was attached to the conversation can be downloaded with the diff applied.
+ */
+export default function DiffView({ content }: DiffViewProps): ReactNode {
+  const [mode, setMode] = useState<DiffMode>('inline');
+  const files = useMemo(() => parseDiff(content), [content]);
+
+  if (files.length === 0) {
+    return <div>Error: No changes found in the diff.</div>;
+  }
+
+  return (
+    <div className='flex flex-col gap-2 p-2'>
+      <div className='flex justify-end gap-1'>
+        <Button
+          variant={mode === 'inline' ? 'secondary' : 'ghost'}
+          size='sm'
+          className='h-7 gap-1'
+          onClick={() => setMode('inline')}
+        >
+          <Rows2 className='w-4 h-4' />
+          Inline
+        </Button>
+        <Button
+          variant={mode === 'split' ? 'secondary' : 'ghost'}
+          size='sm'
+          className='h-7 gap-1'
+          onClick={() => setMode('split')}
+        >
+          <Columns2 className='w-4 h-4' />
+          Side by Side
+        </Button>
+      </div>
+      {files.map((file) => (
+        <FileDiffView key={`${file.oldPath}-${file.newPath}`} file={file} mode={mode} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+'use client';
+
+import React, { ReactNode, useMemo, useState } from 'react';
+import { ChevronRight, Search } from 'lucide-react';
+import { parse as parseYAML } from 'yaml';
+import { DataTable } from '../../data-table';
+import { createColumns } from '../../data-table/data-table-columns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+type JSONValue = string | number | boolean | null | JSONValue[] | { [key: string]: JSONValue };
+
+// Nodes deeper than this start collapsed.
+const expandedDepth = 2;
+
+function getType(value: JSONValue): string {
+  if (value === null) return 'null';
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function isContainer(value: JSONValue): value is JSONValue[] | { [key: string]: JSONValue } {
+  return typeof value === 'object' && value !== null;
+}
+
+function getChildPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}['${key.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}']`;
+}
+
+function getEntries(value: JSONValue): [string | number, JSONValue][] {
+  if (Array.isArray(value)) return value.map((child, index) => [index, child]);
+  return isContainer(value) ? Object.entries(value) : [];
+}
+
+// An array of objects holding only scalars reads better as a table.
+function isTabular(value: JSONValue): value is { [key: string]: JSONValue }[] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((row) => isContainer(row) && !Array.isArray(row) && Object.values(row).every((cell) => !isContainer(cell)))
+  );
+}
+
+function toTable(rows: { [key: string]: JSONValue }[]) {
+  const keys = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  // Keys are replaced by generated fields, as the table would read dots in them as nested paths.
+  return {
+    columns: keys.map((key, index) => ({ field: `col${index}`, headerName: key })),
+    rows: rows.map((row, rowIndex) => ({
+      id: rowIndex + 1,
+      ...Object.fromEntries(
+        keys.map((key, index) => [`col${index}`, typeof row[key] === 'number' ? row[key] : String(row[key] ?? '')]),
+      ),
+    })),
+  };
+}
+
+// The paths of nodes matching the search, along with their ancestors so that the matches can be reached.
+function findMatches(value: JSONValue, path: string, key: string, search: string, matches: Set<string>): boolean {
+  let matched = key.toLowerCase().includes(search) || (!isContainer(value) && String(value).toLowerCase().includes(search));
+  getEntries(value).forEach(([childKey, child]) => {
+    if (findMatches(child, getChildPath(path, childKey), String(childKey), search, matches)) {
+      matched = true;
+    }
+  });
+  if (matched) matches.add(path);
+  return matched;
+}
+
+type TreeNodeProps = {
+  name: string | number | null;
+  value: JSONValue;
+  path: string;
+  depth: number;
+  search: string;
+  matches: Set<string> | null;
+  onCopyPath: (path: string) => void;
+};
+
+function TreeNode({ name, value, path, depth, search, matches, onCopyPath }: TreeNodeProps): ReactNode {
+  const [expanded, setExpanded] = useState(depth < expandedDepth);
+  if (matches && !matches.has(path)) return null;
+  const entries = getEntries(value);
+  const open = expanded || (matches !== null && entries.length > 0);
+  const type = getType(value);
+  const highlight = (text: string) => search && text.toLowerCase().includes(search);
+
+  return (
+    <div style={{ paddingLeft: depth > 0 ? '1rem' : 0 }}>
+      <div className='flex items-center gap-1 py-0.5'>
+        {isContainer(value) ? (
+          <button onClick={() => setExpanded(!open)} className='p-0.5 rounded hover:bg-muted' aria-expanded={open}>
+            <ChevronRight className={cn('w-3 h-3 transition-transform', open && 'rotate-90')} />
+          </button>
+        ) : (
+          <span className='w-4' />
+        )}
+        {name !== null && (
+          <button
+            onClick={() => onCopyPath(path)}
+            title={`Copy ${path}`}
+            className={cn('font-semibold hover:underline', highlight(String(name)) && 'bg-warning/40')}
+          >
+            {name}:
+          </button>
+        )}
+        {isContainer(value) ? (
+          <span className='text-muted-foreground'>
+            {Array.isArray(value) ? `[${entries.length}]` : `{${entries.length}}`}
+          </span>
+        ) : (
+          <span
+            className={cn('break-all', type === 'string' && 'text-success', highlight(String(value)) && 'bg-warning/40')}
+          >
+            {type === 'string' ? `"${value}"` : String(value)}
+          </span>
+        )}
+        <Badge variant='outline' className='px-1 py-0 ml-1 font-normal'>
+          {type}
+        </Badge>
+      </div>
+      {open &&
+        entries.map(([key, child]) => (
+          <TreeNode
+            key={key}
+            name={key}
+            value={child}
+            path={getChildPath(path, key)}
+            depth={depth + 1}
+            search={search}
+            matches={matches}
+            onCopyPath={onCopyPath}
+          />
+        ))}
+    </div>
+  );
+}
+
+export type JSONTreeProps = {
+  content: string;
+  format: 'json' | 'yaml';
+  /** The name, without extension, a table of the document is exported as. */
+  fileName?: string;
+};
+
+/**
+ * Shows a JSON or YAML document as a collapsible tree that can be searched, or as a table if it is a list of records.
+ * Clicking a key copies its JSONPath.
+ */
+export default function JSONTree({ content, format, fileName }: JSONTreeProps): ReactNode {
+  const { toast } = useToast();
+  const [search, setSearch] = useState('');
+  const parsed = useMemo<{ value: JSONValue } | { error: string }>(() => {
+    try {
+      return { value: (format === 'yaml' ? parseYAML(content) : JSON.parse(content)) as JSONValue };
+    } catch (error) {
+      return { error: (error as Error).message };
+    }
+  }, [content, format]);
+  const tabular = 'value' in parsed && isTabular(parsed.value);
+  const [showTable, setShowTable] = useState(tabular);
+  const table = useMemo(() => (tabular ? toTable(parsed.value as { [key: string]: JSONValue }[]) : null), [parsed, tabular]);
+  const query = search.trim().toLowerCase();
+  const matches = useMemo(() => {
+    if (!query || !('value' in parsed)) return null;
+    const found = new Set<string>();
+    findMatches(parsed.value, '$', '', query, found);
+    return found;
+  }, [parsed, query]);
+
+  if ('error' in parsed) {
+    return <div>Error: {parsed.error}</div>;
+  }
+
+  async function copyPath(path: string): Promise<void> {
+    await navigator.clipboard.writeText(path);
+    toast({ title: 'Copied', description: path });
+  }
+
+  return (
+    <div className='flex flex-col gap-2 p-2 font-mono text-sm'>
+      <div className='flex items-center gap-2'>
+        {!(showTable && table) && (
+          <div className='relative flex-1'>
+            <Search className='absolute w-4 h-4 -translate-y-1/2 left-2 top-1/2 text-muted-foreground' />
+            <Input
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+              placeholder='Search keys and values...'
+              className='h-8 pl-8'
+            />
+          </div>
+        )}
+        {table && (
+          <Button variant='outline' size='sm' className='h-8 ml-auto' onClick={() => setShowTable(!showTable)}>
+            {showTable ? 'Show Tree' : 'Show Table'}
+          </Button>
+        )}
+      </div>
+      {showTable && table ? (
+        <DataTable columns={createColumns(table.columns)} data={table.rows} exportName={fileName} />
+      ) : matches?.size === 0 ? (
+        <p className='text-muted-foreground'>Nothing matches &quot;{search}&quot;.</p>
+      ) : (
+        <TreeNode
+          name={null}
+          value={parsed.value}
+          path='$'
+          depth={0}
+          search={query}
+          matches={matches}
+          onCopyPath={copyPath}
+        />
+      )}
+    </div>
+  );
+}
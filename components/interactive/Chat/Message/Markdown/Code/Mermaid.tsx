@@ -1,75 +1,282 @@
-import React from 'react';
-import mermaid from 'mermaid';
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import mermaid, { MermaidConfig } from 'mermaid';
+import { getCookie } from 'cookies-next';
+import { Download, RotateCcw, ZoomIn, ZoomOut } from 'lucide-react';
+import { downloadPNG, downloadSVG } from './exportImage';
 import log from '@/components/jrg/next-log/log';
+import { defaultThemes } from '@/components/jrg/theme/useTheme';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
 // https://codesandbox.io/p/sandbox/react-with-mermaid-ex9f7?file=%2Fsrc%2FMermaid.js%3A1%2C1-64%2C1
 
+// Class diagram colors for the dark theme.
+const darkThemeCSS = `
+  g.classGroup rect {
+    fill: #282a36;
+    stroke: #6272a4;
+  }
+  g.classGroup text {
+    fill: #f8f8f2;
+  }
+  g.classGroup line {
+    stroke: #f8f8f2;
+    stroke-width: 0.5;
+  }
+  .classLabel .box {
+    stroke: #21222c;
+    stroke-width: 3;
+    fill: #21222c;
+    opacity: 1;
+  }
+  .classLabel .label {
+    fill: #f1fa8c;
+  }
+  .relation {
+    stroke: #ff79c6;
+    stroke-width: 1;
+  }
+  #compositionStart, #compositionEnd {
+    fill: #bd93f9;
+    stroke: #bd93f9;
+    stroke-width: 1;
+  }
+  #aggregationEnd, #aggregationStart {
+    fill: #21222c;
+    stroke: #50fa7b;
+    stroke-width: 1;
+  }
+  #dependencyStart, #dependencyEnd {
+    fill: #00bcd4;
+    stroke: #00bcd4;
+    stroke-width: 1;
+  }
+  #extensionStart, #extensionEnd {
+    fill: #f8f8f2;
+    stroke: #f8f8f2;
+    stroke-width: 1;
+  }`;
+
+// The Okabe-Ito palette, which stays distinguishable with every common form of color blindness.
+const colorblindPalette = ['#56B4E9', '#E69F00', '#009E73', '#F0E442', '#0072B2', '#D55E00', '#CC79A7', '#999999'];
+
+function getThemeConfig(theme: string): MermaidConfig {
+  const dark = theme.includes('dark');
+  if (!theme.includes('colorblind')) {
+    return dark ? { theme: 'dark', themeCSS: darkThemeCSS } : { theme: 'default' };
+  }
+  const foreground = dark ? '#FFFFFF' : '#000000';
+  return {
+    theme: 'base',
+    darkMode: dark,
+    themeVariables: {
+      background: dark ? '#000000' : '#FFFFFF',
+      primaryColor: colorblindPalette[0],
+      secondaryColor: colorblindPalette[1],
+      tertiaryColor: colorblindPalette[2],
+      primaryTextColor: '#000000',
+      textColor: foreground,
+      lineColor: foreground,
+      ...Object.fromEntries(colorblindPalette.map((color, index) => [`pie${index + 1}`, color])),
+    },
+  };
+}
+
+// The theme useTheme sets as a class of the body, or the one saved in its cookie until it does.
+function useDocumentTheme(): string {
+  const [theme, setTheme] = useState(() => getCookie('theme')?.toString() ?? 'default');
+  useEffect(() => {
+    const readTheme = (): void => {
+      const current = defaultThemes.find((name) => document.body.classList.contains(name));
+      if (current) setTheme(current);
+    };
+    readTheme();
+    const observer = new MutationObserver(readTheme);
+    observer.observe(document.body, { attributes: true, attributeFilter: ['class'] });
+    return () => observer.disconnect();
+  }, []);
+  return theme;
+}
+
+type RenderResult = { svg: string } | { error: string; line?: number };
+
+// The 1-based line a syntax error is on, from the location the parsers attach to their errors or their message.
+function getErrorLine(error: unknown): number | undefined {
+  const { hash, message } = error as { hash?: { loc?: { first_line?: number }; line?: number }; message?: string };
+  if (hash?.loc?.first_line) return hash.loc.first_line;
+  if (typeof hash?.line === 'number') return hash.line + 1;
+  const match = String(message ?? error).match(/line (\d+)/i);
+  return match ? Number(match[1]) : undefined;
+}
+
+const minScale = 0.2;
+const maxScale = 8;
+
+function clampScale(scale: number): number {
+  return Math.min(maxScale, Math.max(minScale, scale));
+}
+
 interface MermaidProps {
   chart: string;
 }
 
+/**
+ * Renders a Mermaid diagram in the current theme, which can be panned by dragging and zoomed with the buttons or by
+ * scrolling with Ctrl held, and exported as SVG or PNG. Syntax errors are shown with the line they are on.
+ */
 const Mermaid: React.FC<MermaidProps> = ({ chart }) => {
-  const id = React.useId();
+  const id = `mermaid-${React.useId().replace(/:/g, '')}`;
+  const theme = useDocumentTheme();
+  const { toast } = useToast();
+  const [result, setResult] = useState<RenderResult | null>(null);
+  const [view, setView] = useState({ scale: 1, x: 0, y: 0 });
+  const drag = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
   log(['Rendering Mermaid Chart', chart], { client: 2 });
-  React.useEffect(() => {
+
+  useEffect(() => {
+    let cancelled = false;
     mermaid.initialize({
-      startOnLoad: true,
-      theme: 'dark',
-      securityLevel: 'loose',
-      themeCSS: `
-        g.classGroup rect {
-          fill: #282a36;
-          stroke: #6272a4;
-        } 
-        g.classGroup text {
-          fill: #f8f8f2;
-        }
-        g.classGroup line {
-          stroke: #f8f8f2;
-          stroke-width: 0.5;
-        }
-        .classLabel .box {
-          stroke: #21222c;
-          stroke-width: 3;
-          fill: #21222c;
-          opacity: 1;
-        }
-        .classLabel .label {
-          fill: #f1fa8c;
-        }
-        .relation {
-          stroke: #ff79c6;
-          stroke-width: 1;
-        }
-        #compositionStart, #compositionEnd {
-          fill: #bd93f9;
-          stroke: #bd93f9;
-          stroke-width: 1;
-        }
-        #aggregationEnd, #aggregationStart {
-          fill: #21222c;
-          stroke: #50fa7b;
-          stroke-width: 1;
-        }
-        #dependencyStart, #dependencyEnd {
-          fill: #00bcd4;
-          stroke: #00bcd4;
-          stroke-width: 1;
-        } 
-        #extensionStart, #extensionEnd {
-          fill: #f8f8f2;
-          stroke: #f8f8f2;
-          stroke-width: 1;
-        }`,
+      startOnLoad: false,
+      // Diagrams come from the agent, so labels are sanitized and cannot run scripts.
+      securityLevel: 'strict',
       fontFamily: 'Fira Code',
+      // Labels drawn as SVG text rather than HTML let the diagram be drawn onto a canvas for PNG export.
+      htmlLabels: false,
+      flowchart: { htmlLabels: false },
+      ...getThemeConfig(theme),
     });
+    mermaid
+      .parse(chart)
+      .then(() => mermaid.render(id, chart))
+      .then(({ svg }) => !cancelled && setResult({ svg }))
+      .catch((error) => {
+        // Mermaid leaves the element it renders into in the document when rendering fails.
+        document.getElementById(`d${id}`)?.remove();
+        if (!cancelled) setResult({ error: (error as Error).message ?? String(error), line: getErrorLine(error) });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [chart, theme, id]);
 
-    mermaid.contentLoaded();
-  }, []);
+  // React's wheel listeners are passive, so zooming, which keeps the page from scrolling, needs a listener of its own.
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const zoom = (event: WheelEvent): void => {
+      if (!event.ctrlKey && !event.metaKey) return;
+      event.preventDefault();
+      setView((current) => ({ ...current, scale: clampScale(current.scale * Math.exp(-event.deltaY * 0.01)) }));
+    };
+    viewport.addEventListener('wheel', zoom, { passive: false });
+    return () => viewport.removeEventListener('wheel', zoom);
+  }, [result]);
+
+  if (result && 'error' in result) {
+    return (
+      <div className='p-2 my-2 border rounded-md border-destructive'>
+        <p className='mb-2 text-sm whitespace-pre-wrap text-destructive'>Mermaid syntax error: {result.error}</p>
+        <pre className='overflow-x-auto text-xs'>
+          {chart.split('\n').map((line, index) => (
+            <div
+              // Lines are identified by their number.
+              // eslint-disable-next-line react/no-array-index-key
+              key={index}
+              className={cn('px-2', index + 1 === result.line && 'bg-destructive/20')}
+            >
+              <span className='inline-block w-8 select-none text-muted-foreground'>{index + 1}</span>
+              {line}
+            </div>
+          ))}
+        </pre>
+      </div>
+    );
+  }
+
+  if (!result) {
+    return <pre className='text-muted-foreground'>{chart}</pre>;
+  }
+
+  const exportPNG = (): void => {
+    const { width, height } = viewportRef.current?.querySelector('svg')?.viewBox.baseVal ?? { width: 0, height: 0 };
+    downloadPNG(result.svg, width || 800, height || 600, 'diagram').catch((error: Error) =>
+      toast({ title: 'Export failed', description: error.message, variant: 'destructive' }),
+    );
+  };
 
   return (
-    <pre className='mermaid' id={id}>
-      {chart}
-    </pre>
+    <div className='relative my-2'>
+      <div className='absolute top-0 right-0 z-10 flex gap-1'>
+        <Button
+          variant='ghost'
+          size='icon'
+          title='Zoom out'
+          onClick={() => setView((current) => ({ ...current, scale: clampScale(current.scale / 1.25) }))}
+        >
+          <ZoomOut className='w-4 h-4' />
+        </Button>
+        <Button
+          variant='ghost'
+          size='icon'
+          title='Zoom in'
+          onClick={() => setView((current) => ({ ...current, scale: clampScale(current.scale * 1.25) }))}
+        >
+          <ZoomIn className='w-4 h-4' />
+        </Button>
+        <Button variant='ghost' size='icon' title='Reset view' onClick={() => setView({ scale: 1, x: 0, y: 0 })}>
+          <RotateCcw className='w-4 h-4' />
+        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant='ghost' size='icon' title='Export'>
+              <Download className='w-4 h-4' />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align='end'>
+            <DropdownMenuLabel>Export As</DropdownMenuLabel>
+            <DropdownMenuItem onClick={exportPNG}>PNG (.png)</DropdownMenuItem>
+            <DropdownMenuItem onClick={() => downloadSVG(result.svg, 'diagram')}>SVG (.svg)</DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+      <div
+        ref={viewportRef}
+        className='overflow-hidden cursor-grab active:cursor-grabbing touch-none'
+        onPointerDown={(event) => {
+          event.currentTarget.setPointerCapture(event.pointerId);
+          drag.current = { pointerX: event.clientX, pointerY: event.clientY, x: view.x, y: view.y };
+        }}
+        onPointerMove={(event) => {
+          const start = drag.current;
+          if (start) {
+            setView((current) => ({
+              ...current,
+              x: start.x + event.clientX - start.pointerX,
+              y: start.y + event.clientY - start.pointerY,
+            }));
+          }
+        }}
+        onPointerUp={() => {
+          drag.current = null;
+        }}
+      >
+        <div
+          className='flex justify-center'
+          style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})` }}
+          dangerouslySetInnerHTML={{ __html: result.svg }}
+        />
+      </div>
+    </div>
   );
 };
 
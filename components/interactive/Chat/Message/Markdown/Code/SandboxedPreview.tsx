@@ -0,0 +1,165 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+
+export type PreviewLanguage = 'html' | 'javascript' | 'jsx';
+
+type ConsoleEntry = { level: 'log' | 'info' | 'warn' | 'error' | 'debug'; text: string };
+
+// The tallest a preview grows to before it scrolls.
+const maxPreviewHeight = 800;
+
+// JSX previews load React and Babel, pinned, from this origin. Nothing else may be loaded or fetched by a preview.
+const scriptOrigin = 'https://unpkg.com';
+const jsxScripts = [
+  `${scriptOrigin}/react@18.3.1/umd/react.production.min.js`,
+  `${scriptOrigin}/react-dom@18.3.1/umd/react-dom.production.min.js`,
+  `${scriptOrigin}/@babel/standalone@7.26.4/babel.min.js`,
+];
+
+function getContentSecurityPolicy(language: PreviewLanguage): string {
+  return [
+    "default-src 'none'",
+    `script-src 'unsafe-inline'${language === 'jsx' ? ' ' + scriptOrigin : ''}`,
+    "style-src 'unsafe-inline'",
+    'img-src https: data: blob:',
+    'media-src data: blob:',
+    'font-src data:',
+  ].join('; ');
+}
+
+// Reports the height of the document and everything written to the console to the page hosting the preview.
+const bootstrapScript = `
+(() => {
+  const post = (message) => parent.postMessage({ source: 'agixt-preview', ...message }, '*');
+  const format = (value) => {
+    if (typeof value === 'string') return value;
+    if (value instanceof Error) return value.stack || value.message;
+    try {
+      return JSON.stringify(value);
+    } catch {
+      return String(value);
+    }
+  };
+  ['log', 'info', 'warn', 'error', 'debug'].forEach((level) => {
+    const original = console[level];
+    console[level] = (...args) => {
+      post({ type: 'console', level, text: args.map(format).join(' ') });
+      original.apply(console, args);
+    };
+  });
+  addEventListener('error', (event) => console.error(event.message + (event.lineno ? ' (line ' + event.lineno + ')' : '')));
+  addEventListener('unhandledrejection', (event) => console.error('Unhandled rejection:', event.reason));
+  addEventListener('securitypolicyviolation', (event) =>
+    console.warn('Blocked by the preview\\'s content security policy:', event.blockedURI || event.violatedDirective),
+  );
+  const resize = () => post({ type: 'resize', height: document.documentElement.scrollHeight });
+  addEventListener('load', () => {
+    resize();
+    new ResizeObserver(resize).observe(document.documentElement);
+  });
+})();
+`;
+
+// Imports cannot be resolved in the preview, so React's are read from the global React and the rest are dropped.
+// The default export, or a component named App, is rendered into #root.
+const jsxRunner = `
+(() => {
+  const code = source
+    .replace(/^\\s*import\\s+(?:\\w+\\s*,\\s*)?\\{([^}]*)\\}\\s+from\\s+['"]react['"];?/gm, 'const {$1} = React;')
+    .replace(/^\\s*import\\s[^;\\n]*;?$/gm, '')
+    .replace(/export\\s+default\\s+/, 'window.__default = ')
+    .replace(/^\\s*export\\s+/gm, '');
+  const script = document.createElement('script');
+  script.textContent = Babel.transform(code, { presets: ['react'] }).code;
+  document.body.appendChild(script);
+  const Component = window.__default || (typeof App === 'undefined' ? undefined : App);
+  if (typeof Component === 'function') {
+    ReactDOM.createRoot(document.getElementById('root')).render(React.createElement(Component));
+  }
+})();
+`;
+
+const scriptRunner = `
+(() => {
+  const script = document.createElement('script');
+  script.textContent = source;
+  document.body.appendChild(script);
+})();
+`;
+
+// Keeps content from closing the script element it is embedded in.
+function toScriptLiteral(content: string): string {
+  return JSON.stringify(content).replace(/</g, '\\u003c');
+}
+
+function buildDocument(content: string, language: PreviewLanguage): string {
+  const head = `<meta http-equiv="Content-Security-Policy" content="${getContentSecurityPolicy(language)}"><script>${bootstrapScript}</script>`;
+  if (language === 'html') {
+    return `<!DOCTYPE html><html><head>${head}</head><body>${content}</body></html>`;
+  }
+  const scripts = language === 'jsx' ? jsxScripts.map((src) => `<script src="${src}"></script>`).join('') : '';
+  return `<!DOCTYPE html><html><head>${head}${scripts}</head><body><div id="root"></div><script>const source = ${toScriptLiteral(content)};${language === 'jsx' ? jsxRunner : scriptRunner}</script></body></html>`;
+}
+
+const consoleColours: Record<ConsoleEntry['level'], string> = {
+  log: 'text-foreground',
+  info: 'text-info',
+  debug: 'text-muted-foreground',
+  warn: 'text-warning',
+  error: 'text-destructive',
+};
+
+export type SandboxedPreviewProps = {
+  content: string;
+  language: PreviewLanguage;
+};
+
+/**
+ * Runs agent-generated HTML or JavaScript in a sandboxed frame, which can neither reach this page nor load anything
+ * but the scripts JSX needs, and shows what it writes to the console underneath.
+ */
+export default function SandboxedPreview({ content, language }: SandboxedPreviewProps): React.JSX.Element {
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const [height, setHeight] = useState(0);
+  const [entries, setEntries] = useState<ConsoleEntry[]>([]);
+  const srcDoc = useMemo(() => buildDocument(content, language), [content, language]);
+
+  useEffect(() => {
+    setEntries([]);
+    function handleMessage(event: MessageEvent): void {
+      // The frame's origin is opaque, so messages are matched to it by their source window.
+      if (event.source !== frameRef.current?.contentWindow || event.data?.source !== 'agixt-preview') return;
+      if (event.data.type === 'resize') {
+        setHeight(Math.min(Number(event.data.height) || 0, maxPreviewHeight));
+      } else if (event.data.type === 'console') {
+        setEntries((previous) => [...previous, { level: event.data.level, text: String(event.data.text) }]);
+      }
+    }
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [srcDoc]);
+
+  return (
+    <div className='flex flex-col'>
+      <iframe
+        ref={frameRef}
+        title={`${language} preview`}
+        sandbox='allow-scripts'
+        srcDoc={srcDoc}
+        className='w-full bg-white border-0'
+        style={{ height: height || 150 }}
+      />
+      {entries.length > 0 && (
+        <div className='p-2 font-mono text-xs border-t border-border max-h-48 overflow-auto'>
+          {entries.map((entry, index) => (
+            <div key={index} className={cn('whitespace-pre-wrap', consoleColours[entry.level] ?? consoleColours.log)}>
+              {entry.text}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import React, { useState, useEffect, ReactNode, useContext } from 'react';
 import { LuLightbulb as LightBulbIcon } from 'react-icons/lu';
 import { InteractiveConfigContext } from '../../../../InteractiveConfigContext';
+import { toastError } from '@/lib/errors';
 
 interface Column {
   field: string;
@@ -100,13 +101,15 @@ export const RendererXSV = ({
       ),
     );
 
-    await context.agixt.runChain('Data Analysis', userMessage, context.agent, false, 1, {
-      conversation_name: context.overrides.conversation,
-      text: [
-        ['id', ...stringifiedColumns].join(separator.toString() === '/\\t/' ? '\t' : separator.toString()),
-        ...stringifiedRows,
-      ].join('\n'),
-    });
+    await context.agixt
+      .runChain('Data Analysis', userMessage, context.agent, false, 1, {
+        conversation_name: context.overrides.conversation,
+        text: [
+          ['id', ...stringifiedColumns].join(separator.toString() === '/\\t/' ? '\t' : separator.toString()),
+          ...stringifiedRows,
+        ].join('\n'),
+      })
+      .catch((error) => toastError('Unable to Get Insights', error));
     setLoading(false);
   };
 
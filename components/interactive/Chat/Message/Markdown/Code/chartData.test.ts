@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { ChartColumn, getChartPoints, inferColumns } from './chartData';
+
+const rows = [
+  { region: 'North', month: '2024-03-01', sales: '$1,200', units: '3' },
+  { region: 'South', month: '2024-01-01', sales: '800', units: '2' },
+  { region: 'North', month: '2024-02-01', sales: '400', units: '' },
+];
+
+const region: ChartColumn = { field: 'region', headerName: 'Region', type: 'category' };
+const month: ChartColumn = { field: 'month', headerName: 'Month', type: 'date' };
+const sales: ChartColumn = { field: 'sales', headerName: 'Sales', type: 'number' };
+const units: ChartColumn = { field: 'units', headerName: 'Units', type: 'number' };
+
+describe('inferColumns', () => {
+  it('infers numbers, dates and categories from the values, ignoring empty cells', () => {
+    const columns = [region, month, sales, units].map(({ field, headerName }) => ({ field, headerName }));
+    expect(inferColumns({ columns, rows }).map((column) => column.type)).toEqual(['category', 'date', 'number', 'number']);
+  });
+
+  it('does not take labels such as quarters for dates', () => {
+    const columns = [{ field: 'quarter', headerName: 'Quarter' }];
+    expect(inferColumns({ columns, rows: [{ quarter: 'Q1' }, { quarter: 'Q2' }] })[0].type).toBe('category');
+  });
+
+  it('takes a column without values for categories', () => {
+    expect(inferColumns({ columns: [{ field: 'empty', headerName: 'Empty' }], rows: [{ empty: ' ' }] })[0].type).toBe(
+      'category',
+    );
+  });
+});
+
+describe('getChartPoints', () => {
+  it('aggregates the values of each category, in the order the categories first appear', () => {
+    expect(getChartPoints(rows, 'bar', region, sales, 'sum')).toEqual([
+      { label: 'North', x: 0, y: 1600 },
+      { label: 'South', x: 1, y: 800 },
+    ]);
+    expect(getChartPoints(rows, 'bar', region, sales, 'average')[0].y).toBe(800);
+  });
+
+  it('skips values that are not numbers and counts rows when there is no y column', () => {
+    expect(getChartPoints(rows, 'pie', region, units, 'count').map((point) => point.y)).toEqual([1, 1]);
+    expect(getChartPoints(rows, 'pie', region, null, 'sum').map((point) => point.y)).toEqual([2, 1]);
+  });
+
+  it('puts dates on the x axis in order', () => {
+    expect(getChartPoints(rows, 'line', month, sales, 'max').map((point) => [point.label, point.y])).toEqual([
+      ['2024-01-01', 800],
+      ['2024-02-01', 400],
+      ['2024-03-01', 1200],
+    ]);
+  });
+
+  it('plots a point per row with numbers on both axes for scatter plots', () => {
+    expect(getChartPoints(rows, 'scatter', units, sales, 'sum')).toEqual([
+      { label: '3', x: 3, y: 1200 },
+      { label: '2', x: 2, y: 800 },
+    ]);
+    expect(getChartPoints(rows, 'scatter', units, null, 'sum')).toEqual([]);
+  });
+});
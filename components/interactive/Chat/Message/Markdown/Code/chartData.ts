@@ -0,0 +1,94 @@
+import { parseNumber } from '../../data-table/data-table-columns';
+
+export type ChartType = 'bar' | 'line' | 'scatter' | 'pie';
+export type Aggregation = 'sum' | 'average' | 'min' | 'max' | 'count';
+export type ColumnType = 'number' | 'date' | 'category';
+
+/** Rows and columns, as parseXSVData returns them and the data table takes them. */
+export type TableData = {
+  columns: { field: string; headerName: string }[];
+  rows: Record<string, unknown>[];
+};
+
+export type ChartColumn = { field: string; headerName: string; type: ColumnType };
+
+/** A bar, point or slice. Categories are placed by their index, numbers and dates by their value. */
+export type ChartPoint = { label: string; x: number; y: number };
+
+function getText(value: unknown): string {
+  return value === null || value === undefined ? '' : String(value).trim();
+}
+
+function getColumnType(values: string[]): ColumnType {
+  if (values.length === 0) return 'category';
+  if (values.every((value) => !Number.isNaN(parseNumber(value)))) return 'number';
+  // Date.parse accepts strings such as "Q1", so dates must contain a digit.
+  return values.every((value) => /\d/.test(value) && !Number.isNaN(Date.parse(value))) ? 'date' : 'category';
+}
+
+/**
+ * Infers whether each column holds numbers, dates or categories from the values in it, ignoring empty cells.
+ */
+export function inferColumns({ columns, rows }: TableData): ChartColumn[] {
+  return columns.map((column) => ({
+    ...column,
+    type: getColumnType(rows.map((row) => getText(row[column.field])).filter(Boolean)),
+  }));
+}
+
+/**
+ * Reads a value of a number or date column as a number, dates as milliseconds since the epoch.
+ */
+export function getNumericValue(value: unknown, type: ColumnType): number {
+  return type === 'date' ? Date.parse(getText(value)) : parseNumber(getText(value));
+}
+
+const aggregators: Record<Aggregation, (values: number[]) => number> = {
+  sum: (values) => values.reduce((total, value) => total + value, 0),
+  average: (values) => (values.length ? aggregators.sum(values) / values.length : 0),
+  min: (values) => (values.length ? Math.min(...values) : 0),
+  max: (values) => (values.length ? Math.max(...values) : 0),
+  count: (values) => values.length,
+};
+
+/**
+ * Computes the points of a chart. Scatter plots have a point per row with numeric values on both axes, the other charts
+ * a point per distinct value of the x column, aggregating the y values of its rows, or counting them if y is null.
+ * Numbers and dates on the x axis are put in order, categories are kept in the order they first appear in.
+ */
+export function getChartPoints(
+  rows: Record<string, unknown>[],
+  chartType: ChartType,
+  x: ChartColumn,
+  y: ChartColumn | null,
+  aggregation: Aggregation,
+): ChartPoint[] {
+  if (chartType === 'scatter') {
+    return y
+      ? rows
+          .map((row) => ({
+            label: getText(row[x.field]),
+            x: getNumericValue(row[x.field], x.type),
+            y: getNumericValue(row[y.field], y.type),
+          }))
+          .filter((point) => Number.isFinite(point.x) && Number.isFinite(point.y))
+      : [];
+  }
+  const groups = new Map<string, number[]>();
+  rows.forEach((row) => {
+    const label = getText(row[x.field]);
+    const values = groups.get(label) ?? [];
+    const value = y ? getNumericValue(row[y.field], y.type) : 1;
+    if (Number.isFinite(value)) values.push(value);
+    groups.set(label, values);
+  });
+  const labels = [...groups.keys()];
+  if (x.type !== 'category') {
+    labels.sort((a, b) => getNumericValue(a, x.type) - getNumericValue(b, x.type));
+  }
+  return labels.map((label, index) => ({
+    label,
+    x: index,
+    y: aggregators[y ? aggregation : 'count'](groups.get(label) ?? []),
+  }));
+}
@@ -0,0 +1,49 @@
+// Saves the diagrams and charts rendered in messages as images.
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export function downloadSVG(svg: string, fileName: string): void {
+  downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `${fileName}.svg`);
+}
+
+/**
+ * Draws an SVG document at twice its size on the page's background and downloads it as a PNG.
+ * Rejects if the browser cannot draw it, as with SVGs embedding HTML in foreignObject elements.
+ */
+export function downloadPNG(svg: string, width: number, height: number, fileName: string): Promise<void> {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  return new Promise<Blob>((resolve, reject) => {
+    const image = new Image();
+    image.onload = (): void => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * 2;
+      canvas.height = height * 2;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('The browser cannot draw images.'));
+        return;
+      }
+      context.fillStyle = getComputedStyle(document.body).backgroundColor;
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      try {
+        canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('The image could not be encoded.'))));
+      } catch (error) {
+        reject(error);
+      }
+    };
+    image.onerror = (): void => reject(new Error('The image could not be loaded.'));
+    image.src = url;
+  })
+    .then((blob) => downloadBlob(blob, `${fileName}.png`))
+    .finally(() => URL.revokeObjectURL(url));
+}
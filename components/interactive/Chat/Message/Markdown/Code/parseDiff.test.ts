@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { applyDiff, parseDiff } from './parseDiff';
+
+const gitDiff = `diff --git a/src/greet.ts b/src/greet.ts
+index 1b2c3d4..5e6f7a8 100644
+--- a/src/greet.ts
++++ b/src/greet.ts
+@@ -1,3 +1,3 @@ export function greet()
+ export function greet(name: string) {
+-  return 'Hello ' + name;
++  return \`Hello \${name}\`;
+ }
+\\ No newline at end of file
+diff --git a/notes.md b/notes.md
+new file mode 100644
+--- /dev/null
++++ b/notes.md
+@@ -0,0 +1,2 @@
++# Notes
++
+`;
+
+describe('parseDiff', () => {
+  it('parses the hunks of each file of a git diff, numbering the lines on each side', () => {
+    const [greet, notes] = parseDiff(gitDiff);
+    expect(greet).toEqual({
+      oldPath: 'src/greet.ts',
+      newPath: 'src/greet.ts',
+      hunks: [
+        {
+          header: 'export function greet()',
+          oldStart: 1,
+          newStart: 1,
+          lines: [
+            { type: 'context', content: 'export function greet(name: string) {', oldNumber: 1, newNumber: 1 },
+            { type: 'remove', content: "  return 'Hello ' + name;", oldNumber: 2, newNumber: null },
+            { type: 'add', content: '  return `Hello ${name}`;', oldNumber: null, newNumber: 2 },
+            { type: 'context', content: '}', oldNumber: 3, newNumber: 3 },
+          ],
+        },
+      ],
+    });
+    expect(notes.oldPath).toBeNull();
+    expect(notes.newPath).toBe('notes.md');
+    expect(notes.hunks[0].lines.map((line) => line.newNumber)).toEqual([1, 2]);
+  });
+
+  it('splits a diff without git headers at the paths of each file', () => {
+    const files = parseDiff(
+      ['--- a.txt', '+++ a.txt', '@@ -1 +1 @@', '-a', '+A', '--- b.txt', '+++ b.txt', '@@ -1 +1 @@', '-b', '+B'].join('\n'),
+    );
+    expect(files.map((file) => [file.oldPath, file.hunks[0].lines.length])).toEqual([
+      ['a.txt', 2],
+      ['b.txt', 2],
+    ]);
+  });
+
+  it('reads a removed line that looks like a path as a removed line', () => {
+    const [file] = parseDiff(['@@ -1,2 +1 @@', '--- not a path', ' kept'].join('\n'));
+    expect(file.oldPath).toBeNull();
+    expect(file.hunks[0].lines.map((line) => [line.type, line.content])).toEqual([
+      ['remove', '-- not a path'],
+      ['context', 'kept'],
+    ]);
+  });
+
+  it('reads hunks alone as one unnamed file and ignores text that is not a diff', () => {
+    expect(parseDiff('@@ -2 +2 @@\n-b\n+B')).toEqual([
+      expect.objectContaining({ oldPath: null, newPath: null, hunks: [expect.objectContaining({ oldStart: 2 })] }),
+    ]);
+    expect(parseDiff('Nothing changed.')).toEqual([]);
+  });
+});
+
+describe('applyDiff', () => {
+  it('applies each hunk, allowing for the lines added and removed before it', () => {
+    const original = ['a', 'b', 'c', 'd', 'e', 'f'].join('\n');
+    const [file] = parseDiff(['@@ -1,2 +1,3 @@', ' a', '+a2', ' b', '@@ -5,2 +6 @@', '-e', ' f'].join('\n'));
+    expect(applyDiff(original, file)).toBe(['a', 'a2', 'b', 'c', 'd', 'f'].join('\n'));
+  });
+
+  it('adds the lines of a new file to empty content', () => {
+    const [, notes] = parseDiff(gitDiff);
+    expect(applyDiff('', notes)).toBe('# Notes\n\n');
+  });
+
+  it('matches lines that end in carriage returns', () => {
+    const [file] = parseDiff('@@ -1 +1 @@\n-a\n+b');
+    expect(applyDiff('a\r\nc', file)).toBe('b\nc');
+  });
+
+  it('throws if the original does not match the diff', () => {
+    const [greet] = parseDiff(gitDiff);
+    expect(() => applyDiff('export function greet() {}', greet)).toThrow(
+      'The original of src/greet.ts does not match the diff at line 1.',
+    );
+  });
+});
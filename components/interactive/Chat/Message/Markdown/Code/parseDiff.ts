@@ -0,0 +1,107 @@
+export type DiffLine = {
+  type: 'context' | 'add' | 'remove';
+  content: string;
+  oldNumber: number | null;
+  newNumber: number | null;
+};
+
+export type DiffHunk = {
+  header: string;
+  oldStart: number;
+  newStart: number;
+  lines: DiffLine[];
+};
+
+export type FileDiff = {
+  /** The path before the change, or null if the file is new or the diff does not name it. */
+  oldPath: string | null;
+  /** The path after the change, or null if the file is deleted or the diff does not name it. */
+  newPath: string | null;
+  hunks: DiffHunk[];
+};
+
+const hunkHeader = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@(.*)$/;
+
+function parsePath(line: string): string | null {
+  const path = line.slice(4).split('\t')[0].trim();
+  return path === '/dev/null' ? null : path.replace(/^[ab]\//, '');
+}
+
+const lineTypes: Record<string, DiffLine['type']> = { '+': 'add', '-': 'remove', ' ': 'context', '': 'context' };
+
+// Reads a line of a hunk, advancing the line numbers of the sides it is on. Lines such as "\ No newline" are skipped.
+function toDiffLine(line: string, numbers: { old: number; new: number }): DiffLine | null {
+  const type = lineTypes[line.charAt(0)];
+  if (!type) return null;
+  return {
+    type,
+    content: line.slice(1),
+    oldNumber: type === 'add' ? null : numbers.old++,
+    newNumber: type === 'remove' ? null : numbers.new++,
+  };
+}
+
+/**
+ * Parses a unified diff into the changes to each file.
+ * Lines outside of hunks, such as git's index lines, are skipped, and a diff of hunks alone is read as one unnamed file.
+ */
+export function parseDiff(diff: string): FileDiff[] {
+  const files: FileDiff[] = [];
+  let file: FileDiff | null = null;
+  let hunk: DiffHunk | null = null;
+  const numbers = { old: 0, new: 0 };
+  const startFile = (): FileDiff => {
+    file = { oldPath: null, newPath: null, hunks: [] };
+    files.push(file);
+    hunk = null;
+    return file;
+  };
+
+  const lines = diff.replace(/\n$/, '').split('\n');
+  lines.forEach((line, index) => {
+    const header = line.match(hunkHeader);
+    // Without git's headers, a new file starts with its paths, which can only be told from a removed line by the next one.
+    const paths = line.startsWith('--- ') && lines[index + 1]?.startsWith('+++ ');
+    if (line.startsWith('diff ') || (paths && hunk)) {
+      startFile();
+    }
+    if (paths) {
+      (file ?? startFile()).oldPath = parsePath(line);
+    } else if (line.startsWith('+++ ') && !hunk) {
+      (file ?? startFile()).newPath = parsePath(line);
+    } else if (header) {
+      // Starting a file ends the hunk before it, so the file is started before the hunk.
+      const { hunks } = file ?? startFile();
+      numbers.old = Number(header[1]);
+      numbers.new = Number(header[2]);
+      hunk = { header: header[3].trim(), oldStart: numbers.old, newStart: numbers.new, lines: [] };
+      hunks.push(hunk);
+    } else if (hunk) {
+      const diffLine = toDiffLine(line, numbers);
+      if (diffLine) hunk.lines.push(diffLine);
+    }
+  });
+  return files.filter((parsed) => parsed.hunks.length > 0);
+}
+
+/**
+ * Applies the changes to a file to its original content.
+ * @throws If the original content does not match the lines the diff expects.
+ */
+export function applyDiff(original: string, file: FileDiff): string {
+  const lines = original.split('\n');
+  let offset = 0;
+  file.hunks.forEach((hunk) => {
+    const expected = hunk.lines.filter((line) => line.type !== 'add').map((line) => line.content);
+    const replacement = hunk.lines.filter((line) => line.type !== 'remove').map((line) => line.content);
+    // A hunk that adds lines to an empty file starts at line 0.
+    const start = Math.max(hunk.oldStart - 1, 0) + offset;
+    const actual = lines.slice(start, start + expected.length);
+    if (actual.some((line, index) => line.replace(/\r$/, '') !== expected[index])) {
+      throw new Error(`The original of ${file.oldPath ?? 'the file'} does not match the diff at line ${hunk.oldStart}.`);
+    }
+    lines.splice(start, expected.length, ...replacement);
+    offset += replacement.length - expected.length;
+  });
+  return lines.join('\n');
+}
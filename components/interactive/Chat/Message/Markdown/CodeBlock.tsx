@@ -1,9 +1,8 @@
 'use client';
-import React, { ReactNode, useState, useRef } from 'react';
-import { ChevronDown } from 'lucide-react';
+import React, { ReactNode, useMemo, useState } from 'react';
+import { ChevronDown, Copy, Download } from 'lucide-react';
 import SyntaxHighlighter from 'react-syntax-highlighter';
 import { a11yDark, a11yLight } from 'react-syntax-highlighter/dist/esm/styles/hljs';
-import { Copy, Download } from 'lucide-react';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import 'katex/dist/katex.min.css';
 import Latex from 'react-latex-next';
@@ -11,119 +10,91 @@ import { getCookie } from 'cookies-next';
 import MarkdownBlock from '../MarkdownBlock';
 import { DataTable } from '../data-table';
 import { createColumns } from '../data-table/data-table-columns';
+import ChartBuilder from './Code/ChartBuilder';
+import DiffView from './Code/DiffView';
+import JSONTree from './Code/JSONTree';
 import Mermaid from './Code/Mermaid';
+import SandboxedPreview from './Code/SandboxedPreview';
 import { parseXSVData } from './Code/ParseXSVData';
+import {
+  getCodeRenderer,
+  getFileExtension,
+  getSourceLanguage,
+  isHighlightedLanguage,
+  isKnownLanguage,
+  registerCodeRenderer,
+} from './codeRenderers';
 import TabPanel from './TabPanel';
 
-const fileExtensions = {
-  '': 'txt',
-  text: 'txt',
-  python: 'py',
-  javascript: 'js',
-  typescript: 'ts',
-  html: 'html',
-  css: 'css',
-  json: 'json',
-  yaml: 'yaml',
-  markdown: 'md',
-  shell: 'sh',
-  bash: 'sh',
-  sql: 'sql',
-  java: 'java',
-  c: 'c',
-  cpp: 'cpp',
-  csharp: 'cs',
-  go: 'go',
-  rust: 'rs',
-  php: 'php',
-  ruby: 'rb',
-  perl: 'pl',
-  lua: 'lua',
-  r: 'r',
-  swift: 'swift',
-  kotlin: 'kt',
-  scala: 'scala',
-  clojure: 'clj',
-  elixir: 'ex',
-  erlang: 'erl',
-  haskell: 'hs',
-  ocaml: 'ml',
-  pascal: 'pas',
-  scheme: 'scm',
-  coffeescript: 'coffee',
-  fortran: 'f',
-  julia: 'jl',
-  lisp: 'lisp',
-  prolog: 'pro',
-  vbnet: 'vb',
-  dart: 'dart',
-  fsharp: 'fs',
-  groovy: 'groovy',
-  perl6: 'pl',
-  powershell: 'ps1',
-  puppet: 'pp',
-  qml: 'qml',
-  racket: 'rkt',
-  sas: 'sas',
-  tsv: 'tsv',
-  flow: 'flow',
-  mermaid: 'mermaid',
-  sequence: 'sequence',
-  gantt: 'gantt',
-  verilog: 'v',
-  vhdl: 'vhd',
-  apex: 'cls',
-  matlab: 'm',
-  nim: 'nim',
-  csv: 'csv',
-  xml: 'xml',
-  latex: 'latex',
-};
+const livePreviewsEnabled = process.env.NEXT_PUBLIC_AGIXT_LIVE_PREVIEWS_ENABLED !== 'false';
 
-const languageRenders = {
-  markdown: (content) => <MarkdownBlock content={content} />,
-  html: (content) => <div dangerouslySetInnerHTML={{ __html: content }} />,
-  csv: (content, setLoading) => {
-    const csvData = (
-      content.constructor === Array
-        ? content.length > 1
-          ? content
-          : content[0]
-        : content
-            .split('\n')
-            .filter((row) => row.trim())
-            .map((row) => row.trim())
-    )
-      .filter((row) => row.trim())
-      .map((row) => row.trim());
-
-    const result = parseXSVData(csvData, ',');
-
-    if ('error' in result) {
-      return <div>Error: {result.error}</div>;
-    }
-
-    return <DataTable columns={createColumns(result.columns)} data={result.rows} />;
-  },
-  tsv: (content, setLoading) => {
-    const tsvData = (content.constructor === Array ? (content.length > 1 ? content : content[0]) : content.split('\n'))
-      .filter((row) => row.trim())
-      .map((row) => row.trim());
-
-    const result = parseXSVData(tsvData, '\t');
-
-    if ('error' in result) {
-      return <div>Error: {result.error}</div>;
-    }
-
-    return <DataTable columns={createColumns(result.columns)} data={result.rows} />;
-  },
-  gantt: (content) => <Mermaid chart={'gantt\n' + content} />,
-  sequence: (content) => <Mermaid chart={'sequenceDiagram\n' + content} />,
-  flow: (content) => <Mermaid chart={'flowchart TD\n' + content} />,
-  mermaid: (content) => <Mermaid chart={content} />,
-  latex: (content) => <Latex>{content[0]}</Latex>,
-};
+function readXSV(content: string, delimiter: string): ReturnType<typeof parseXSVData> {
+  return parseXSVData(
+    content
+      .split('\n')
+      .map((row) => row.trim())
+      .filter(Boolean),
+    delimiter,
+  );
+}
+
+function renderXSV(content: string, delimiter: string, fileName: string): ReactNode {
+  const result = readXSV(content, delimiter);
+  if ('error' in result) {
+    return <div>Error: {result.error}</div>;
+  }
+  return <DataTable columns={createColumns(result.columns)} data={result.rows} exportName={fileName} />;
+}
+
+registerCodeRenderer('markdown', (content) => <MarkdownBlock content={content} />);
+if (livePreviewsEnabled) {
+  registerCodeRenderer('html', (content) => <SandboxedPreview content={content} language='html' />);
+  // Live previews run the code, so they open on the source rather than the rendered tab.
+  registerCodeRenderer('javascript', {
+    render: (content) => <SandboxedPreview content={content} language='javascript' />,
+    defaultTab: 'source',
+  });
+  registerCodeRenderer('jsx', {
+    render: (content) => <SandboxedPreview content={content} language='jsx' />,
+    defaultTab: 'source',
+  });
+}
+registerCodeRenderer('json', (content, { fileName }) => <JSONTree content={content} format='json' fileName={fileName} />);
+registerCodeRenderer('yaml', (content, { fileName }) => <JSONTree content={content} format='yaml' fileName={fileName} />);
+registerCodeRenderer('yml', {
+  render: (content, { fileName }) => <JSONTree content={content} format='yaml' fileName={fileName} />,
+  extension: 'yaml',
+  sourceLanguage: 'yaml',
+});
+registerCodeRenderer('diff', (content) => <DiffView content={content} />);
+registerCodeRenderer('patch', {
+  render: (content) => <DiffView content={content} />,
+  extension: 'patch',
+  sourceLanguage: 'diff',
+});
+[
+  ['csv', ','],
+  ['tsv', '\t'],
+].forEach(([language, delimiter]) =>
+  registerCodeRenderer(language, {
+    render: (content, { fileName }) => renderXSV(content, delimiter, fileName),
+    toTable: (content) => {
+      const result = readXSV(content, delimiter);
+      return 'error' in result ? null : result;
+    },
+  }),
+);
+registerCodeRenderer('gantt', (content) => <Mermaid chart={'gantt\n' + content} />);
+registerCodeRenderer('sequence', (content) => <Mermaid chart={'sequenceDiagram\n' + content} />);
+registerCodeRenderer('flow', (content) => <Mermaid chart={'flowchart TD\n' + content} />);
+registerCodeRenderer('mermaid', (content) => <Mermaid chart={content} />);
+registerCodeRenderer('latex', (content) => <Latex>{content}</Latex>);
+
+// Blocks without a language after the fence may name one on their first line.
+function detectLanguage(language: string, content: string): [string, string] {
+  const firstLine = content.split('\n')[0].trim();
+  return isKnownLanguage(firstLine) ? [firstLine, content.substring(content.indexOf('\n') + 1)] : [language, content];
+}
 
 export type CodeBlockProps = {
   inline?: boolean;
@@ -135,51 +106,40 @@ export type CodeBlockProps = {
 
 export default function CodeBlock({
   inline = false,
-  children,
+  children = '',
   language = 'Text',
   fileName,
   setLoading,
   ...props
 }: CodeBlockProps): ReactNode {
-  const codeBlockRef = useRef<HTMLDivElement>(null);
-  const [tab, setTab] = useState(0);
   const [isOpen, setIsOpen] = useState(false);
 
-  if (inline) {
-    return <span className='bg-gray-200 dark:bg-gray-700 rounded-md px-1 py-0.5 font-mono'>{children}</span>;
+  if (!inline && (!language || language === 'Text')) {
+    [language, children] = detectLanguage(language, children);
   }
 
-  if (!language || language === 'Text') {
-    const languages = Object.entries(fileExtensions).flat();
-    const potentialLanguage = children.split('\n')[0].trim();
-    if (languages.includes(potentialLanguage)) {
-      language = potentialLanguage;
-      children = children.substring(children.indexOf('\n') + 1);
-    }
+  const renderer = getCodeRenderer(language);
+  const [tab, setTab] = useState(renderer?.defaultTab === 'source' ? 1 : 0);
+  const table = useMemo(() => renderer?.toTable?.(children) ?? null, [renderer, children]);
+
+  if (inline) {
+    return <span className='bg-gray-200 dark:bg-gray-700 rounded-md px-1 py-0.5 font-mono'>{children}</span>;
   }
 
-  const fileNameWithExtension = `${fileName || 'code'}.${fileExtensions[String(language.toLowerCase())] || 'txt'}`;
+  const fileNameWithExtension = `${fileName || 'code'}.${getFileExtension(language)}`;
 
   const copyCode = () => {
-    if (codeBlockRef.current) {
-      const actualCode = codeBlockRef.current.querySelector('code')?.cloneNode(true) as HTMLElement;
-      actualCode.querySelectorAll('.react-syntax-highlighter-line-number').forEach((el) => el.remove());
-      navigator.clipboard.writeText(actualCode.innerText);
-    }
+    navigator.clipboard.writeText(children);
   };
 
   const downloadCode = () => {
-    if (codeBlockRef.current) {
-      const actualCode = codeBlockRef.current.querySelector('code')?.cloneNode(true) as HTMLElement;
-      actualCode.querySelectorAll('.react-syntax-highlighter-line-number').forEach((el) => el.remove());
-      const element = document.createElement('a');
-      const file = new Blob([actualCode.innerText], { type: 'text/plain;charset=utf-8' });
-      element.href = URL.createObjectURL(file);
-      element.download = fileNameWithExtension;
-      document.body.appendChild(element);
-      element.click();
-      document.body.removeChild(element);
-    }
+    const element = document.createElement('a');
+    const file = new Blob([children], { type: 'text/plain;charset=utf-8' });
+    element.href = URL.createObjectURL(file);
+    element.download = fileNameWithExtension;
+    document.body.appendChild(element);
+    element.click();
+    document.body.removeChild(element);
   };
 
   return (
@@ -193,14 +153,13 @@ export default function CodeBlock({
           <ChevronDown className={`w-4 h-4 transition-transform duration-200 ${isOpen ? 'transform rotate-180' : ''}`} />
         </CollapsibleTrigger>
 
-        {Object.keys(languageRenders).includes(language) && (
+        {renderer && (
           <div className='flex'>
-            <button className={`px-4 py-2 ${tab === 0 ? 'bg-muted' : ''}`} onClick={() => setTab(0)}>
-              Rendered
-            </button>
-            <button className={`px-4 py-2 ${tab === 1 ? 'bg-muted' : ''}`} onClick={() => setTab(1)}>
-              Source
-            </button>
+            {['Rendered', 'Source', ...(table ? ['Chart'] : [])].map((label, index) => (
+              <button key={label} className={`px-4 py-2 ${tab === index ? 'bg-muted' : ''}`} onClick={() => setTab(index)}>
+                {label}
+              </button>
+            ))}
           </div>
         )}
         <div className='flex items-center'>
@@ -217,18 +176,20 @@ export default function CodeBlock({
       </div>
 
       <CollapsibleContent className='transition-all duration-300 ease-in-out'>
-        {Object.keys(languageRenders).includes(language) && (
+        {renderer && (
           <TabPanel value={tab} index={0}>
-            <div className='code-container'>{languageRenders[language.toString()](children, setLoading)}</div>
+            <div className='code-container'>
+              {renderer.render(children, { language, fileName: fileName || 'code', setLoading })}
+            </div>
           </TabPanel>
         )}
 
-        <TabPanel value={tab} index={Object.keys(languageRenders).includes(language) ? 1 : 0}>
-          <div className='code-container' ref={codeBlockRef}>
-            {language.toLowerCase() in fileExtensions ? (
+        <TabPanel value={tab} index={renderer ? 1 : 0}>
+          <div className='code-container'>
+            {isHighlightedLanguage(language) ? (
               <SyntaxHighlighter
                 {...props}
-                language={language.toLowerCase()}
+                language={getSourceLanguage(language)}
                 style={getCookie('theme')?.includes('dark') ? a11yDark : a11yLight}
                 showLineNumbers
                 wrapLongLines
@@ -242,6 +203,11 @@ export default function CodeBlock({
             )}
           </div>
         </TabPanel>
+        {table && (
+          <TabPanel value={tab} index={2}>
+            <ChartBuilder columns={table.columns} rows={table.rows} fileName={fileName || 'chart'} />
+          </TabPanel>
+        )}
       </CollapsibleContent>
     </Collapsible>
   );
@@ -0,0 +1,49 @@
+'use client';
+
+import React, { ReactNode, useMemo } from 'react';
+import katex from 'katex';
+import 'katex/dist/katex.min.css';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+export type MarkdownMathProps = {
+  latex: string;
+  display?: boolean;
+};
+
+/**
+ * Renders a LaTeX formula, or its source if it cannot be parsed. Clicking it copies the source.
+ */
+export default function MarkdownMath({ latex, display = false }: MarkdownMathProps): ReactNode {
+  const { toast } = useToast();
+  const rendered = useMemo<{ html: string } | { error: string }>(() => {
+    try {
+      return { html: katex.renderToString(latex, { displayMode: display, throwOnError: true }) };
+    } catch (error) {
+      return { error: (error as Error).message };
+    }
+  }, [latex, display]);
+  const Tag = display ? 'div' : 'span';
+
+  async function copyLatex(): Promise<void> {
+    await navigator.clipboard.writeText(latex);
+    toast({ title: 'Copied LaTeX', description: latex });
+  }
+
+  return 'html' in rendered ? (
+    <Tag
+      className={cn('cursor-copy', display && 'my-2 overflow-x-auto')}
+      title='Copy LaTeX'
+      onClick={copyLatex}
+      dangerouslySetInnerHTML={{ __html: rendered.html }}
+    />
+  ) : (
+    <Tag
+      className={cn('font-mono cursor-copy text-muted-foreground', display && 'block my-2 whitespace-pre-wrap')}
+      title={rendered.error}
+      onClick={copyLatex}
+    >
+      {display ? latex : `$${latex}$`}
+    </Tag>
+  );
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import textToMarkdown, { Segment, normalizeMath } from './Preprocessor';
+
+/** The type of each segment, with the language of code. */
+function outline(segments: Segment[]): string[] {
+  return segments.map((segment) => (segment.type === 'code' ? `code:${segment.language}` : segment.type));
+}
+
+describe('textToMarkdown', () => {
+  it('splits out fenced code, keeping the markdown around it', () => {
+    const segments = textToMarkdown('Before\n\n```ts title="a.ts"\nconst a = 1;\n```\nAfter');
+    expect(segments).toEqual([
+      { type: 'markdown', content: 'Before\n', start: 0 },
+      { type: 'code', content: 'const a = 1;', language: 'ts', meta: 'title="a.ts"', terminated: true, start: 2 },
+      { type: 'markdown', content: 'After', start: 5 },
+    ]);
+  });
+
+  it('runs an unterminated fence to the end, as while it is streamed', () => {
+    const [intro, code] = textToMarkdown('Here:\n```python\nprint(1)\n');
+    expect(intro.content).toBe('Here:');
+    expect(code).toMatchObject({ type: 'code', content: 'print(1)\n', terminated: false, start: 1 });
+  });
+
+  it('closes a tilde fence only with tildes at least as long as its own', () => {
+    const [code] = textToMarkdown('~~~~md\n```js\n~~~\n```\n~~~~');
+    expect(code).toMatchObject({ type: 'code', language: 'md', content: '```js\n~~~\n```', terminated: true });
+  });
+
+  it('does not take inline code with backticks in its info string for a fence', () => {
+    expect(outline(textToMarkdown('```a` b```'))).toEqual(['markdown']);
+  });
+
+  it('removes the indentation of the opening fence from the lines of the code', () => {
+    const [, code] = textToMarkdown('1. Run:\n   ```sh\n   npm test\n     --watch\n   ```');
+    expect(code.content).toBe('npm test\n  --watch');
+  });
+
+  it('splits out display math, tables and HTML blocks', () => {
+    const text = ['$$', 'x^2', '$$', '| a | b |', '| - | - |', '| 1 | 2 |', '', '<div>', 'Hi', '</div>', '', 'Done'].join(
+      '\n',
+    );
+    expect(outline(textToMarkdown(text))).toEqual(['math', 'table', 'html', 'markdown']);
+  });
+
+  it('leaves display math followed by text on its line to be read inline', () => {
+    expect(outline(textToMarkdown('$$E=mc^2$$ is the energy'))).toEqual(['markdown']);
+    expect(textToMarkdown('\\[x\\]')).toEqual([{ type: 'math', content: 'x', terminated: true, start: 0 }]);
+  });
+
+  it('numbers segments by the line they start on', () => {
+    expect(textToMarkdown('a\r\nb\r\n```\nc\n```\nd').map((segment) => segment.start)).toEqual([0, 2, 5]);
+  });
+});
+
+describe('normalizeMath', () => {
+  it('rewrites bracketed math to dollar delimiters', () => {
+    expect(normalizeMath('Where \\(x^2\\) and \\[\ny = 1\n\\]')).toBe('Where $x^2$ and $$\ny = 1\n$$');
+  });
+
+  it('leaves math in dollars as it is', () => {
+    expect(normalizeMath('$a + b$ and $$c$$')).toBe('$a + b$ and $$c$$');
+    expect(normalizeMath('$$\nc\n$$ but not $$\n\nd')).toBe('$$\nc\n$$ but not \\$\\$\n\nd');
+  });
+
+  it('escapes dollars in amounts rather than reading them as math', () => {
+    expect(normalizeMath('It costs $5 and $10.')).toBe('It costs \\$5 and \\$10.');
+    expect(normalizeMath('From $5 to $x$')).toBe('From \\$5 to $x$');
+    expect(normalizeMath('Pay $ 5 $')).toBe('Pay \\$ 5 \\$');
+  });
+
+  it('leaves escaped dollars and code spans as they are', () => {
+    expect(normalizeMath('\\$5 and `echo $HOME \\(x\\)`')).toBe('\\$5 and `echo $HOME \\(x\\)`');
+  });
+});
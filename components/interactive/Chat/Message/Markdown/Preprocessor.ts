@@ -1,37 +1,216 @@
-export type MarkdownBlockProps = {
-  children: string;
-};
-type BlockType = 'codeblock' | 'code' | undefined;
-type Segment = {
-  type?: BlockType;
+// Splits markdown into the blocks that are rendered by something other than react-markdown, following CommonMark's rules
+// for where fenced code and HTML blocks start and end, and GFM's for tables.
+
+type SegmentBase = {
   content: string;
+  /** The index of the line the segment starts on, stable while a streamed response grows. */
+  start: number;
+};
+
+export type MarkdownSegment = SegmentBase & { type: 'markdown' };
+export type CodeSegment = SegmentBase & {
+  type: 'code';
+  /** The first word of the fence's info string. */
+  language: string;
+  /** The rest of the info string. */
+  meta: string;
+  /** False if the document ended before the closing fence, as it does while the block is being streamed. */
+  terminated: boolean;
 };
-function reprocess(processed: Segment[], rule: any, type: BlockType) {
-  return processed
-    .map((value) => {
-      if (value.type === undefined) {
-        const result = rule(value.content).map((value: string, index: number) => ({
-          type: index % 2 === 1 ? type : undefined,
-          content: value,
-        }));
-        if (result.length % 2 !== 1) {
-          throw new Error(`Unterminated ${type} detected in content: ${value.content}!`);
-        }
-        return result.filter((segment: Segment) => segment.content);
-      } else {
-        return [value];
-      }
-    })
-    .flat();
-}
-function splitUnEscaped(text: string, delimiter: string) {
+export type MathSegment = SegmentBase & { type: 'math'; terminated: boolean };
+export type TableSegment = SegmentBase & { type: 'table' };
+export type HTMLSegment = SegmentBase & { type: 'html' };
+export type Segment = MarkdownSegment | CodeSegment | MathSegment | TableSegment | HTMLSegment;
+
+type Block = { segment: Segment; end: number };
+
+const openingFence = /^( {0,3})(`{3,}|~{3,})(.*)$/;
+// HTML blocks of the first kind, which end at their closing tag rather than a blank line.
+const rawHTMLBlock = /^ {0,3}<(pre|script|style|textarea)(?:\s|>|$)/i;
+const blockHTMLTags = new Set(
+  (
+    'address article aside base basefont blockquote body caption center col colgroup dd details dialog dir div dl dt ' +
+    'fieldset figcaption figure footer form frame frameset h1 h2 h3 h4 h5 h6 head header hr html iframe legend li link ' +
+    'main menu menuitem nav noframes ol optgroup option p param search section summary table tbody td tfoot th thead ' +
+    'title tr track ul'
+  ).split(' '),
+);
+
+function readFence(lines: string[], start: number): Block | null {
+  const opening = lines[start].match(openingFence);
+  // Backtick fences cannot have backticks in their info string, so that inline code is not mistaken for one.
+  if (!opening || (opening[2][0] === '`' && opening[3].includes('`'))) return null;
+  const [, indent, fence, info] = opening;
+  // A closing fence is at least as long as the opening one and made of the same character.
+  const isClosing = (line: string): boolean => {
+    const body = line.trimEnd().replace(/^ {0,3}/, '');
+    return body.length >= fence.length && [...body].every((char) => char === fence[0]);
+  };
+  let end = start + 1;
+  while (end < lines.length && !isClosing(lines[end])) {
+    end++;
+  }
+  const [language = '', ...meta] = info.trim().split(/\s+/);
+  return {
+    segment: {
+      type: 'code',
+      // Content lines lose as much indentation as the opening fence had.
+      content: lines
+        .slice(start + 1, end)
+        .map((line) => line.slice(Math.min(indent.length, line.length - line.trimStart().length)))
+        .join('\n'),
+      language,
+      meta: meta.join(' '),
+      terminated: end < lines.length,
+      start,
+    },
+    end: Math.min(end + 1, lines.length),
+  };
+}
+
+// Display math is delimited by $$ or by \[ and \].
+const mathDelimiters: [string, string][] = [
+  ['$$', '$$'],
+  ['\\[', '\\]'],
+];
+
+function readMath(lines: string[], start: number): Block | null {
+  const opening = lines[start].trim();
+  const delimiters = mathDelimiters.find(([open]) => opening.startsWith(open) && opening[open.length] !== '$');
+  if (!delimiters) return null;
+  const [open, close] = delimiters;
+  // Math on a single line, such as $$x^2$$.
+  if (opening.length >= open.length + close.length + 1 && opening.endsWith(close)) {
+    const content = opening.slice(open.length, -close.length).trim();
+    return { segment: { type: 'math', content, terminated: true, start }, end: start + 1 };
+  }
+  // Math followed by text on the same line, such as $$E=mc^2$$ is the energy, is left to remark-math as inline text.
+  if (opening.includes(close, open.length)) return null;
+  let end = start + 1;
+  while (end < lines.length && !lines[end].trim().endsWith(close)) {
+    end++;
+  }
+  const body = [
+    opening.slice(open.length),
+    ...lines.slice(start + 1, end),
+    (lines[end] ?? '').trim().slice(0, -close.length),
+  ];
+  return {
+    segment: { type: 'math', content: body.join('\n').trim(), terminated: end < lines.length, start },
+    end: Math.min(end + 1, lines.length),
+  };
+}
+
+function splitCells(row: string): string[] {
+  return row
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/);
+}
+
+function readTable(lines: string[], start: number): Block | null {
+  const header = lines[start];
+  const delimiter = lines[start + 1];
+  if (!header.includes('|') || !delimiter?.includes('-')) return null;
+  const delimiters = splitCells(delimiter);
+  if (!delimiters.every((cell) => /^ *:?-+:? *$/.test(cell)) || splitCells(header).length !== delimiters.length) {
+    return null;
+  }
+  let end = start + 2;
+  while (end < lines.length && lines[end].trim() && lines[end].includes('|')) {
+    end++;
+  }
+  return { segment: { type: 'table', content: lines.slice(start, end).join('\n'), start }, end };
+}
+
+// How an HTML block starting on a line ends, and whether the line it ends on is part of it, or null if none starts there.
+function getHTMLBlockEnding(line: string): { isEnd: (line: string) => boolean; inclusive: boolean } | null {
+  const raw = line.match(rawHTMLBlock);
+  if (raw) {
+    return { isEnd: (candidate) => candidate.toLowerCase().includes(`</${raw[1].toLowerCase()}>`), inclusive: true };
+  }
+  if (/^ {0,3}<!--/.test(line)) {
+    return { isEnd: (candidate) => candidate.includes('-->'), inclusive: true };
+  }
+  const tag = line.match(/^ {0,3}<\/?([a-zA-Z][a-zA-Z\d]*)(?:\s|\/?>|$)/);
+  return tag && blockHTMLTags.has(tag[1].toLowerCase())
+    ? { isEnd: (candidate) => !candidate.trim(), inclusive: false }
+    : null;
+}
+
+function readHTML(lines: string[], start: number): Block | null {
+  const ending = getHTMLBlockEnding(lines[start]);
+  if (!ending) return null;
+  // Blocks ending at a blank line run at least to the next line, the others can end on the line they start on.
+  let end = ending.inclusive ? start : start + 1;
+  while (end < lines.length && !ending.isEnd(lines[end])) {
+    end++;
+  }
+  if (ending.inclusive) {
+    end = Math.min(end + 1, lines.length);
+  }
+  return { segment: { type: 'html', content: lines.slice(start, end).join('\n'), start }, end };
+}
+
+const readers = [readFence, readMath, readHTML, readTable];
+
+/**
+ * Splits markdown into segments of code, display math, tables and HTML, and the markdown between them.
+ * An unterminated block, as a streamed response has until it is complete, runs to the end of the document.
+ */
+export default function textToMarkdown(text: string): Segment[] {
+  const lines = text.split(/\r?\n/);
+  const segments: Segment[] = [];
+  let markdownStart = 0;
+  const flushMarkdown = (end: number): void => {
+    const content = lines.slice(markdownStart, end).join('\n');
+    if (content.trim()) {
+      segments.push({ type: 'markdown', content, start: markdownStart });
+    }
+  };
+  let index = 0;
+  while (index < lines.length) {
+    const start = index;
+    const block = readers.reduce<Block | null>((found, read) => found ?? read(lines, start), null);
+    if (block) {
+      flushMarkdown(index);
+      segments.push(block.segment);
+      index = block.end;
+      markdownStart = index;
+    } else {
+      index++;
+    }
+  }
+  flushMarkdown(lines.length);
+  return segments;
+}
+
+// Escaped dollars, $$ pairs, and $ pairs that open before and close after something other than a space, without a digit
+// following, as Pandoc reads them, so that amounts such as "$5 and $10" are not taken for math. Other dollars are lone.
+const dollars = /\\\$|\$\$[^]*?\$\$|\$(?=[^\s$])[^$\n]*?[^\s\\]\$(?!\d)|\$/g;
+
+// Math does not run from one paragraph into the next, so dollars are paired within each.
+function escapeLoneDollars(text: string): string {
   return text
-    .replaceAll('\\' + delimiter, '´')
-    .split(delimiter)
-    .map((section) => section.replaceAll('´', '\\' + delimiter));
-}
-export default function textToMarkdown(text: string) {
-  // Only split code on code blocks (not inline code)
-  // const splitCode = reprocess(splitCodeBlocks, (content: string) => splitUnEscaped(content, '`'), 'code');
-  return reprocess([{ content: text }], (content: string) => splitUnEscaped(content, '```'), 'codeblock');
+    .split(/(\n\s*\n)/)
+    .map((paragraph) => paragraph.replace(dollars, (match) => (match === '$' ? '\\$' : match)))
+    .join('');
+}
+
+/**
+ * Rewrites the math in markdown to the $ and $$ delimiters that remark-math reads, from \( \) and \[ \], and escapes
+ * dollars that do not delimit math. Code spans are left as they are.
+ */
+export function normalizeMath(markdown: string): string {
+  return markdown
+    .split(/(`+[^`]*`+)/)
+    .map((part, index) =>
+      index % 2 === 1
+        ? part
+        : escapeLoneDollars(
+            part.replace(/\\\((.+?)\\\)/g, (_, math) => `$${math}$`).replace(/\\\[(.+?)\\]/gs, (_, math) => `$$${math}$$`),
+          ),
+    )
+    .join('');
 }
@@ -0,0 +1,79 @@
+'use client';
+
+import React, { ReactElement, ReactNode, useState } from 'react';
+import { ExtraProps } from 'react-markdown';
+import { DataTable } from '../data-table';
+import { createColumns, parseNumber } from '../data-table/data-table-columns';
+import ChartBuilder from './Code/ChartBuilder';
+import { Button } from '@/components/ui/button';
+
+type Element = NonNullable<ExtraProps['node']>;
+type ElementContent = Element['children'][number];
+type Alignment = 'left' | 'center' | 'right';
+
+function getElements(nodes: ElementContent[], tagNames: string[]): Element[] {
+  return nodes.filter((node): node is Element => node.type === 'element' && tagNames.includes(node.tagName));
+}
+
+function getText(node: ElementContent): string {
+  if (node.type === 'text') return node.value;
+  return node.type === 'element' ? node.children.map(getText).join('') : '';
+}
+
+// The rendered contents of the cells of each row, as react-markdown passes them to the table.
+function getRenderedCells(children: ReactNode): ReactNode[][] {
+  const elements = (nodes: ReactNode): ReactElement[] => React.Children.toArray(nodes).filter(React.isValidElement);
+  return elements(children).flatMap((section) =>
+    elements(section.props.children).map((row) => elements(row.props.children).map((cell) => cell.props.children)),
+  );
+}
+
+export type MarkdownTableProps = {
+  node?: Element;
+  children?: ReactNode;
+  /** The name, without extension, the table is exported as. */
+  fileName?: string;
+};
+
+/**
+ * Renders a GFM table as a data table, keeping the alignment and formatting of its cells.
+ * Columns of numbers are sorted as numbers, and the table can be plotted as a chart.
+ */
+export default function MarkdownTable({ node, children, fileName }: MarkdownTableProps): ReactNode {
+  const [showChart, setShowChart] = useState(false);
+  const [header, ...body] = getElements(node?.children ?? [], ['thead', 'tbody']).flatMap((section) =>
+    getElements(section.children, ['tr']).map((row) => getElements(row.children, ['th', 'td'])),
+  );
+  if (!header) return null;
+  const rendered = getRenderedCells(children).slice(1);
+  const values = body.map((cells) => header.map((_, index) => (cells[index] ? getText(cells[index]).trim() : '')));
+  const rows = values.map((cells, rowIndex) => ({
+    id: rowIndex + 1,
+    ...Object.fromEntries(cells.map((value, index) => [`col${index}`, value])),
+  }));
+  const columns = header.map((cell, index) => {
+    const column = values.map((cells) => cells[index]).filter(Boolean);
+    return {
+      field: `col${index}`,
+      headerName: getText(cell).trim(),
+      numeric: column.length > 0 && column.every((value) => !Number.isNaN(parseNumber(value))),
+      align: cell.properties.align as Alignment | undefined,
+      renderCell: (value: unknown, rowIndex: number) => rendered[rowIndex]?.[index] ?? (value as string),
+    };
+  });
+
+  return (
+    <div className='w-full'>
+      <div className='flex justify-end'>
+        <Button variant='outline' size='sm' className='h-8' onClick={() => setShowChart(!showChart)}>
+          {showChart ? 'Show Table' : 'Show Chart'}
+        </Button>
+      </div>
+      {showChart ? (
+        <ChartBuilder columns={columns} rows={rows} fileName={fileName} />
+      ) : (
+        <DataTable columns={createColumns(columns)} data={rows} exportName={fileName} />
+      )}
+    </div>
+  );
+}
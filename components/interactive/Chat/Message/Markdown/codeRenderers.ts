@@ -0,0 +1,140 @@
+import { ReactNode } from 'react';
+import type { TableData } from './Code/chartData';
+
+export type CodeRenderContext = {
+  language: string;
+  /** The name, without extension, that the block's content is saved as. */
+  fileName: string;
+  setLoading?: (loading: boolean) => void;
+};
+
+export type CodeRenderer = {
+  /** Renders the content of a fenced code block in the Rendered tab. */
+  render: (content: string, context: CodeRenderContext) => ReactNode;
+  /** The extension the block is downloaded with, txt if neither this nor the language has one. */
+  extension?: string;
+  /** The language the Source tab is highlighted as, the block's own language by default. */
+  sourceLanguage?: string;
+  /** The tab the block opens on. */
+  defaultTab?: 'rendered' | 'source';
+  /** Reads the content as a table, which adds a Chart tab plotting it, or returns null if it is not one. */
+  toTable?: (content: string) => TableData | null;
+};
+
+const fileExtensions: Record<string, string> = {
+  '': 'txt',
+  text: 'txt',
+  python: 'py',
+  javascript: 'js',
+  jsx: 'jsx',
+  typescript: 'ts',
+  html: 'html',
+  css: 'css',
+  json: 'json',
+  yaml: 'yaml',
+  markdown: 'md',
+  shell: 'sh',
+  bash: 'sh',
+  sql: 'sql',
+  java: 'java',
+  c: 'c',
+  cpp: 'cpp',
+  csharp: 'cs',
+  go: 'go',
+  rust: 'rs',
+  php: 'php',
+  ruby: 'rb',
+  perl: 'pl',
+  lua: 'lua',
+  r: 'r',
+  swift: 'swift',
+  kotlin: 'kt',
+  scala: 'scala',
+  clojure: 'clj',
+  elixir: 'ex',
+  erlang: 'erl',
+  haskell: 'hs',
+  ocaml: 'ml',
+  pascal: 'pas',
+  scheme: 'scm',
+  coffeescript: 'coffee',
+  fortran: 'f',
+  julia: 'jl',
+  lisp: 'lisp',
+  prolog: 'pro',
+  vbnet: 'vb',
+  dart: 'dart',
+  fsharp: 'fs',
+  groovy: 'groovy',
+  perl6: 'pl',
+  powershell: 'ps1',
+  puppet: 'pp',
+  qml: 'qml',
+  racket: 'rkt',
+  sas: 'sas',
+  tsv: 'tsv',
+  flow: 'flow',
+  mermaid: 'mermaid',
+  sequence: 'sequence',
+  gantt: 'gantt',
+  verilog: 'v',
+  vhdl: 'vhd',
+  apex: 'cls',
+  matlab: 'm',
+  nim: 'nim',
+  csv: 'csv',
+  xml: 'xml',
+  latex: 'latex',
+  diff: 'diff',
+};
+
+const renderers = new Map<string, CodeRenderer>();
+
+/**
+ * Registers a renderer for fenced code blocks of a language, replacing any renderer already registered for it.
+ * Blocks with a renderer get Rendered and Source tabs; copying and downloading always use the source.
+ * Renderers should be registered before the blocks they render are first shown.
+ * @param language The language named after the opening fence, matched case-insensitively.
+ * @param renderer The renderer, or just its render function.
+ * @returns A function that unregisters the renderer.
+ */
+export function registerCodeRenderer(language: string, renderer: CodeRenderer | CodeRenderer['render']): () => void {
+  const key = language.toLowerCase();
+  const registered = typeof renderer === 'function' ? { render: renderer } : renderer;
+  renderers.set(key, registered);
+  return () => {
+    if (renderers.get(key) === registered) {
+      renderers.delete(key);
+    }
+  };
+}
+
+export function getCodeRenderer(language: string): CodeRenderer | undefined {
+  return renderers.get(language.toLowerCase());
+}
+
+export function getFileExtension(language: string): string {
+  const key = language.toLowerCase();
+  return renderers.get(key)?.extension ?? fileExtensions[key] ?? 'txt';
+}
+
+export function getSourceLanguage(language: string): string {
+  return (renderers.get(language.toLowerCase())?.sourceLanguage ?? language).toLowerCase();
+}
+
+// Whether a language, or the extension of one, is known, so that a block naming it on its first line is recognised.
+export function isKnownLanguage(language: string): boolean {
+  const key = language.toLowerCase();
+  return key in fileExtensions || Object.values(fileExtensions).includes(key) || renderers.has(key);
+}
+
+// Only languages with a file extension are highlighted in the Source tab.
+export function isHighlightedLanguage(language: string): boolean {
+  return getSourceLanguage(language) in fileExtensions;
+}
+
+// The language of a file, by its extension, if it is known.
+export function getLanguageForFile(fileName: string): string | undefined {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  return Object.keys(fileExtensions).find((language) => language && fileExtensions[language] === extension);
+}
@@ -1,19 +1,37 @@
 import React, { ReactNode } from 'react';
-import ReactMarkdown from 'react-markdown';
+import ReactMarkdown, { ExtraProps } from 'react-markdown';
 import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
 import CodeBlock from './Markdown/CodeBlock';
 import MarkdownHeading from './Markdown/Heading';
 import MarkdownLink from './Markdown/Link';
 import MarkdownImage from './Markdown/Image';
-import textToMarkdown from './Markdown/Preprocessor';
-import { DataTable } from './data-table';
-import { createColumns } from './data-table/data-table-columns';
+import MarkdownTable from './Markdown/Table';
+import MarkdownMath from './Markdown/Math';
+import textToMarkdown, { normalizeMath } from './Markdown/Preprocessor';
+
+export { registerCodeRenderer } from './Markdown/codeRenderers';
+export type { CodeRenderer, CodeRenderContext } from './Markdown/codeRenderers';
 
 export type MarkdownBlockProps = {
   content: string;
   chatItem?: { role: string; timestamp: string; message: string };
   setLoading?: (loading: boolean) => void;
 };
+// remark-rehype wraps display math in a pre, which would render it as preformatted text.
+function MarkdownPre({ children, node }: ExtraProps & { children?: ReactNode }): ReactNode {
+  const child = node?.children[0];
+  const className = child?.type === 'element' ? String(child.properties.className) : '';
+  return className.includes('math-display') ? children : <pre>{children}</pre>;
+}
+
+function MarkdownCode({ children, className }: { children?: ReactNode; className?: string }): ReactNode {
+  if (className?.includes('language-math')) {
+    return <MarkdownMath latex={String(children)} display={className.includes('math-display')} />;
+  }
+  return <span className='inline p-1 mx-1 font-mono rounded-lg text-muted-foreground bg-muted'>{children}</span>;
+}
+
 export default function MarkdownBlock({ content, chatItem, setLoading }: MarkdownBlockProps): ReactNode {
   const renderMessage = (message): string => {
     return message
@@ -31,42 +49,20 @@ export default function MarkdownBlock({ content, chatItem, setLoading }: Markdow
     : new Date().toLocaleString().replace(/\D/g, '');
   const fileName = chatItem ? `${chatItem.role}-${timestamp.split('.')[0]}` : `${timestamp.split('.')[0]}`;
 
-  function parseMarkdownTable(markdown: string) {
-    const tableLines = markdown.split('\n').filter((line) => line.includes('|'));
-    if (tableLines.length === 0) return { columns: [], rows: [] };
-
-    const headers = tableLines[0]
-      .split('|')
-      .map((header) => header.trim())
-      .filter(Boolean);
-
-    const rows = tableLines.slice(2).map((rowLine, rowIndex) => ({
-      id: rowIndex + 1,
-      ...Object.fromEntries(
-        rowLine
-          .split('|')
-          .map((cell) => cell.trim())
-          .filter(Boolean)
-          .map((cell, cellIndex) => [`col${cellIndex}`, cell]),
-      ),
-    }));
-
-    const columns = headers.map((header, index) => ({
-      field: `col${index}`,
-      headerName: header,
-      width: 150,
-    }));
-
-    return { columns, rows };
-  }
   try {
     return (
       // Switch to https://github.com/ariabuckles/simple-markdown ?
       textToMarkdown(content.toString()).map((segment) =>
-        segment.type === undefined ? (
+        segment.type === 'code' ? (
+          <CodeBlock key={segment.start} language={segment.language || undefined} fileName={fileName}>
+            {segment.content}
+          </CodeBlock>
+        ) : segment.type === 'math' ? (
+          <MarkdownMath key={segment.start} latex={segment.content} display />
+        ) : (
           <ReactMarkdown
-            key={segment.content}
-            remarkPlugins={[[remarkGfm]]}
+            key={segment.start}
+            remarkPlugins={[[remarkGfm], [remarkMath]]}
             className='react-markdown'
             // disallowedElements={['code']}
             components={{
@@ -103,30 +99,22 @@ export default function MarkdownBlock({ content, chatItem, setLoading }: Markdow
               li({ children }) {
                 return <li className='my-1'>{children}</li>;
               },
-              table() {
-                const { columns, rows } = parseMarkdownTable(segment.content);
-                return (
-                  <div className='w-full'>
-                    <DataTable columns={createColumns(columns)} data={rows} />
-                  </div>
-                );
-              },
-              code({ children }) {
+              table({ node, children }) {
                 return (
-                  <span className='inline p-1 mx-1 font-mono rounded-lg text-muted-foreground bg-muted'>{children}</span>
+                  <MarkdownTable node={node} fileName={fileName}>
+                    {children}
+                  </MarkdownTable>
                 );
               },
+              pre: MarkdownPre,
+              code: MarkdownCode,
               img({ src, alt }) {
                 return <MarkdownImage src={src} alt={alt} />;
               },
             }}
           >
-            {renderMessage(segment.content)}
+            {renderMessage(normalizeMath(segment.content))}
           </ReactMarkdown>
-        ) : (
-          <CodeBlock key={segment.content} inline={segment.type === 'code'} fileName={fileName}>
-            {segment.content}
-          </CodeBlock>
         ),
       )
     );
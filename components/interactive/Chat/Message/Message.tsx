@@ -1,27 +1,64 @@
 'use client';
 
 import React, { useContext, useState, useMemo } from 'react';
-import { LuCopy, LuDownload, LuThumbsUp, LuThumbsDown, LuPen as LuEdit, LuTrash2 } from 'react-icons/lu';
+import {
+  LuCopy,
+  LuDownload,
+  LuThumbsUp,
+  LuThumbsDown,
+  LuPen as LuEdit,
+  LuTrash2,
+  LuRefreshCw,
+  LuSend,
+  LuChevronLeft,
+  LuChevronRight,
+} from 'react-icons/lu';
 import clipboardCopy from 'clipboard-copy';
-import { mutate } from 'swr';
-import { InteractiveConfigContext } from '../../InteractiveConfigContext';
+import { InteractiveConfig, InteractiveConfigContext } from '../../InteractiveConfigContext';
+import { ConversationVersions } from '../conversationBranches';
+import { NamedFile, getMessageFiles } from '../conversationFiles';
+import { AttachmentList } from '../Attachments/AttachmentPreview';
+import { useUser } from '../../hooks';
 import MarkdownBlock from './MarkdownBlock';
 import formatDate from './formatDate';
 import JRGDialog from './Dialog';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
-import { Tooltip, TooltipBasic, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { Tooltip, TooltipBasic, TooltipContent, TooltipProvider } from '@/components/ui/tooltip';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
+import { toastError } from '@/lib/errors';
 
 export type MessageProps = {
-  chatItem: { role: string; message: string; timestamp: string; rlhf?: { positive: boolean; feedback: string } };
+  chatItem: {
+    role: string;
+    message: string;
+    timestamp: string;
+    updatedAt?: string;
+    updatedBy?: string;
+    rlhf?: { positive: boolean; feedback: string };
+  };
   lastUserMessage: string;
   alternateBackground?: string;
   setLoading: (loading: boolean) => void;
+  versions?: ConversationVersions;
+  /** The files sent with the message, which the conversation log does not record. */
+  attachments?: NamedFile[];
+  onRegenerate?: () => Promise<void>;
+  onEditAndResend?: (message: string) => Promise<void>;
+  onEdit?: (message: string) => Promise<void>;
+  onDelete?: () => Promise<void>;
 };
 
+// The files sent with a user's message, and those it links to, such as the uploads the server logs.
+const getAttachments = (chatItem: { role: string; message: string }, attachments: NamedFile[] = []): NamedFile[] =>
+  chatItem.role === 'USER' ? [...attachments, ...getMessageFiles(chatItem.message)] : attachments;
+
+// The server sets when a message was updated as soon as it is created, so only a later update or an editor marks an edit.
+const isEdited = ({ timestamp, updatedAt, updatedBy }: MessageProps['chatItem']): boolean =>
+  Boolean(updatedBy) || (updatedAt !== undefined && new Date(updatedAt).getTime() > new Date(timestamp).getTime());
+
 const checkUserMsgJustText = (chatItem: { role: string; message: string }) => {
   if (chatItem.role !== 'USER') return false;
 
@@ -36,12 +73,24 @@ const checkUserMsgJustText = (chatItem: { role: string; message: string }) => {
   );
 };
 
-export default function Message({ chatItem, lastUserMessage, setLoading }: MessageProps): React.JSX.Element {
+export default function Message({
+  chatItem,
+  lastUserMessage,
+  setLoading,
+  versions,
+  attachments,
+  onRegenerate,
+  onEditAndResend,
+  onEdit,
+  onDelete,
+}: MessageProps): React.JSX.Element {
   const enableMessageEditing = process.env.NEXT_PUBLIC_AGIXT_ALLOW_MESSAGE_EDITING === 'true';
   const enableMessageDeletion = process.env.NEXT_PUBLIC_AGIXT_ALLOW_MESSAGE_DELETION === 'true';
   const state = useContext(InteractiveConfigContext);
   const [updatedMessage, setUpdatedMessage] = useState(chatItem.message);
+  const [resentMessage, setResentMessage] = useState(chatItem.message);
   const { toast } = useToast();
+  const { data: user } = useUser();
   const formattedMessage = useMemo(() => {
     let formatted = chatItem.message;
     try {
@@ -68,12 +117,28 @@ export default function Message({ chatItem, lastUserMessage, setLoading }: Messa
       sources: audioSources,
     };
   }, [chatItem]);
+  const files = useMemo(() => getAttachments(chatItem, attachments), [attachments, chatItem]);
   const [vote, setVote] = useState(chatItem.rlhf ? (chatItem.rlhf.positive ? 1 : -1) : 0);
   const [open, setOpen] = useState(false);
   const [feedback, setFeedback] = useState('');
 
   const isUserMsgJustText = checkUserMsgJustText(chatItem);
 
+  function selectVersion(conversationId: string): void {
+    state.mutate?.((oldState: InteractiveConfig) => ({
+      ...oldState,
+      overrides: { ...oldState.overrides, conversation: conversationId },
+    }));
+  }
+
+  async function branch(send: () => Promise<void>): Promise<void> {
+    try {
+      await send();
+    } catch (error) {
+      toastError('Unable to Branch Conversation', error);
+    }
+  }
+
   return (
     <div className={cn('m-3 overflow-hidden flex flex-col gap-2', isUserMsgJustText && 'max-w-[60%] self-end')}>
       {audios?.sources?.length > 0 ? (
@@ -104,18 +169,64 @@ export default function Message({ chatItem, lastUserMessage, setLoading }: Messa
         </div>
       )}
 
+      <AttachmentList files={files} className={cn({ 'justify-end': chatItem.role === 'USER' })} />
+
       {chatItem.timestamp !== '' && (
         <p className={cn('text-sm text-muted-foreground flex gap-1', chatItem.role === 'USER' && 'self-end')}>
           <p className='inline font-bold text-muted-foreground'>{chatItem.role === 'USER' ? 'You' : chatItem.role}</p>•
           <TooltipBasic title={formatDate(chatItem.timestamp, false)}>
             <span>{chatItem.timestamp === undefined ? 'Just Now...' : formatDate(chatItem.timestamp)}</span>
           </TooltipBasic>
+          {chatItem.updatedAt && isEdited(chatItem) && (
+            <>
+              •
+              <TooltipBasic
+                title={`Edited ${formatDate(chatItem.updatedAt, false)}${chatItem.updatedBy && chatItem.updatedBy === user?.id ? ' by you' : ''}`}
+              >
+                <span>Edited</span>
+              </TooltipBasic>
+            </>
+          )}
         </p>
       )}
 
       <div className={cn('flex gap-2', chatItem.role === 'USER' && 'justify-end items-center')}>
+        {versions && (
+          <div className='flex items-center text-sm text-muted-foreground'>
+            <TooltipBasic title='Previous Version'>
+              <Button
+                variant='ghost'
+                size='icon'
+                disabled={versions.current <= 0}
+                onClick={() => selectVersion(versions.conversations[versions.current - 1])}
+              >
+                <LuChevronLeft />
+              </Button>
+            </TooltipBasic>
+            <span>
+              {versions.current + 1} / {versions.conversations.length}
+            </span>
+            <TooltipBasic title='Next Version'>
+              <Button
+                variant='ghost'
+                size='icon'
+                disabled={versions.current >= versions.conversations.length - 1}
+                onClick={() => selectVersion(versions.conversations[versions.current + 1])}
+              >
+                <LuChevronRight />
+              </Button>
+            </TooltipBasic>
+          </div>
+        )}
         {(audios?.message?.trim() || !audios) && (
           <>
+            {onRegenerate && (
+              <TooltipBasic title='Regenerate Response'>
+                <Button variant='ghost' size='icon' onClick={() => branch(onRegenerate)}>
+                  <LuRefreshCw />
+                </Button>
+              </TooltipBasic>
+            )}
             {chatItem.role !== 'USER' && process.env.NEXT_PUBLIC_AGIXT_RLHF === 'true' && (
               <>
                 <TooltipBasic title='Provide Positive Feedback'>
@@ -183,7 +294,7 @@ export default function Message({ chatItem, lastUserMessage, setLoading }: Messa
                 <LuDownload />
               </Button>
             </TooltipBasic>
-            {enableMessageEditing && (
+            {enableMessageEditing && onEdit && (
               <TooltipProvider>
                 <Tooltip>
                   {/* TODO: Replace this with new dialog */}
@@ -200,12 +311,11 @@ export default function Message({ chatItem, lastUserMessage, setLoading }: Messa
                     }}
                     title='Edit Message'
                     onConfirm={async () => {
-                      await state.agixt.updateConversationMessage(
-                        state.overrides.conversation,
-                        chatItem.message,
-                        updatedMessage,
-                      );
-                      mutate('/conversation/' + state.overrides.conversation);
+                      try {
+                        await onEdit(updatedMessage);
+                      } catch (error) {
+                        toastError('Unable to Edit Message', error);
+                      }
                     }}
                     content={
                       <Textarea
@@ -221,26 +331,42 @@ export default function Message({ chatItem, lastUserMessage, setLoading }: Messa
                 </Tooltip>
               </TooltipProvider>
             )}
-            {enableMessageDeletion && (
+            {onEditAndResend && (
               <TooltipProvider>
                 <Tooltip>
-                  <TooltipTrigger asChild>
-                    {/* TODO: Replace this with new dialog */}
-                    <JRGDialog
-                      ButtonComponent={Button}
-                      ButtonProps={{ variant: 'ghost', size: 'icon', children: <LuTrash2 /> }}
-                      title='Delete Message'
-                      onConfirm={async () => {
-                        await state.agixt.deleteConversationMessage(state.overrides.conversation, chatItem.message);
-                        mutate('/conversation/' + state.overrides.conversation);
-                      }}
-                      content={`Are you sure you'd like to permanently delete this message from the conversation?`}
-                    />
-                  </TooltipTrigger>
-                  <TooltipContent>Delete Message</TooltipContent>
+                  <JRGDialog
+                    ButtonComponent={Button}
+                    ButtonProps={{
+                      variant: 'ghost',
+                      size: 'icon',
+                      children: (
+                        <TooltipBasic title='Edit and Resend'>
+                          <LuSend />
+                        </TooltipBasic>
+                      ),
+                    }}
+                    title='Edit and Resend'
+                    onConfirm={() => branch(() => onEditAndResend(resentMessage))}
+                    content={
+                      <Textarea
+                        value={resentMessage}
+                        onChange={(event) => {
+                          setResentMessage(event.target.value);
+                        }}
+                      />
+                    }
+                  />
+                  <TooltipContent>Edit and Resend</TooltipContent>
                 </Tooltip>
               </TooltipProvider>
             )}
+            {enableMessageDeletion && onDelete && (
+              <TooltipBasic title='Delete Message'>
+                <Button variant='ghost' size='icon' onClick={onDelete}>
+                  <LuTrash2 />
+                </Button>
+              </TooltipBasic>
+            )}
             {chatItem.rlhf && (
               <p className={cn('text-sm', chatItem.rlhf.positive ? 'text-green-500' : 'text-red-500')}>
                 {chatItem.rlhf.feedback}
@@ -263,26 +389,19 @@ export default function Message({ chatItem, lastUserMessage, setLoading }: Messa
                     Cancel
                   </Button>
                   <Button
-                    onClick={() => {
+                    onClick={async () => {
                       setOpen(false);
-                      if (vote === 1) {
-                        state.agixt.addConversationFeedback(
-                          true,
-                          chatItem.role,
-                          chatItem.message,
-                          lastUserMessage,
-                          feedback,
-                          state.overrides.conversation,
-                        );
-                      } else {
-                        state.agixt.addConversationFeedback(
-                          false,
+                      try {
+                        await state.agixt.addConversationFeedback(
+                          vote === 1,
                           chatItem.role,
                           chatItem.message,
                           lastUserMessage,
                           feedback,
                           state.overrides.conversation,
                         );
+                      } catch (error) {
+                        toastError('Unable to Send Feedback', error);
                       }
                     }}
                   >
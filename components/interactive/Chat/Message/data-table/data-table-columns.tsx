@@ -1,5 +1,6 @@
 'use client';
 
+import { ReactNode } from 'react';
 import { ColumnDef } from '@tanstack/react-table';
 import { LuCopy as Copy } from 'react-icons/lu';
 import { DataTableColumnHeader } from './data-table-column-header';
@@ -10,6 +11,21 @@ import { TooltipProvider, Tooltip, TooltipContent, TooltipTrigger } from '@/comp
 interface ColumnData {
   field: string;
   headerName: string;
+  /** Sorts the column by the numbers in its values, ignoring separators, currency and percent signs, rather than as text. */
+  numeric?: boolean;
+  align?: 'left' | 'center' | 'right';
+  /** Renders the cell of a row, by its index in the data, in place of its value. */
+  renderCell?: (value: unknown, rowIndex: number) => ReactNode;
+}
+
+export function parseNumber(value: unknown): number {
+  return typeof value === 'number' ? value : Number(String(value).replace(/[\s,$€£¥%]/g, '') || NaN);
+}
+
+// Values that are not numbers sort before those that are.
+function getSortableNumber(value: unknown): number {
+  const number = parseNumber(value);
+  return Number.isNaN(number) ? -Number.MAX_VALUE : number;
 }
 
 export function createColumns<TData, TValue>(columns: ColumnData[]): ColumnDef<TData, TValue>[] {
@@ -93,7 +109,14 @@ export function createColumns<TData, TValue>(columns: ColumnData[]): ColumnDef<T
     enableColumnFilter: true,
     enableSorting: true,
     enableHiding: true,
-    cell: (info) => info.getValue(),
+    cell: (info) => {
+      const content = col.renderCell ? col.renderCell(info.getValue(), info.row.index) : info.getValue();
+      return col.align ? <div style={{ textAlign: col.align }}>{content as ReactNode}</div> : content;
+    },
+    ...(col.numeric && {
+      sortingFn: (rowA, rowB, columnId) =>
+        getSortableNumber(rowA.getValue(columnId)) - getSortableNumber(rowB.getValue(columnId)),
+    }),
     meta: col,
   }));
 
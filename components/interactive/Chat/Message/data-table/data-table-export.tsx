@@ -3,39 +3,51 @@
 import { LuDownload as Download } from 'react-icons/lu';
 import { Table } from '@tanstack/react-table';
 
+import { ExportData, toDelimited, toJSON, toMarkdown, toWorkbook } from './formats';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuLabel,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
 
-export function DataTableExport<TData>({ table }: { table: Table<TData> }) {
-  const rows = table.getFilteredRowModel().rows.map((row) => row.original);
-  const columns = table
-    .getAllLeafColumns()
-    .filter((column) => column.getCanHide())
-    // @ts-expect-error TODO: Replace parseMarkdownTable helper to use Tanstack Table
-    .map((column) => column.columnDef.meta?.headerName);
+function download(content: Blob | string, fileName: string, type: string): void {
+  const blob = typeof content === 'string' ? new Blob([content], { type }) : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
 
-  const downloadCSV = () => {
-    const csvRows = [['id', ...columns], ...rows.map((row) => [...Object.values(row as Record<string, unknown>)])]
-      .map((row) => row.map((cell) => `"${cell}"`).join(','))
-      .join('\n');
+export function DataTableExport<TData>({ table, fileName = 'data' }: { table: Table<TData>; fileName?: string }) {
+  const { toast } = useToast();
 
-    const blob = new Blob([csvRows], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.setAttribute('href', url);
-    link.setAttribute('download', 'data.csv');
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  // The rows as they are currently filtered and sorted, across all pages, in the visible columns.
+  const getData = (): ExportData => {
+    const columns = table.getVisibleLeafColumns().filter((column) => column.getCanHide());
+    return {
+      headers: columns.map(
+        // @ts-expect-error TODO: Replace parseMarkdownTable helper to use Tanstack Table
+        (column) => column.columnDef.meta?.headerName ?? column.id,
+      ),
+      rows: table
+        .getPrePaginationRowModel()
+        .rows.map((row) => columns.map((column) => String(row.getValue(column.id) ?? ''))),
+    };
   };
 
-  // const downloadPDF = () => {};
+  const copyTSV = async () => {
+    await navigator.clipboard.writeText(toDelimited(getData(), '\t'));
+    toast({ title: 'Copied', description: 'The table can be pasted into a spreadsheet.' });
+  };
 
   return (
     <DropdownMenu>
@@ -47,10 +59,29 @@ export function DataTableExport<TData>({ table }: { table: Table<TData> }) {
       </DropdownMenuTrigger>
       <DropdownMenuContent align='end'>
         <DropdownMenuLabel>Export As</DropdownMenuLabel>
-        <DropdownMenuItem onClick={downloadCSV}>CSV (.csv)</DropdownMenuItem>
-        {/* <DropdownMenuItem onClick={() =>}>PDF (.pdf)</DropdownMenuItem> */}
-        {/* <DropdownMenuSeparator /> */}
-        {/* <DropdownMenuItem onClick={() => {}}>Print</DropdownMenuItem> */}
+        <DropdownMenuItem
+          onClick={() => download(toDelimited(getData(), ','), `${fileName}.csv`, 'text/csv;charset=utf-8;')}
+        >
+          CSV (.csv)
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          onClick={() =>
+            download(toDelimited(getData(), '\t'), `${fileName}.tsv`, 'text/tab-separated-values;charset=utf-8;')
+          }
+        >
+          TSV (.tsv)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => download(toWorkbook(getData(), fileName), `${fileName}.xlsx`, '')}>
+          Excel (.xlsx)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => download(toJSON(getData()), `${fileName}.json`, 'application/json;charset=utf-8;')}>
+          JSON (.json)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => download(toMarkdown(getData()), `${fileName}.md`, 'text/markdown;charset=utf-8;')}>
+          Markdown (.md)
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={copyTSV}>Copy to Clipboard</DropdownMenuItem>
       </DropdownMenuContent>
     </DropdownMenu>
   );
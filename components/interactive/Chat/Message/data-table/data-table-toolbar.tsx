@@ -9,9 +9,10 @@ import { Button } from '@/components/ui/button';
 
 interface DataTableToolbarProps<TData> {
   table: Table<TData>;
+  exportName?: string;
 }
 
-export function DataTableToolbar<TData>({ table }: DataTableToolbarProps<TData>) {
+export function DataTableToolbar<TData>({ table, exportName }: DataTableToolbarProps<TData>) {
   const isFiltered = table.getState().columnFilters.length > 0;
 
   return (
@@ -24,7 +25,7 @@ export function DataTableToolbar<TData>({ table }: DataTableToolbarProps<TData>)
       )}
       <DataTableFilter table={table} />
       <DataTableViewOptions table={table} />
-      <DataTableExport table={table} />
+      <DataTableExport table={table} fileName={exportName} />
     </div>
   );
 }
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { isPlainNumber, toDelimited, toMarkdown } from './formats';
+
+describe('toDelimited', () => {
+  it('joins cells with the delimiter and rows with CRLF, the header first', () => {
+    expect(toDelimited({ headers: ['Name', 'Age'], rows: [['Ada', '36']] }, ',')).toBe('Name,Age\r\nAda,36');
+  });
+
+  it('quotes cells that contain the delimiter, quotes or line breaks, doubling the quotes', () => {
+    const data = { headers: ['Quote'], rows: [['a, b'], ['say "hi"'], ['one\ntwo'], ['a\tb']] };
+    expect(toDelimited(data, ',')).toBe('Quote\r\n"a, b"\r\n"say ""hi"""\r\n"one\ntwo"\r\na\tb');
+    expect(toDelimited(data, '\t')).toBe('Quote\r\na, b\r\n"say ""hi"""\r\n"one\ntwo"\r\n"a\tb"');
+  });
+});
+
+describe('toMarkdown', () => {
+  it('escapes pipes and line breaks in cells', () => {
+    expect(toMarkdown({ headers: ['A'], rows: [['x | y\nz']] })).toBe('| A |\n| --- |\n| x \\| y<br>z |');
+  });
+});
+
+describe('isPlainNumber', () => {
+  it('accepts integers and decimals', () => {
+    expect(['0', '42', '-7', '3.14', '.5', '-0.25'].filter(isPlainNumber)).toHaveLength(6);
+  });
+
+  it('keeps numbers with leading zeros as text', () => {
+    expect(isPlainNumber('00123')).toBe(false);
+    expect(isPlainNumber('-012')).toBe(false);
+  });
+
+  it('rejects anything else that looks like a number', () => {
+    expect(['1e3', '1,000', '1.', '+1', '$5', '1.2.3', ''].filter(isPlainNumber)).toEqual([]);
+  });
+});
@@ -0,0 +1,37 @@
+// The formats the rows of a table are exported in.
+
+import { createWorkbook } from './xlsx';
+
+export type ExportData = { headers: string[]; rows: string[][] };
+
+// Quotes fields containing the delimiter, quotes or line breaks, doubling the quotes, as RFC 4180 describes for CSV and
+// spreadsheets expect of pasted TSV.
+export function toDelimited({ headers, rows }: ExportData, delimiter: string): string {
+  const escape = (cell: string): string =>
+    cell.includes(delimiter) || /["\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  return [headers, ...rows].map((row) => row.map(escape).join(delimiter)).join('\r\n');
+}
+
+export function toJSON({ headers, rows }: ExportData): string {
+  return JSON.stringify(
+    rows.map((row) => Object.fromEntries(headers.map((header, index) => [header, row[index]]))),
+    null,
+    2,
+  );
+}
+
+export function toMarkdown({ headers, rows }: ExportData): string {
+  const escape = (cell: string): string => cell.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+  return [headers, headers.map(() => '---'), ...rows].map((row) => `| ${row.map(escape).join(' | ')} |`).join('\n');
+}
+
+// Plain numbers are written as numbers so that spreadsheets can calculate with them. Those with leading zeros, such as
+// codes and ids like 00123, are kept as text so that the zeros are not lost.
+export const isPlainNumber = (cell: string): boolean => /^-?\d*\.?\d+$/.test(cell) && !/^-?0\d/.test(cell);
+
+export function toWorkbook({ headers, rows }: ExportData, name: string): Blob {
+  return createWorkbook(
+    [headers, ...rows.map((row) => row.map((cell) => (isPlainNumber(cell.trim()) ? Number(cell) : cell)))],
+    name,
+  );
+}
@@ -23,9 +23,11 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 interface DataTableProps<TData, TValue> {
   columns: ColumnDef<TData, TValue>[];
   data: TData[];
+  /** The name, without extension, the table is exported as. */
+  exportName?: string;
 }
 
-export function DataTable<TData, TValue>({ columns, data }: DataTableProps<TData, TValue>) {
+export function DataTable<TData, TValue>({ columns, data, exportName }: DataTableProps<TData, TValue>) {
   const [rowSelection, setRowSelection] = React.useState({});
   const [columnVisibility, setColumnVisibility] = React.useState<VisibilityState>({});
   const [columnFilters, setColumnFilters] = React.useState<ColumnFiltersState>([]);
@@ -55,7 +57,7 @@ export function DataTable<TData, TValue>({ columns, data }: DataTableProps<TData
 
   return (
     <div className='w-full p-2 space-y-2 rounded-md bg-background text-foreground'>
-      <DataTableToolbar table={table} />
+      <DataTableToolbar table={table} exportName={exportName} />
       <div className='border rounded-md'>
         <Table>
           <TableHeader className='font-bold bg-muted/50 text-foreground'>
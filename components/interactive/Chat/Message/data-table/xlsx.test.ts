@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { createWorkbook } from './xlsx';
+
+/** Reads the files of an uncompressed ZIP archive by their local headers. */
+async function unzip(blob: Blob): Promise<Map<string, string>> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const decoder = new TextDecoder();
+  const files = new Map<string, string>();
+  for (let at = 0; view.getUint32(at, true) === 0x04034b50; ) {
+    const size = view.getUint32(at + 18, true);
+    const nameLength = view.getUint16(at + 26, true);
+    const name = decoder.decode(bytes.subarray(at + 30, at + 30 + nameLength));
+    files.set(name, decoder.decode(bytes.subarray(at + 30 + nameLength, at + 30 + nameLength + size)));
+    at += 30 + nameLength + size;
+  }
+  return files;
+}
+
+async function readSheet(rows: (string | number)[][]): Promise<string | undefined> {
+  return (await unzip(createWorkbook(rows))).get('xl/worksheets/sheet1.xml');
+}
+
+describe('createWorkbook', () => {
+  it('writes the parts of a workbook with one sheet', async () => {
+    const workbook = createWorkbook([['Name']]);
+    expect(workbook.type).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    expect([...(await unzip(workbook)).keys()]).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/worksheets/sheet1.xml',
+    ]);
+  });
+
+  it('writes numbers as numbers and the rest as escaped inline strings', async () => {
+    const sheet = await readSheet([
+      ['Item', 'Cost'],
+      ['Tea & <cake>', 4.5],
+    ]);
+    expect(sheet).toContain(
+      '<row r="2"><c r="A2" t="inlineStr"><is><t xml:space="preserve">Tea &amp; &lt;cake&gt;</t></is></c><c r="B2"><v>4.5</v></c></row>',
+    );
+  });
+
+  it('names columns past Z with more letters', async () => {
+    const sheet = await readSheet([Array.from({ length: 28 }, (_, index) => index)]);
+    expect(sheet).toContain('<c r="Z1"><v>25</v></c><c r="AA1"><v>26</v></c><c r="AB1"><v>27</v></c>');
+  });
+
+  it('drops control characters and writes text for numbers that are not finite', async () => {
+    const sheet = await readSheet([['a\u0007b', NaN]]);
+    expect(sheet).toContain('<t xml:space="preserve">ab</t>');
+    expect(sheet).toContain('<t xml:space="preserve">NaN</t>');
+  });
+
+  it('shortens the name of the sheet to what Excel allows', async () => {
+    const workbook = (await unzip(createWorkbook([], 'Sales: 2024/2025 by region, then by quarter'))).get('xl/workbook.xml');
+    expect(workbook).toContain('<sheet name="Sales  2024 2025 by region, the"');
+  });
+});
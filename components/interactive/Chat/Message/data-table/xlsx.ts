@@ -0,0 +1,116 @@
+// Writes the smallest workbook Excel, Numbers and Sheets open: one sheet of inline strings and numbers, in an uncompressed
+// ZIP archive.
+
+const crcTable = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  data.forEach((byte) => {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  });
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function zip(files: Record<string, string>): Blob {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+  Object.entries(files).forEach(([name, content]) => {
+    const nameBytes = encoder.encode(name);
+    const data = encoder.encode(content);
+    const crc = crc32(data);
+    // The fields shared by the local header and the central directory entry: version, flags, method, time, date, CRC,
+    // sizes and name length.
+    const shared = (view: DataView, at: number): void => {
+      view.setUint16(at, 20, true);
+      view.setUint16(at + 8, 0x21, true);
+      view.setUint32(at + 10, crc, true);
+      view.setUint32(at + 14, data.length, true);
+      view.setUint32(at + 18, data.length, true);
+      view.setUint16(at + 22, nameBytes.length, true);
+    };
+    const local = new Uint8Array(30 + nameBytes.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    shared(localView, 4);
+    local.set(nameBytes, 30);
+    const entry = new Uint8Array(46 + nameBytes.length);
+    const entryView = new DataView(entry.buffer);
+    entryView.setUint32(0, 0x02014b50, true);
+    entryView.setUint16(4, 20, true);
+    shared(entryView, 6);
+    entryView.setUint32(42, offset, true);
+    entry.set(nameBytes, 46);
+    parts.push(local, data);
+    directory.push(entry);
+    offset += local.length + data.length;
+  });
+  const directorySize = directory.reduce((size, entry) => size + entry.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, directory.length, true);
+  endView.setUint16(10, directory.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+  return new Blob([...parts, ...directory, end], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
+}
+
+function escapeXML(text: string): string {
+  // Control characters other than tabs and line breaks are not allowed in XML.
+  // eslint-disable-next-line no-control-regex
+  const controlCharacters = /[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g;
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(controlCharacters, '');
+}
+
+function getColumnName(index: number): string {
+  let name = '';
+  for (let remaining = index + 1; remaining > 0; remaining = Math.floor((remaining - 1) / 26)) {
+    name = String.fromCharCode(65 + ((remaining - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function toCell(value: string | number, column: number, row: number): string {
+  const reference = `${getColumnName(column)}${row + 1}`;
+  return typeof value === 'number' && Number.isFinite(value)
+    ? `<c r="${reference}"><v>${value}</v></c>`
+    : `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXML(String(value))}</t></is></c>`;
+}
+
+/**
+ * Creates an XLSX workbook with a single sheet.
+ * @param rows The rows of the sheet, the header first.
+ * @param sheetName The name of the sheet, shortened to the 31 characters Excel allows.
+ */
+export function createWorkbook(rows: (string | number)[][], sheetName = 'Sheet1'): Blob {
+  const sheetData = rows
+    .map(
+      (row, rowIndex) =>
+        `<row r="${rowIndex + 1}">${row.map((value, column) => toCell(value, column, rowIndex)).join('')}</row>`,
+    )
+    .join('');
+  const name = escapeXML(sheetName.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31));
+  const xml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+  return zip({
+    '[Content_Types].xml': `${xml}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`,
+    '_rels/.rels': `${xml}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    'xl/workbook.xml': `${xml}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    'xl/_rels/workbook.xml.rels': `${xml}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`,
+    'xl/worksheets/sheet1.xml': `${xml}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${sheetData}</sheetData></worksheet>`,
+  });
+}
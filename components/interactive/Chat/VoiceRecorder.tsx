@@ -1,12 +1,13 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { LuMic as Mic, LuSquare as Square } from 'react-icons/lu';
+import { AttachedFile } from './conversationFiles';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import log from '@/components/jrg/next-log/log';
 
 export interface VoiceRecorderProps {
-  onSend: (message: string | object, uploadedFiles?: { [x: string]: string }) => Promise<void>;
+  onSend: (message: string | object, uploadedFiles?: Record<string, AttachedFile>) => Promise<unknown>;
   disabled: boolean;
 }
 
@@ -35,9 +36,11 @@ export const VoiceRecorder: React.FC<VoiceRecorderProps> = ({ onSend, disabled }
     const reader = new FileReader();
     reader.onloadend = () => {
       const base64Audio = reader.result as string;
+      // What it is sent to shows why it could not be sent.
       onSend('', {
-        'recording.wav': base64Audio,
-      });
+        // Recordings are short enough to be sent with their content.
+        'recording.wav': { url: base64Audio, mimeType: 'audio/wav' },
+      }).catch(() => undefined);
     };
     reader.readAsDataURL(wavBlob);
 
@@ -0,0 +1,97 @@
+// The API does not record which conversation a fork was made from, so branches are tracked in local storage under
+// `agixt-conversation-branches`. They are therefore only known to the browser they were made in: on another device, or
+// once site data is cleared, branches are listed as unrelated conversations, without versions or a branch tree.
+
+const storageKey = 'agixt-conversation-branches';
+
+export type ConversationBranch = {
+  id: string;
+  name: string;
+  parentId: string;
+  /** The message of the parent conversation after which this conversation diverges, or null if it diverges from the start. */
+  forkedAfter: string | null;
+  /** This conversation's copy of that message. */
+  anchorId: string | null;
+  createdAt: string;
+};
+
+export type ConversationVersions = {
+  /** The conversations holding each version, the one the message originated in first. */
+  conversations: string[];
+  current: number;
+};
+
+export type BranchTreeNode = { id: string; name: string; children: BranchTreeNode[] };
+
+export function loadConversationBranches(): ConversationBranch[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    return JSON.parse(localStorage.getItem(storageKey) ?? '[]');
+  } catch {
+    return [];
+  }
+}
+
+export function saveConversationBranch(branch: ConversationBranch): void {
+  localStorage.setItem(storageKey, JSON.stringify([...loadConversationBranches(), branch]));
+}
+
+type Slot = { conversationId: string; previousId: string | null };
+
+// A message right after the point a branch diverged is a version of the message at that point in the parent conversation.
+function resolveSlot(branches: ConversationBranch[], slot: Slot): Slot {
+  const branch = branches.find((candidate) => candidate.id === slot.conversationId);
+  return branch && branch.anchorId === slot.previousId
+    ? resolveSlot(branches, { conversationId: branch.parentId, previousId: branch.forkedAfter })
+    : slot;
+}
+
+/**
+ * Gets the versions of a message, the conversations that branched off at the point it was sent.
+ * @param branches The known branches.
+ * @param conversationId The conversation the message is in.
+ * @param previousId The message before it, or null if it is the first message.
+ * @returns The versions, or null if the message has only ever been sent once.
+ */
+export function getMessageVersions(
+  branches: ConversationBranch[],
+  conversationId: string,
+  previousId: string | null,
+): ConversationVersions | null {
+  const origin = resolveSlot(branches, { conversationId, previousId });
+  const conversations = [
+    origin.conversationId,
+    ...branches
+      .filter((branch) => {
+        const slot = resolveSlot(branches, { conversationId: branch.parentId, previousId: branch.forkedAfter });
+        return slot.conversationId === origin.conversationId && slot.previousId === origin.previousId;
+      })
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map((branch) => branch.id),
+  ];
+  return conversations.length > 1 ? { conversations, current: conversations.indexOf(conversationId) } : null;
+}
+
+/**
+ * Gets the tree of branches that a conversation belongs to.
+ * @param branches The known branches.
+ * @param conversationId Any conversation in the tree.
+ * @param getName Gets the current name of a conversation, if it is still listed.
+ */
+export function getBranchTree(
+  branches: ConversationBranch[],
+  conversationId: string,
+  getName: (conversationId: string) => string | undefined,
+): BranchTreeNode {
+  const parents = new Map(branches.map((branch) => [branch.id, branch.parentId]));
+  let rootId = conversationId;
+  while (parents.has(rootId)) {
+    rootId = parents.get(rootId) as string;
+  }
+  const buildNode = (id: string, name: string): BranchTreeNode => ({
+    id,
+    name: getName(id) ?? name,
+    children: branches.filter((branch) => branch.parentId === id).map((branch) => buildNode(branch.id, branch.name)),
+  });
+  return buildNode(rootId, rootId);
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { getMessageFiles, isSafeFileURL } from './conversationFiles';
+
+describe('isSafeFileURL', () => {
+  it('accepts web, blob and relative URLs', () => {
+    expect(isSafeFileURL('https://example.com/report.pdf')).toBe(true);
+    expect(isSafeFileURL('http://localhost:7437/outputs/chart.png')).toBe(true);
+    expect(isSafeFileURL('blob:https://example.com/0b7c1d2e')).toBe(true);
+    expect(isSafeFileURL('/outputs/chart.png')).toBe(true);
+  });
+
+  it('accepts data URLs of previewed types only', () => {
+    expect(isSafeFileURL('data:image/png;base64,iVBORw0KGgo=')).toBe(true);
+    expect(isSafeFileURL('data:audio/wav;base64,UklGRg==')).toBe(true);
+    expect(isSafeFileURL('data:application/pdf;base64,JVBERi0=')).toBe(true);
+    expect(isSafeFileURL('data:text/html,<script>alert(1)</script>')).toBe(false);
+    expect(isSafeFileURL('DATA:text/html;base64,PHNjcmlwdD4=')).toBe(false);
+  });
+
+  it('rejects script URLs', () => {
+    /* eslint-disable no-script-url */
+    expect(isSafeFileURL('javascript:alert(1)')).toBe(false);
+    expect(isSafeFileURL('JavaScript:alert(1)')).toBe(false);
+    expect(isSafeFileURL('vbscript:msgbox(1)')).toBe(false);
+    /* eslint-enable no-script-url */
+  });
+});
+
+describe('getMessageFiles', () => {
+  it('gets the files linked to, typed by their extension', () => {
+    expect(getMessageFiles('See [chart.png](https://example.com/chart.png) and [notes.md](/outputs/notes.md)')).toEqual([
+      { name: 'chart.png', url: 'https://example.com/chart.png', mimeType: 'image/png' },
+      { name: 'notes.md', url: '/outputs/notes.md', mimeType: 'application/octet-stream' },
+    ]);
+  });
+
+  it('drops links whose URL is not safe to open', () => {
+    expect(getMessageFiles('[x.png](javascript:alert(1)) [y.png](https://example.com/y.png)')).toEqual([
+      { name: 'y.png', url: 'https://example.com/y.png', mimeType: 'image/png' },
+    ]);
+  });
+
+  it('ignores links to pages rather than files', () => {
+    expect(getMessageFiles('[the docs](https://example.com/docs)')).toEqual([]);
+  });
+});
@@ -0,0 +1,80 @@
+import { createContext } from 'react';
+
+/** A file attached to a message: the URL its content is fetched from, and its type. */
+export type AttachedFile = { url: string; mimeType: string };
+
+export type NamedFile = AttachedFile & { name: string };
+
+/** Files attached to the open conversation, by name, as URLs their content can be fetched from. */
+export const ConversationFilesContext = createContext<Map<string, string>>(new Map());
+
+// Links to files, such as those logged for uploads, whose text names a file rather than describing a page.
+const fileLink = /\[([^\]\s]+\.\w+)]\(([^)\s]+)\)/g;
+
+// The types of files that can be previewed, by extension, for files known only by a link.
+const previewTypes: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  m4a: 'audio/mp4',
+  flac: 'audio/flac',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+};
+
+// Data URLs of the types that are previewed, which browsers render without running anything.
+const previewedDataURL = /^data:(?:(?:image|audio|video)\/[\w.+-]+|application\/pdf)[;,]/i;
+
+/**
+ * Whether a URL can be put in a link or a preview: web and blob URLs, and data URLs of previewed types. Links in messages
+ * are not sanitised by the markdown renderer when they are previewed, so this keeps out script URLs among others.
+ */
+export function isSafeFileURL(url: string): boolean {
+  if (/^data:/i.test(url)) return previewedDataURL.test(url);
+  try {
+    // Relative URLs are resolved as web URLs.
+    return ['http:', 'https:', 'blob:'].includes(new URL(url, 'https://localhost').protocol);
+  } catch {
+    return false;
+  }
+}
+
+/** Gets the files linked to in a message, but for those whose URL is not safe to link to. */
+export function getMessageFiles(message: string): NamedFile[] {
+  return [...message.matchAll(fileLink)]
+    .filter(([, , url]) => isSafeFileURL(url))
+    .map(([, name, url]) => ({
+      name,
+      url,
+      mimeType: previewTypes[name.split('.').pop()?.toLowerCase() ?? ''] ?? 'application/octet-stream',
+    }));
+}
+
+/**
+ * Gets the files linked to in the user's messages.
+ * @param messages The loaded messages of the conversation.
+ * @param attached The URLs of the files attached to messages sent this session, by name.
+ */
+export function getConversationFiles(
+  messages: { role: string; message: string }[],
+  attached: Record<string, string>,
+): Map<string, string> {
+  const files = new Map<string, string>();
+  messages
+    .filter((message) => message.role === 'USER')
+    .forEach((message) => getMessageFiles(message.message).forEach(({ name, url }) => files.set(name, url)));
+  Object.entries(attached).forEach(([name, url]) => files.set(name, url));
+  return files;
+}
+
+/** Finds a file attached to the conversation by its path, or failing that by its name alone. */
+export function findConversationFile(files: Map<string, string>, path: string): string | undefined {
+  return files.get(path) ?? files.get(path.split('/').pop() ?? path);
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { Activity, ActivityMessage, ConversationEntry, parseActivities, parseActivityTag } from './parseActivities';
+
+const activity = '[ACTIVITY] Working';
+let nextMinute = 0;
+
+function message(id: string, text: string): ActivityMessage {
+  const timestamp = new Date(Date.UTC(2025, 0, 1, 0, nextMinute++)).toISOString();
+  return { id, message: text, timestamp };
+}
+
+/** The ids of the entries, with the ids of the children of each activity in brackets. */
+function outline(entries: ConversationEntry<ActivityMessage>[]): string[] {
+  const describeActivity = ({ id, children }: Activity): string =>
+    children.length > 0 ? `${id}[${children.map(describeActivity).join(',')}]` : id;
+  return entries.map((entry) => (entry.type === 'message' ? entry.message.id : describeActivity(entry.activity)));
+}
+
+describe('parseActivityTag', () => {
+  it('parses the kind and severity of an activity', () => {
+    expect(parseActivityTag('[ACTIVITY][ERROR][EXECUTION] Failed')).toEqual({
+      kind: 'execution',
+      severity: 'error',
+      parentId: null,
+      body: 'Failed',
+    });
+  });
+
+  it('parses the parent of a subactivity', () => {
+    expect(parseActivityTag('[SUBACTIVITY][a1][THOUGHT] Thinking')).toEqual({
+      kind: 'thought',
+      severity: 'success',
+      parentId: 'a1',
+      body: 'Thinking',
+    });
+  });
+
+  it('ignores messages that are not activities', () => {
+    expect(parseActivityTag('[1] is a footnote')).toBeNull();
+    expect(parseActivityTag('Hello')).toBeNull();
+  });
+});
+
+describe('parseActivities', () => {
+  it('nests subactivities under their parent', () => {
+    const { entries, orphans } = parseActivities([
+      message('m1', 'Hello'),
+      message('a1', activity),
+      message('s1', '[SUBACTIVITY][a1][THOUGHT] Thinking'),
+      message('s2', '[SUBACTIVITY][s1] Deeper'),
+      message('m2', 'Done'),
+    ]);
+    expect(outline(entries)).toEqual(['m1', 'a1[s1[s2]]', 'm2']);
+    expect(orphans).toEqual([]);
+  });
+
+  it('keeps children in the order they were added when they arrive out of order', () => {
+    const { entries } = parseActivities([
+      message('a1', activity),
+      message('s2', '[SUBACTIVITY][a1] Second'),
+      message('s1', '[SUBACTIVITY][a1] First'),
+      message('s3', '[SUBACTIVITY][s2] Under the second'),
+    ]);
+    expect(outline(entries)).toEqual(['a1[s2[s3],s1]']);
+  });
+
+  it('attaches subactivities to a parent that is added after them', () => {
+    const { entries, orphans } = parseActivities([
+      message('s1', '[SUBACTIVITY][a1] Early'),
+      message('s2', '[SUBACTIVITY][s1] Earlier still'),
+      message('a1', activity),
+      message('m1', 'Done'),
+    ]);
+    expect(outline(entries)).toEqual(['a1[s1[s2]]', 'm1']);
+    expect(orphans).toEqual([]);
+  });
+
+  it('shows subactivities whose parent is never added at the top level', () => {
+    const { entries, orphans } = parseActivities([
+      message('m1', 'Hello'),
+      message('s1', '[SUBACTIVITY][missing] Lost'),
+      message('s2', '[SUBACTIVITY][s1] Under the lost one'),
+      message('m2', 'Done'),
+    ]);
+    expect(outline(entries)).toEqual(['m1', 's1[s2]', 'm2']);
+    expect(orphans.map((activity) => activity.id)).toEqual(['s1']);
+  });
+
+  it('ends each activity when whatever follows it starts', () => {
+    const messages = [
+      message('a1', activity),
+      message('s1', '[SUBACTIVITY][a1] First'),
+      message('s2', '[SUBACTIVITY][a1] Second'),
+      message('m1', 'Done'),
+    ];
+    const [first] = parseActivities(messages).entries;
+    if (first.type !== 'activity') throw new Error('Expected an activity');
+    expect(first.activity.endedAt).toBe(messages[3].timestamp);
+    expect(first.activity.children.map((child) => child.endedAt)).toEqual([messages[2].timestamp, messages[3].timestamp]);
+  });
+
+  it('leaves the last activity running', () => {
+    const [first] = parseActivities([message('a1', activity)]).entries;
+    expect(first.type === 'activity' && first.activity.endedAt).toBeNull();
+  });
+});
@@ -0,0 +1,144 @@
+// Agents log their activities as conversation messages tagged with a prefix such as `[ACTIVITY]` or
+// `[ACTIVITY][ERROR]`. Subactivities name the activity they belong to, as in `[SUBACTIVITY][<parent id>][THOUGHT]`,
+// and may be nested to any depth. Tags other than the severities are treated as the kind of the activity, so new
+// kinds need no changes here.
+
+export type ActivitySeverity = 'success' | 'info' | 'warn' | 'error';
+
+export type Activity = {
+  id: string;
+  /** The lowercased kind tag, such as 'thought' or 'execution', or 'activity' if there is none. */
+  kind: string;
+  severity: ActivitySeverity;
+  parentId: string | null;
+  body: string;
+  startedAt: string;
+  /** When the next activity or message started, or null while this activity is still running. */
+  endedAt: string | null;
+  children: Activity[];
+};
+
+export type ActivityTag = Pick<Activity, 'kind' | 'severity' | 'parentId' | 'body'>;
+
+export type ActivityMessage = { id: string; message: string; timestamp: string };
+
+export type ConversationEntry<T extends ActivityMessage> =
+  | { type: 'message'; message: T }
+  | { type: 'activity'; activity: Activity };
+
+const severityTags: Record<string, ActivitySeverity> = {
+  SUCCESS: 'success',
+  INFO: 'info',
+  WARN: 'warn',
+  WARNING: 'warn',
+  ERROR: 'error',
+};
+
+const tagsPattern = /^((?:\[[^\]]*])+)(?:\s|$)/;
+
+/**
+ * Parses the tags at the start of a message.
+ * @param message The message as logged.
+ * @returns The activity described by the tags, or null if the message is not an activity.
+ */
+export function parseActivityTag(message: string): ActivityTag | null {
+  const match = tagsPattern.exec(message);
+  if (!match) return null;
+  const tags = match[1].slice(1, -1).split('][');
+  const type = tags.shift()?.toUpperCase();
+  if (type !== 'ACTIVITY' && type !== 'SUBACTIVITY') return null;
+  const parentId = (type === 'SUBACTIVITY' && tags.shift()) || null;
+  let kind = 'activity';
+  let severity: ActivitySeverity = 'success';
+  for (const tag of tags) {
+    const upperTag = tag.toUpperCase();
+    if (upperTag in severityTags) {
+      severity = severityTags[upperTag];
+    } else if (kind === 'activity') {
+      kind = tag.toLowerCase();
+    }
+  }
+  return { kind, severity, parentId, body: message.slice(match[0].length) };
+}
+
+/**
+ * Builds the activity tree of a conversation from its messages, one message at a time.
+ * Subactivities added before their parent are buffered and attached once the parent is added. Until then, they are
+ * kept at the top level where they were added, so that they are shown even if their parent never is.
+ */
+export class ActivityTreeBuilder<T extends ActivityMessage> {
+  private readonly entries: ConversationEntry<T>[] = [];
+  private readonly activities = new Map<string, Activity>();
+  private readonly orphans = new Map<string, Activity[]>();
+
+  add(message: T): void {
+    const tag = parseActivityTag(message.message);
+    if (!tag) {
+      this.entries.push({ type: 'message', message });
+      return;
+    }
+    const activity: Activity = { id: message.id, ...tag, startedAt: message.timestamp, endedAt: null, children: [] };
+    this.activities.set(activity.id, activity);
+    const adopted = this.orphans.get(activity.id);
+    if (adopted) {
+      activity.children.push(...adopted);
+      this.orphans.delete(activity.id);
+    }
+    if (activity.parentId === null) {
+      this.entries.push({ type: 'activity', activity });
+      return;
+    }
+    const parent = this.activities.get(activity.parentId);
+    if (parent) {
+      parent.children.push(activity);
+    } else {
+      this.orphans.set(activity.parentId, [...(this.orphans.get(activity.parentId) ?? []), activity]);
+      this.entries.push({ type: 'activity', activity });
+    }
+  }
+
+  /** Subactivities whose parent has not been added (yet). */
+  get orphanedActivities(): Activity[] {
+    return Array.from(this.orphans.values()).flat();
+  }
+
+  /**
+   * Gets the messages and top-level activities in the order they were added, with the end of every activity derived
+   * from the start of whatever follows it. Subactivities whose parent has not been added are top-level activities.
+   */
+  build(): ConversationEntry<T>[] {
+    const entries = this.entries.filter(
+      (entry) =>
+        entry.type === 'message' || entry.activity.parentId === null || !this.activities.has(entry.activity.parentId),
+    );
+    entries.forEach((entry, index) => {
+      if (entry.type === 'activity') {
+        const next = entries[index + 1];
+        const nextStart = next ? (next.type === 'activity' ? next.activity.startedAt : next.message.timestamp) : null;
+        setEndTimes(entry.activity, nextStart);
+      }
+    });
+    return entries;
+  }
+}
+
+function setEndTimes(activity: Activity, endedAt: string | null): void {
+  activity.endedAt = endedAt;
+  activity.children.forEach((child, index) => {
+    setEndTimes(child, activity.children[index + 1]?.startedAt ?? endedAt);
+  });
+}
+
+/**
+ * Parses a conversation into its messages and activity tree.
+ * @param messages The messages of the conversation, oldest first.
+ * @returns The messages and top-level activities, and any subactivities whose parent is not among the messages, which
+ * are among the top-level activities as well.
+ */
+export function parseActivities<T extends ActivityMessage>(
+  messages: T[],
+): { entries: ConversationEntry<T>[]; orphans: Activity[] } {
+  const builder = new ActivityTreeBuilder<T>();
+  messages.forEach((message) => builder.add(message));
+  return { entries: builder.build(), orphans: builder.orphanedActivities };
+}
@@ -52,6 +52,7 @@ export default function InteractiveConfigContextWrapper({
   const agixt: AGiXTSDK = new AGiXTSDK({
     baseUri: agixtServer,
     apiKey: apiKey,
+    strict: process.env.NEXT_PUBLIC_AGIXT_SDK_STRICT === 'true',
   });
   const openai: OpenAI = new OpenAI({
     apiKey: apiKey.replace('Bearer ', ''),
@@ -6,6 +6,7 @@ import { InteractiveConfigContext, Overrides } from '../InteractiveConfigContext
 import ConversationBar from '../Chat/ChatBar';
 import FormInput from './FormInput';
 import FormOutput from './FormOutput';
+import { ConversationMessage } from '@/lib/sdk';
 
 export default function Form({
   showChatThemeToggles,
@@ -19,8 +20,12 @@ export default function Form({
   const { data: results } = useSWR(
     '/results',
     async () => {
-      const conversations = await Promise.all(uuids.map(async (uuid) => await state.agixt.getConversation(uuid, 5, 1)));
-      return conversations.reduce((obj, conversation, index) => {
+      const conversations = await Promise.all(
+        uuids.map(
+          async (uuid) => (await state.agixt.getConversation({ name: uuid, agentName: state.agent }, { limit: 5 })).messages,
+        ),
+      );
+      return conversations.reduce<Record<string, ConversationMessage[]>>((obj, conversation, index) => {
         obj[uuids[index.toString()]] = conversation;
         return obj;
       }, {});
@@ -3,6 +3,7 @@ import { LuChevronLeft as ChevronLeft, LuChevronRight as ChevronRight } from 're
 import { Card, CardContent } from '@/components/ui/card';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { Button } from '@/components/ui/button';
+import { ConversationMessage } from '@/lib/sdk';
 
 export default function FormOutput({
   results,
@@ -10,7 +11,8 @@ export default function FormOutput({
   selectedUUID,
   setSelectedUUID,
 }: {
-  results: string[];
+  /** The messages of each result, by the UUID it was requested with. */
+  results: Record<string, ConversationMessage[]>;
   showIndex: number;
   selectedUUID: string;
   setSelectedUUID: (uuid: string) => void;
@@ -44,7 +46,7 @@ export default function FormOutput({
   };
 
   return (
-    results.length > 0 && (
+    Object.keys(results).length > 0 && (
       <Card className='overflow-y-auto flex-grow mx-4 mb-4'>
         <div className='text-center px-12 py-2 text-sm'>
           {process.env.NEXT_PUBLIC_APP_NAME} may provide inaccurate or inappropriate responses, may break character and comes
@@ -81,7 +83,7 @@ export default function FormOutput({
             </Tooltip>
           </TooltipProvider>
 
-          <span>{`${resultNum + 1}/${results.length}`}</span>
+          <span>{`${resultNum + 1}/${Object.keys(results).length}`}</span>
 
           <TooltipProvider>
             <Tooltip>
@@ -33,6 +33,7 @@ export type UIProps = {
   showChatThemeToggles?: boolean;
   enableFileUpload?: boolean;
   enableVoiceInput?: boolean;
+  enableStreaming?: boolean;
   alternateBackground?: 'primary' | 'secondary';
   footerMessage?: string;
   showOverrideSwitchesCSV?: string;
@@ -271,6 +272,7 @@ const Interactive = (props: Overrides & UIProps): React.JSX.Element => {
           alternateBackground={props.alternateBackground}
           enableFileUpload={props.enableFileUpload}
           enableVoiceInput={props.enableVoiceInput}
+          enableStreaming={props.enableStreaming}
           showOverrideSwitchesCSV={props.showOverrideSwitchesCSV}
         />
       )}
@@ -299,6 +301,7 @@ const InteractiveAGiXT = ({
       showSelectorsCSV: process.env.NEXT_PUBLIC_AGIXT_SHOW_SELECTION,
       enableVoiceInput: process.env.NEXT_PUBLIC_AGIXT_VOICE_INPUT_ENABLED === 'true',
       enableFileUpload: process.env.NEXT_PUBLIC_AGIXT_FILE_UPLOAD_ENABLED === 'true',
+      enableStreaming: process.env.NEXT_PUBLIC_AGIXT_STREAMING_ENABLED === 'true',
       enableMessageDeletion: process.env.NEXT_PUBLIC_AGIXT_ALLOW_MESSAGE_DELETION === 'true',
       enableMessageEditing: process.env.NEXT_PUBLIC_AGIXT_ALLOW_MESSAGE_EDITING === 'true',
       ...uiConfig,
@@ -11,6 +11,7 @@ import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { toastError } from '@/lib/errors';
 
 export default function ConversationSelector(): React.JSX.Element {
   const [dropDownOpen, setDropDownOpen] = useState(false);
@@ -37,21 +38,24 @@ export default function ConversationSelector(): React.JSX.Element {
 
   const handleRenameConversation = async (magic = true): Promise<void> => {
     if (state.overrides.conversation) {
-      const response = await state.agixt.renameConversation(
-        state.agent,
-        state.overrides.conversation,
-        magic ? '-' : changedConversation,
-      );
-      await mutate('/conversation');
-      if (!response.startsWith('Error')) {
+      try {
+        await state.agixt.renameConversation(state.agent, state.overrides.conversation, magic ? '-' : changedConversation);
         setOpenRenameConversation(false);
+      } catch (error) {
+        toastError('Unable to Rename Conversation', error);
       }
+      await mutate('/conversation');
     }
   };
 
   const handleDeleteConversation = async (): Promise<void> => {
     if (state.overrides.conversation) {
-      await state.agixt.deleteConversation(state.overrides.conversation);
+      try {
+        await state.agixt.deleteConversation(state.overrides.conversation);
+      } catch (error) {
+        toastError('Unable to Delete Conversation', error);
+        return;
+      }
       await mutate('/conversation');
       state.mutate((oldState) => ({
         ...oldState,
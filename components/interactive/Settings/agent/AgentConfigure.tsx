@@ -8,6 +8,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
+import { toastError } from '@/lib/errors';
 
 export default function AgentConfigure() {
   const context = useInteractiveConfig();
@@ -26,11 +27,15 @@ export default function AgentConfigure() {
   }, [agentData]);
 
   const handleConfigure = async () => {
-    await context.agixt.updateAgentSettings(context.agent, {
-      provider: provider,
-      ...agentState,
-    });
-    mutate();
+    try {
+      await context.agixt.updateAgentSettings(context.agent, {
+        provider: provider,
+        ...agentState,
+      });
+      mutate();
+    } catch (error) {
+      toastError('Unable to Update Agent', error);
+    }
   };
 
   const renderFields = (dictionary) => {
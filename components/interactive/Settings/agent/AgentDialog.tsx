@@ -9,6 +9,7 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useInteractiveConfig } from '@/components/interactive/InteractiveConfigContext';
 import { useProviders } from '../../hooks';
+import { toastError } from '@/lib/errors';
 export function AgentDialog({ open, setOpen }: { open: boolean; setOpen: (open: boolean) => void }) {
   const router = useRouter();
   const context = useInteractiveConfig();
@@ -18,24 +19,32 @@ export function AgentDialog({ open, setOpen }: { open: boolean; setOpen: (open:
   const [provider, setProvider] = useState('local');
 
   const handleNewAgent = async () => {
-    await context.agixt.addAgent(newAgentName, { provider: provider });
-    setOpen(false);
-    router.push(`/agent?agent=${newAgentName}`);
+    try {
+      await context.agixt.addAgent(newAgentName, { provider: provider });
+      setOpen(false);
+      router.push(`/agent?agent=${newAgentName}`);
+    } catch (error) {
+      toastError('Unable to Create Agent', error);
+    }
   };
 
   const handleAgentImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(event.target.files || []);
-    for (const file of files) {
-      const fileContent = await file.text();
-      if (newAgentName === '') {
-        const fileName = file.name.replace('.json', '');
-        setNewAgentName(fileName);
+    try {
+      for (const file of files) {
+        const fileContent = await file.text();
+        if (newAgentName === '') {
+          const fileName = file.name.replace('.json', '');
+          setNewAgentName(fileName);
+        }
+        const settings = JSON.parse(fileContent);
+        await context.agixt.addAgent(newAgentName, settings);
+        router.push(`/agent?agent=${newAgentName}`);
       }
-      const settings = JSON.parse(fileContent);
-      await context.agixt.addAgent(newAgentName, settings);
-      router.push(`/agent?agent=${newAgentName}`);
+      setOpen(false);
+    } catch (error) {
+      toastError('Unable to Import Agent', error);
     }
-    setOpen(false);
   };
 
   return (
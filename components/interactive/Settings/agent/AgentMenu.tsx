@@ -7,6 +7,7 @@ import { useInteractiveConfig } from '@/components/interactive/InteractiveConfig
 import { Card, CardContent } from '@/components/ui/card';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
+import { toastError } from '@/lib/errors';
 
 export default function AgentMenu() {
   const context = useInteractiveConfig();
@@ -16,8 +17,12 @@ export default function AgentMenu() {
 
   const handleToggleAll = async () => {
     const allEnabled = Object.values(agentData.commands).every((command) => command);
-    await context.agixt.toggleCommand(context.agent, '*', !allEnabled);
-    mutate(`/agent/commands?agent=${context.agent}`);
+    try {
+      await context.agixt.toggleCommand(context.agent, '*', !allEnabled);
+      mutate(`/agent/commands?agent=${context.agent}`);
+    } catch (error) {
+      toastError('Unable to Toggle Commands', error);
+    }
   };
 
   return (
@@ -44,8 +49,12 @@ function AgentMenuItem({ name, enabled }) {
   const context = useInteractiveConfig();
 
   const handleToggle = async () => {
-    await context.agixt.toggleCommand(context.agent, name, !enabled);
-    mutate(`/agent/commands?agent=${context.agent}`);
+    try {
+      await context.agixt.toggleCommand(context.agent, name, !enabled);
+      mutate(`/agent/commands?agent=${context.agent}`);
+    } catch (error) {
+      toastError('Unable to Toggle Command', error, name);
+    }
   };
 
   return (
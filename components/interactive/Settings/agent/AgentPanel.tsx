@@ -10,6 +10,7 @@ import { useActiveCompany, useAgent, useCompany } from '../../hooks';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { useInteractiveConfig } from '@/components/interactive/InteractiveConfigContext';
+import { toastError } from '@/lib/errors';
 
 export default function AgentPanel({ setShowCreateDialog }) {
   const [renaming, setRenaming] = useState(false);
@@ -31,7 +32,7 @@ export default function AgentPanel({ setShowCreateDialog }) {
         });
         mutate('/agents');
       } catch (error) {
-        console.error('Failed to rename agent:', error);
+        toastError('Unable to Rename Agent', error);
       }
     } else if (creating) {
       try {
@@ -51,7 +52,7 @@ export default function AgentPanel({ setShowCreateDialog }) {
         mutate('/agents');
         setCreating(false);
       } catch (error) {
-        console.error('Failed to create agent:', error);
+        toastError('Unable to Create Agent', error);
       }
     }
   };
@@ -62,7 +63,7 @@ export default function AgentPanel({ setShowCreateDialog }) {
       mutate('/agents');
       router.push(pathname);
     } catch (error) {
-      console.error('Failed to delete agent:', error);
+      toastError('Unable to Delete Agent', error);
     }
   };
 
@@ -77,7 +78,7 @@ export default function AgentPanel({ setShowCreateDialog }) {
       element.click();
       document.body.removeChild(element);
     } catch (error) {
-      console.error('Failed to export agent:', error);
+      toastError('Unable to Export Agent', error);
     }
   };
 
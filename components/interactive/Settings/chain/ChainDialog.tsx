@@ -7,6 +7,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useInteractiveConfig } from '@/components/interactive/InteractiveConfigContext';
+import { toastError } from '@/lib/errors';
 
 export function ChainDialog({ open, setOpen }) {
   const router = useRouter();
@@ -14,25 +15,33 @@ export function ChainDialog({ open, setOpen }) {
   const [newChainName, setNewChainName] = useState('');
 
   const handleNewChain = async () => {
-    await context.agixt.addChain(newChainName);
-    router.push(`/settings/chains?chain=${newChainName}`);
-    setOpen(false);
+    try {
+      await context.agixt.addChain(newChainName);
+      router.push(`/settings/chains?chain=${newChainName}`);
+      setOpen(false);
+    } catch (error) {
+      toastError('Unable to Create Chain', error);
+    }
   };
 
   const handleChainImport = async (event) => {
     const files = Array.from(event.target.files);
-    for (const file of files) {
-      const fileContent = await file.text();
-      if (newChainName === '') {
-        const filename = file.name.replace('.json', '');
-        setNewChainName(filename);
+    try {
+      for (const file of files) {
+        const fileContent = await file.text();
+        if (newChainName === '') {
+          const filename = file.name.replace('.json', '');
+          setNewChainName(filename);
+        }
+        const steps = JSON.parse(fileContent);
+        await context.agixt.addChain(newChainName);
+        await context.agixt.importChain(newChainName, steps);
+        router.push(`/chains?chain=${newChainName}`);
       }
-      const steps = JSON.parse(fileContent);
-      await context.agixt.addChain(newChainName);
-      await context.agixt.importChain(newChainName, steps);
-      router.push(`/chains?chain=${newChainName}`);
+      setOpen(false);
+    } catch (error) {
+      toastError('Unable to Import Chain', error);
     }
-    setOpen(false);
   };
 
   return (
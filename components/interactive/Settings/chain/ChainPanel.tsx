@@ -9,6 +9,8 @@ import { Button } from '@/components/ui/button';
 import { useInteractiveConfig } from '@/components/interactive/InteractiveConfigContext';
 import { useChain } from '../../hooks';
 import ChainSteps from './ChainSteps';
+import { toChainStepPayload } from '@/lib/sdk';
+import { toastError } from '@/lib/errors';
 export default function ChainPanel({ showCreateDialog, setShowCreateDialog }) {
   const [renaming, setRenaming] = useState(false);
   const [newName, setNewName] = useState('');
@@ -27,12 +29,22 @@ export default function ChainPanel({ showCreateDialog, setShowCreateDialog }) {
   }, [renaming, searchParams]);
 
   const handleDelete = async () => {
-    await context.agixt.deleteChain(searchParams.get('chain') ?? '');
+    try {
+      await context.agixt.deleteChain(searchParams.get('chain') ?? '');
+    } catch (error) {
+      toastError('Unable to Delete Chain', error);
+      return;
+    }
     router.push(pathname);
   };
 
   const handleRename = async () => {
-    await context.agixt.renameChain(searchParams.get('chain') ?? '', newName);
+    try {
+      await context.agixt.renameChain(searchParams.get('chain') ?? '', newName);
+    } catch (error) {
+      toastError('Unable to Rename Chain', error);
+      return;
+    }
     setRenaming(false);
     const current = new URLSearchParams(Array.from(searchParams.entries()));
     current.set('chain', newName);
@@ -42,9 +54,15 @@ export default function ChainPanel({ showCreateDialog, setShowCreateDialog }) {
   };
 
   const handleExportChain = async () => {
-    const chainData = await context.agixt.getChain(searchParams.get('chain') ?? '');
+    let chainData;
+    try {
+      chainData = await context.agixt.getChain(searchParams.get('chain') ?? '');
+    } catch (error) {
+      toastError('Unable to Export Chain', error);
+      return;
+    }
     const element = document.createElement('a');
-    const file = new Blob([JSON.stringify(chainData.steps)], { type: 'application/json' });
+    const file = new Blob([JSON.stringify(chainData.steps.map(toChainStepPayload))], { type: 'application/json' });
     element.href = URL.createObjectURL(file);
     element.download = `${searchParams.get('chain')}.json`;
     document.body.appendChild(element);
@@ -14,8 +14,10 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
 import { useInteractiveConfig } from '@/components/interactive/InteractiveConfigContext';
+import { AGiXTError } from '@/lib/sdk';
+import { toastError } from '@/lib/errors';
 
-const ignoreArgs = [
+export const ignoreArgs = [
   'prompt_name',
   'prompt_category',
   'command_name',
@@ -45,7 +47,6 @@ export default function ChainStep({
   step_type: string;
   step_object: any;
 }) {
-  console.log('STEP', step, step_type, step_object);
   const [agentName, setAgentName] = useState(agent_name);
   const [targetName, setTargetName] = useState(
     step_type === 'Prompt'
@@ -62,23 +63,10 @@ export default function ChainStep({
 
   const searchParams = useSearchParams();
 
-  useEffect(() => {
-    console.log('Targetname changed to ', targetName);
-  }, [targetName]);
   const { data: agentData } = useSWR('/agents', async () =>
-    ((await context.agixt.getAgents()) as any[])
-      .map((agent: any) => agent.name)
-      .sort((a: any, b: any) => {
-        const nameA = typeof a.name === 'string' ? a.name.trim().toLowerCase() : '';
-        const nameB = typeof b.name === 'string' ? b.name.trim().toLowerCase() : '';
-        if (nameA < nameB) {
-          return -1;
-        }
-        if (nameA > nameB) {
-          return 1;
-        }
-        return 0;
-      }),
+    (await context.agixt.getAgents())
+      .map((agent) => agent.name)
+      .sort((a, b) => a.trim().toLowerCase().localeCompare(b.trim().toLowerCase())),
   );
 
   const step_types = useMemo(
@@ -104,31 +92,26 @@ export default function ChainStep({
   useEffect(() => {
     (async (): Promise<void> => {
       let newArgs;
-      if (stepType === 'Prompt') {
-        newArgs = await context.agixt.getPromptArgs(targetName, targetCategory);
-      } else if (stepType === 'Chain') {
-        newArgs = await context.agixt.getChainArgs(targetName);
-      } else {
-        newArgs = await context.agixt.getCommandArgs(targetName);
-        if (typeof newArgs === 'string' && newArgs.includes('AxiosError')) {
-          setArgs({});
-          return;
+      try {
+        if (stepType === 'Prompt') {
+          newArgs = await context.agixt.getPromptArgs(targetName, targetCategory);
+        } else if (stepType === 'Chain') {
+          newArgs = await context.agixt.getChainArgs(targetName);
+        } else {
+          newArgs = Object.keys(await context.agixt.getCommandArgs(targetName));
         }
-        newArgs = Object.keys(newArgs);
-      }
-      if (newArgs.includes('AxiosError')) {
+      } catch (error) {
+        if (!(error instanceof AGiXTError)) throw error;
         setArgs({});
-      } else {
-        console.log(newArgs);
-        const filteredArr = newArgs.filter((x) => !ignoreArgs.includes(x.name));
-
-        const newObj = filteredArr.reduce((acc, key) => {
-          acc[key] = '';
-          return acc;
-        }, {});
-        console.log('New args will be', newArgs, newObj);
-        setArgs(newObj);
+        return;
       }
+      const filteredArr = newArgs.filter((x) => !ignoreArgs.includes(x));
+
+      const newObj = filteredArr.reduce<Record<string, string>>((acc, key) => {
+        acc[key] = '';
+        return acc;
+      }, {});
+      setArgs(newObj);
     })();
   }, [stepType, targetName, targetCategory]);
 
@@ -139,18 +122,21 @@ export default function ChainStep({
       setTargetCategory('Default');
     }
   }, [step_object.prompt_category]);
-  useEffect(() => {
-    console.log('Args changed to', args);
-  }, [args]);
-  const handleIncrement = async (): Promise<void> => {
-    await context.agixt.moveStep(searchParams.get('chain') ?? '', step, Number(step) + 1);
-    mutate(`/chain?chain=${searchParams.get('chain')}`);
+  // Makes a change to the chain and refreshes it, or tells the user why the change failed.
+  const changeChain = async (action: string, change: () => Promise<unknown>): Promise<void> => {
+    try {
+      await change();
+      mutate(`/chain?chain=${searchParams.get('chain')}`);
+    } catch (error) {
+      toastError(`Unable to ${action}`, error);
+    }
   };
 
-  const handleDecrement = async (): Promise<void> => {
-    await context.agixt.moveStep(searchParams.get('chain') ?? '', step, Number(step) - 1);
-    mutate(`/chain?chain=${searchParams.get('chain')}`);
-  };
+  const handleIncrement = (): Promise<void> =>
+    changeChain('Move Step', () => context.agixt.moveStep(searchParams.get('chain') ?? '', step, Number(step) + 1));
+
+  const handleDecrement = (): Promise<void> =>
+    changeChain('Move Step', () => context.agixt.moveStep(searchParams.get('chain') ?? '', step, Number(step) - 1));
 
   const handleSave = async (): Promise<void> => {
     const nameObj = {};
@@ -162,15 +148,14 @@ export default function ChainStep({
     } else {
       nameObj['chain_name'] = targetName;
     }
-    await context.agixt.updateStep(searchParams.get('chain') ?? '', step, agentName, stepType, { ...args, ...nameObj });
-    mutate(`/chain?chain=${searchParams.get('chain')}`);
-    setModified(false);
+    await changeChain('Save Step', async () => {
+      await context.agixt.updateStep(searchParams.get('chain') ?? '', step, agentName, stepType, { ...args, ...nameObj });
+      setModified(false);
+    });
   };
 
-  const handleDelete = async (): Promise<void> => {
-    await context.agixt.deleteStep(searchParams.get('chain') ?? '', step);
-    mutate(`/chain?chain=${searchParams.get('chain')}`);
-  };
+  const handleDelete = (): Promise<void> =>
+    changeChain('Delete Step', () => context.agixt.deleteStep(searchParams.get('chain') ?? '', step));
 
   return (
     <div className='space-y-4'>
@@ -198,7 +183,6 @@ export default function ChainStep({
           <Select
             value={stepType.toString()}
             onValueChange={(value) => {
-              console.log(value);
               setTargetName('');
               setTargetCategory('Default');
               setStepType(value);
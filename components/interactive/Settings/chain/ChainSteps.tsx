@@ -7,6 +7,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { useInteractiveConfig } from '@/components/interactive/InteractiveConfigContext';
 import { useChain } from '../../hooks';
 import { useSearchParams } from 'next/navigation';
+import { toastError } from '@/lib/errors';
 
 export default function ChainSteps() {
   const searchParams = useSearchParams();
@@ -15,19 +16,23 @@ export default function ChainSteps() {
 
   const handleAdd = async () => {
     const lastStep = chainData.steps.length === 0 ? undefined : chainData.steps[chainData.steps.length - 1];
-    await context.agixt.addStep(
-      chainData.chainName,
-      chainData.steps.length + 1,
-      lastStep ? lastStep.agentName : context.agent,
-      lastStep ? lastStep?.prompt?.promptCategory : 'Prompt',
-      lastStep
-        ? lastStep.prompt
-        : {
-            prompt_name: 'Think About It',
-            prompt_category: 'Default',
-          },
-    );
-    mutate();
+    try {
+      await context.agixt.addStep(
+        chainData.chainName,
+        chainData.steps.length + 1,
+        lastStep ? lastStep.agentName : context.agent,
+        lastStep ? lastStep?.prompt?.promptCategory : 'Prompt',
+        lastStep
+          ? lastStep.prompt
+          : {
+              prompt_name: 'Think About It',
+              prompt_category: 'Default',
+            },
+      );
+      mutate();
+    } catch (error) {
+      toastError('Unable to Add Step', error);
+    }
   };
 
   return (
@@ -11,6 +11,7 @@ import { Switch } from '@/components/ui/switch';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useInteractiveConfig } from '@/components/interactive/InteractiveConfigContext';
 import { usePromptCategories } from '@/components/interactive/hooks';
+import { toastError } from '@/lib/errors';
 
 export default function PromptDialog({ open, setOpen }: { open: boolean; setOpen: (open: boolean) => void }) {
   const router = useRouter();
@@ -23,22 +24,30 @@ export default function PromptDialog({ open, setOpen }: { open: boolean; setOpen
   const [promptBody, setPromptBody] = useState('');
 
   const handleNewPrompt = async () => {
-    await context.agixt.addPrompt(newPromptName, promptBody, promptCategory);
-    setOpen(false);
-    router.push(`/prompt?category=${promptCategory}&prompt=${newPromptName}`);
+    try {
+      await context.agixt.addPrompt(newPromptName, promptBody, promptCategory);
+      setOpen(false);
+      router.push(`/prompt?category=${promptCategory}&prompt=${newPromptName}`);
+    } catch (error) {
+      toastError('Unable to Create Prompt', error);
+    }
   };
 
   const handleImportPrompt = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(event.target.files || []);
-    for (const file of files) {
-      const fileContent = await file.text();
-      if (newPromptName === '') {
-        const fileName = file.name.replace('.json', '');
-        setNewPromptName(fileName);
+    try {
+      for (const file of files) {
+        const fileContent = await file.text();
+        if (newPromptName === '') {
+          const fileName = file.name.replace('.json', '');
+          setNewPromptName(fileName);
+        }
+        await context.agixt.addPrompt(newPromptName, fileContent, promptCategory);
+        setOpen(false);
+        router.push(`/settings/prompts?category=${promptCategory}&prompt=${newPromptName}`);
       }
-      await context.agixt.addPrompt(newPromptName, fileContent, promptCategory);
-      setOpen(false);
-      router.push(`/settings/prompts?category=${promptCategory}&prompt=${newPromptName}`);
+    } catch (error) {
+      toastError('Unable to Import Prompt', error);
     }
   };
 
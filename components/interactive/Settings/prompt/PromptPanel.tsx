@@ -9,6 +9,7 @@ import { useInteractiveConfig } from '@/components/interactive/InteractiveConfig
 import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import NewPromptDialog from './PromptDialog';
+import { toastError } from '@/lib/errors';
 
 export default function PromptPanel() {
   const context = useInteractiveConfig();
@@ -29,17 +30,27 @@ export default function PromptPanel() {
   }, [promptData]);
 
   const handleDelete = async () => {
-    await context.agixt.deletePrompt(searchParams.get('prompt') ?? '', searchParams.get('category') ?? 'Default');
+    try {
+      await context.agixt.deletePrompt(searchParams.get('prompt') ?? '', searchParams.get('category') ?? 'Default');
+    } catch (error) {
+      toastError('Unable to Delete Prompt', error);
+      return;
+    }
     mutate(`/prompts?category=${searchParams.get('category')}`);
     router.push(pathname);
   };
 
   const handleSave = async () => {
-    await context.agixt.updatePrompt(
-      searchParams.get('prompt') ?? '',
-      promptBody,
-      searchParams.get('category') ?? 'Default',
-    );
+    try {
+      await context.agixt.updatePrompt(
+        searchParams.get('prompt') ?? '',
+        promptBody,
+        searchParams.get('category') ?? 'Default',
+      );
+    } catch (error) {
+      toastError('Unable to Save Prompt', error);
+      return;
+    }
     mutate(`/prompt?category=${searchParams.get('category')}&prompt=${searchParams.get('prompt')}`);
     setHasChanges(false);
   };
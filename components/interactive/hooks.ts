@@ -35,6 +35,8 @@ import {
 import { z } from 'zod';
 import log from '../jrg/next-log/log';
 import axios from 'axios';
+import { CompanyDetails, InvitationDetails } from '@/lib/sdk';
+import { ConversationBranch, loadConversationBranches } from './Chat/conversationBranches';
 
 // ============================================================================
 // Utility Functions
@@ -83,7 +85,7 @@ export function useAgent(
   name?: string,
 ): SWRResponse<{
   agent: Agent | null;
-  commands: string[];
+  commands: Record<string, boolean>;
 }> {
   const { data: companies } = useCompanies();
   const state = useContext(InteractiveConfigContext);
@@ -104,9 +106,9 @@ export function useAgent(
   log([`GQL useAgent() SEARCH NAME: ${searchName}`], {
     client: 3,
   });
-  return useSWR<{ agent: Agent | null; commands: string[] }>(
+  return useSWR<{ agent: Agent | null; commands: Record<string, boolean> }>(
     [`/agent?name=${searchName}`, companies, withSettings],
-    async (): Promise<{ agent: Agent | null; commands: string[] }> => {
+    async (): Promise<{ agent: Agent | null; commands: Record<string, boolean> }> => {
       try {
         if (withSettings) {
           const client = createGraphQLClient();
@@ -120,7 +122,7 @@ export function useAgent(
           });
           return AgentSchema.parse(response.agent);
         } else {
-          const toReturn = { agent: foundEarly, commands: [] };
+          const toReturn = { agent: foundEarly, commands: {} };
           if (companies?.length && !toReturn.agent) {
             for (const company of companies) {
               log(['GQL useAgent() Checking Company', company], {
@@ -144,10 +146,10 @@ export function useAgent(
         log(['GQL useAgent() Error', error], {
           client: 1,
         });
-        return { agent: null, commands: [] };
+        return { agent: null, commands: {} };
       }
     },
-    { fallbackData: { agent: null, commands: [] } },
+    { fallbackData: { agent: null, commands: {} } },
   );
 }
 
@@ -560,9 +562,19 @@ export function useConversations(): SWRResponse<ConversationEdge[]> {
     { fallbackData: [] },
   );
 }
+
+/**
+ * Hook to fetch the branches forked from conversations in this browser
+ * @returns SWR response containing array of conversation branches
+ */
+export function useConversationBranches(): SWRResponse<ConversationBranch[]> {
+  return useSWR<ConversationBranch[]>('/conversation/branches', async () => loadConversationBranches(), {
+    fallbackData: [],
+  });
+}
 export function useOldCompanies() {
   const state = useContext(InteractiveConfigContext);
-  return useSWR<string[]>(
+  return useSWR<CompanyDetails[]>(
     `/companies`,
     async () => {
       return await state.agixt.getCompanies();
@@ -575,7 +587,7 @@ export function useOldCompanies() {
 
 export function useOldInvitations(company_id?: string) {
   const state = useContext(InteractiveConfigContext);
-  return useSWR<string[]>(
+  return useSWR<InvitationDetails[]>(
     company_id ? `/invitations/${company_id}` : '/invitations',
     async () => await state.agixt.getInvitations(company_id),
     {
@@ -586,7 +598,7 @@ export function useOldInvitations(company_id?: string) {
 export function useOldActiveCompany() {
   const state = useContext(InteractiveConfigContext);
   const { data: companyData } = useCompany();
-  return useSWR<string[]>(
+  return useSWR<(CompanyDetails & { my_role?: number }) | null>(
     [`/companies`, companyData?.id ?? null],
     async () => {
       const companies = await state.agixt.getCompanies();
@@ -596,7 +608,7 @@ export function useOldActiveCompany() {
         },
       });
       console.log('ACTIVE COMPANY USER', user);
-      const target = companies.filter((company) => company.id === companyData.id)[0];
+      const target: CompanyDetails & { my_role?: number } = companies.filter((company) => company.id === companyData.id)[0];
       console.log('ACTIVE COMPANY TARGET', target);
       console.log(
         'USER COMPANY',
@@ -607,7 +619,7 @@ export function useOldActiveCompany() {
       return target;
     },
     {
-      fallbackData: [],
+      fallbackData: null,
     },
   );
 }
@@ -32,17 +32,9 @@ import { Badge } from '@/components/ui/badge';
 import { DataTable } from '@/components/wais/data/data-table';
 import { DataTableColumnHeader } from '@/components/wais/data/data-table-column-header';
 import log from '../../next-log/log';
+import { CompanyUser, InvitationDetails } from '@/lib/sdk';
 
-interface User {
-  email: string;
-  first_name: string;
-  id: string;
-  last_name: string;
-  role: string;
-  role_id: number;
-}
-
-const users_columns: ColumnDef<User>[] = [
+const users_columns: ColumnDef<CompanyUser>[] = [
   {
     id: 'select',
     header: ({ table }) => (
@@ -65,12 +57,12 @@ const users_columns: ColumnDef<User>[] = [
     enableHiding: false,
   },
   {
-    accessorKey: 'first_name',
+    accessorKey: 'firstName',
     header: ({ column }) => <DataTableColumnHeader column={column} title='First Name' />,
     cell: ({ row }) => {
       return (
         <div className='flex space-x-2'>
-          <span className='max-w-[500px] truncate font-medium'>{row.getValue('first_name')}</span>
+          <span className='max-w-[500px] truncate font-medium'>{row.getValue('firstName')}</span>
         </div>
       );
     },
@@ -79,12 +71,12 @@ const users_columns: ColumnDef<User>[] = [
     },
   },
   {
-    accessorKey: 'last_name',
+    accessorKey: 'lastName',
     header: ({ column }) => <DataTableColumnHeader column={column} title='Last Name' />,
     cell: ({ row }) => {
       return (
         <div className='flex w-[100px] items-center'>
-          <span>{row.getValue('last_name')}</span>
+          <span>{row.getValue('lastName')}</span>
         </div>
       );
     },
@@ -171,18 +163,7 @@ const ROLES = [
 ];
 
 const AUTHORIZED_ROLES = [0, 1, 2];
-interface Invitation {
-  id: string;
-  company_id: string;
-  email: string;
-  inviter_id: string;
-  role_id: number;
-  is_accepted: boolean;
-  created_at: string;
-  invitation_link: string;
-}
-
-export const invitations_columns: ColumnDef<Invitation>[] = [
+export const invitations_columns: ColumnDef<InvitationDetails>[] = [
   {
     id: 'select',
     header: ({ table }) => (
@@ -220,7 +201,7 @@ export const invitations_columns: ColumnDef<Invitation>[] = [
     },
   },
   {
-    accessorKey: 'role_id',
+    accessorKey: 'roleId',
     header: ({ column }) => <DataTableColumnHeader column={column} title='Role' />,
     cell: ({ row }) => {
       const roleMap = {
@@ -230,7 +211,7 @@ export const invitations_columns: ColumnDef<Invitation>[] = [
       };
       return (
         <div className='flex w-[100px] items-center'>
-          <span>{roleMap[row.getValue('role_id') as keyof typeof roleMap]}</span>
+          <span>{roleMap[row.getValue('roleId') as keyof typeof roleMap]}</span>
         </div>
       );
     },
@@ -242,10 +223,10 @@ export const invitations_columns: ColumnDef<Invitation>[] = [
     },
   },
   {
-    accessorKey: 'is_accepted',
+    accessorKey: 'isAccepted',
     header: ({ column }) => <DataTableColumnHeader column={column} title='Status' />,
     cell: ({ row }) => {
-      const isAccepted = row.getValue('is_accepted');
+      const isAccepted = row.getValue('isAccepted');
       return (
         <div className='flex w-[100px] items-center'>
           <Badge variant={isAccepted ? 'default' : 'secondary'}>
@@ -260,10 +241,10 @@ export const invitations_columns: ColumnDef<Invitation>[] = [
     },
   },
   {
-    accessorKey: 'created_at',
+    accessorKey: 'createdAt',
     header: ({ column }) => <DataTableColumnHeader column={column} title='Sent Date' />,
     cell: ({ row }) => {
-      const date = new Date(row.getValue('created_at'));
+      const date = new Date(row.getValue('createdAt'));
       const formattedDate = date.toLocaleDateString('en-US', {
         year: 'numeric',
         month: 'short',
@@ -283,6 +264,7 @@ export const invitations_columns: ColumnDef<Invitation>[] = [
     id: 'actions',
     cell: ({ row }) => {
       const router = useRouter();
+      const { invitationLink } = row.original;
 
       const copyInviteLink = (link: string) => {
         navigator.clipboard.writeText(link);
@@ -300,9 +282,9 @@ export const invitations_columns: ColumnDef<Invitation>[] = [
           <DropdownMenuContent align='end' className='w-[160px]'>
             <DropdownMenuLabel>Actions</DropdownMenuLabel>
             <DropdownMenuSeparator />
-            <DropdownMenuItem onClick={() => copyInviteLink(row.original.invitation_link)}>
-              Copy Invite Link
-            </DropdownMenuItem>
+            {invitationLink && (
+              <DropdownMenuItem onClick={() => copyInviteLink(invitationLink)}>Copy Invite Link</DropdownMenuItem>
+            )}
             <DropdownMenuItem onSelect={() => router.push(`/invitation/${row.original.id}`)}>View Details</DropdownMenuItem>
             <DropdownMenuSeparator />
             <DropdownMenuItem
@@ -339,7 +321,7 @@ export const Team = () => {
   const handleConfirm = async () => {
     if (renaming) {
       try {
-        const companyId = activeCompany.id;
+        const companyId = activeCompany?.id;
         await axios.put(
           `${process.env.NEXT_PUBLIC_AGIXT_SERVER}/v1/companies/${companyId}`,
           { name: newName },
@@ -392,7 +374,7 @@ export const Team = () => {
         {
           email: email,
           role_id: parseInt(roleId),
-          company_id: activeCompany.id,
+          company_id: activeCompany?.id,
         },
         {
           headers: {
@@ -1,23 +1,30 @@
 import React, { Children, PropsWithChildren } from 'react';
 import { LuX } from 'react-icons/lu';
-import { DropZoneProvider, useDropZone } from './DropZoneContext';
+import { DropZoneProvider, FileLimits, FileRejection, useDropZone } from './DropZoneContext';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 
-interface DropZoneProps {
+interface DropZoneProps extends FileLimits {
   onUpload: (files: File[]) => void;
+  onReject?: (rejections: FileRejection[]) => void;
   [key: string]: any;
 }
 
 const DropZone: React.FC<PropsWithChildren<DropZoneProps>> & {
   Active: React.FC<PropsWithChildren>;
-} = ({ children, onUpload, className, ...props }) => {
+} = ({ children, onUpload, onReject, allowList, blockList, maxFileSize, className, ...props }) => {
   const activeChildProvided = Children.toArray(children).some(
     (child) => React.isValidElement(child) && child.props['data-type'] === 'active-dropzone',
   );
 
   return (
-    <DropZoneProvider onUpload={onUpload}>
+    <DropZoneProvider
+      onUpload={onUpload}
+      onReject={onReject}
+      allowList={allowList}
+      blockList={blockList}
+      maxFileSize={maxFileSize}
+    >
       <div className={cn('relative', className)} {...props}>
         {!activeChildProvided && <DropZone.Active />}
         {children}
@@ -20,10 +20,25 @@ export const useDropZone = () => {
   return context;
 };
 
-interface DropZoneProviderProps {
-  onUpload: (files: File[]) => void;
+/**
+ * The files a drop zone accepts. Types are MIME types, matched exactly or by their first part as in image/*, and
+ * either allowList or blockList can be given. Sizes are in bytes.
+ */
+export interface FileLimits {
   allowList?: string[];
   blockList?: string[];
+  maxFileSize?: number;
+}
+
+export interface FileRejection {
+  file: File;
+  reason: string;
+}
+
+interface DropZoneProviderProps extends FileLimits {
+  onUpload: (files: File[]) => void;
+  /** Called with the dropped files that are outside the limits, which are not uploaded. */
+  onReject?: (rejections: FileRejection[]) => void;
   [key: string]: any;
 }
 
@@ -34,16 +49,40 @@ const preventDefault = (e: DragEvent) => {
 
 const defaultBlockList = ['text/plain', 'application/x-msdownload'];
 
+const matchesType = (type: string, patterns: string[]) =>
+  patterns.some((pattern) => (pattern.endsWith('/*') ? type.startsWith(pattern.slice(0, -1)) : type === pattern));
+
+export const formatFileSize = (bytes: number): string => {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  const exponent = Math.min(units.length - 1, Math.floor(Math.log(Math.max(bytes, 1)) / Math.log(1024)));
+  return `${Number((bytes / 1024 ** exponent).toFixed(1))} ${units[exponent]}`;
+};
+
+/** Explains why a file is outside the limits, or returns null if it is within them. */
+export const getFileRejection = (file: File, { allowList, blockList, maxFileSize }: FileLimits): string | null => {
+  if ((allowList && !matchesType(file.type, allowList)) || matchesType(file.type, blockList || defaultBlockList)) {
+    return `${file.name} is not a type of file that can be uploaded.`;
+  }
+  if (maxFileSize !== undefined && file.size > maxFileSize) {
+    return `${file.name} is larger than the ${formatFileSize(maxFileSize)} limit.`;
+  }
+  return null;
+};
+
 const getFileTypeValidation = (files: DataTransferItemList | FileList, allowList?: string[], blockList?: string[]) => {
   const effectiveBlockList = blockList || defaultBlockList;
-  const fileArray = Array.from(files as FileList);
+  // Dragging selected text carries it as an item that is not a file.
+  const fileArray = Array.from(files as FileList).filter((file) => !('kind' in file) || file.kind === 'file');
+  if (fileArray.length === 0) {
+    return { isValid: false, commonFileType: 'various' };
+  }
   let commonFileType = fileArray[0].type;
   for (const file of fileArray) {
     const fileType = file.type;
-    if (allowList && !allowList.includes(fileType)) {
+    if (allowList && !matchesType(fileType, allowList)) {
       return { isValid: false, commonFileType: 'various' };
     }
-    if (effectiveBlockList.includes(fileType)) {
+    if (matchesType(fileType, effectiveBlockList)) {
       return { isValid: false, commonFileType: 'various' };
     }
     if (fileType !== commonFileType) {
@@ -55,8 +94,10 @@ const getFileTypeValidation = (files: DataTransferItemList | FileList, allowList
 
 export const DropZoneProvider: React.FC<PropsWithChildren<DropZoneProviderProps>> = ({
   onUpload,
+  onReject,
   allowList,
   blockList,
+  maxFileSize,
   children,
 }) => {
   if (allowList && blockList) {
@@ -115,20 +156,24 @@ export const DropZoneProvider: React.FC<PropsWithChildren<DropZoneProviderProps>
       setIsDragActive(false);
       setIsOverDropZone(false);
       if (e.dataTransfer?.files && e.dataTransfer.files.length > 0) {
-        const { isValid, commonFileType } = getFileTypeValidation(e.dataTransfer.files, allowList, blockList);
-        setIsValidFileType(isValid);
-        if (isValid) {
-          setFileType(commonFileType);
-          setFileCount(e.dataTransfer.files.length);
-          onUpload(Array.from(e.dataTransfer.files));
-        } else {
-          setFileType('various');
-          setFileCount(e.dataTransfer.files.length);
+        const files = Array.from(e.dataTransfer.files);
+        const rejections = files
+          .map((file) => ({ file, reason: getFileRejection(file, { allowList, blockList, maxFileSize }) }))
+          .filter((rejection): rejection is FileRejection => rejection.reason !== null);
+        const accepted = files.filter((file) => !rejections.some((rejection) => rejection.file === file));
+        setIsValidFileType(rejections.length === 0);
+        setFileType(getFileTypeValidation(e.dataTransfer.files, allowList, blockList).commonFileType);
+        setFileCount(files.length);
+        if (accepted.length > 0) {
+          onUpload(accepted);
+        }
+        if (rejections.length > 0) {
+          onReject?.(rejections);
         }
         e.dataTransfer.clearData();
       }
     },
-    [onUpload, allowList, blockList],
+    [onUpload, onReject, allowList, blockList, maxFileSize],
   );
 
   const handleDragOver = useCallback((e: DragEvent) => {
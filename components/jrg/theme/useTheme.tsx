@@ -3,7 +3,7 @@
 import { useState } from 'react';
 import { setCookie } from 'cookies-next';
 
-const defaultThemes = ['default', 'dark', 'colorblind', 'colorblind-dark'];
+export const defaultThemes = ['default', 'dark', 'colorblind', 'colorblind-dark'];
 
 export const useTheme = (customThemes?: string[], initialTheme?: string) => {
   const [themes, setThemes] = useState(() => {
@@ -0,0 +1,13 @@
+import { getErrorMessage } from './utils';
+import log from '@/components/jrg/next-log/log';
+import { toast } from '@/hooks/use-toast';
+
+/**
+ * Logs an error that could not be recovered from and shows it to the user in a destructive toast.
+ * @param title What could not be done, such as 'Unable to Delete Agent'.
+ * @param details Logged along with the error, such as what it happened to.
+ */
+export function toastError(title: string, error: unknown, ...details: unknown[]): void {
+  log([title, ...details, error], { client: 1 });
+  toast({ title, description: getErrorMessage(error), variant: 'destructive' });
+}
@@ -0,0 +1,485 @@
+import { z } from 'zod';
+import {
+  AgentSchema,
+  ChainSchema,
+  ChainStepPromptSchema,
+  ChainStepSchema,
+  CompanySchema,
+  ConversationEdgeSchema,
+  ConversationMetadataSchema,
+  InvitationSchema,
+  MessageSchema,
+  ProviderSchema,
+} from '@/components/interactive/types';
+
+// ============================================================================
+// REST Payload Schemas
+// ============================================================================
+// These describe the snake_case payloads returned by the AGiXT REST API and are used to validate responses.
+// Objects are passthrough so that fields added by the server are not rejected as contract drift.
+
+export const MessageResponseSchema = z.object({ message: z.string() }).passthrough();
+export const ResponseResponseSchema = z.object({ response: z.string() }).passthrough();
+export const StringListSchema = z.array(z.string());
+// Chains may return the output of their last step or, with all_responses, of every step.
+export const ChainRunResponseSchema = z.unknown();
+
+const RestProviderSchema = z
+  .object({
+    name: z.string(),
+    friendly_name: z.string(),
+    description: z.string(),
+    services: z.unknown(),
+    settings: z.record(z.unknown()),
+  })
+  .passthrough();
+
+const RestAgentSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    status: z.boolean().nullable().optional(),
+    default: z.boolean().optional(),
+    company_id: z.string().nullable().optional(),
+  })
+  .passthrough();
+
+export const AgentConfigSchema = z
+  .object({
+    settings: z.record(z.unknown()),
+    commands: z.record(z.boolean()),
+  })
+  .passthrough();
+
+const RestConversationSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    agent_id: z.string().optional(),
+    has_notifications: z.boolean().optional(),
+    created_at: z.string(),
+    updated_at: z.string(),
+    summary: z.unknown().optional(),
+    attachment_count: z.number().optional(),
+  })
+  .passthrough();
+
+const RestMessageSchema = z
+  .object({
+    id: z.string(),
+    role: z.string(),
+    message: z.string(),
+    timestamp: z.string(),
+    updated_at: z.string().nullable().optional(),
+    updated_by: z.string().nullable().optional(),
+    feedback_received: z.boolean().nullable().optional(),
+  })
+  .passthrough();
+
+const RestChainStepSchema = z
+  .object({
+    step: z.number(),
+    agent_name: z.string(),
+    prompt_type: z.string(),
+    prompt: z.record(z.unknown()),
+  })
+  .passthrough();
+
+const RestChainSchema = z
+  .object({
+    id: z.string(),
+    chain_name: z.string(),
+    steps: z.array(RestChainStepSchema),
+  })
+  .passthrough();
+
+// Memories are kept in their wire format where they round-trip, since importAgentMemories accepts exactly this shape.
+export const MemoryRecordSchema = z
+  .object({
+    text: z.string(),
+    id: z.string().optional(),
+    external_source_name: z.string().optional(),
+    description: z.string().optional(),
+    additional_metadata: z.string().optional(),
+    timestamp: z.string().optional(),
+    relevance_score: z.number().optional(),
+  })
+  .passthrough();
+
+const RestCommandSchema = z
+  .object({
+    friendly_name: z.string(),
+    description: z.string(),
+    command_name: z.string(),
+    command_args: z.record(z.unknown()),
+    enabled: z.boolean().optional(),
+  })
+  .passthrough();
+
+const RestExtensionSchema = z
+  .object({
+    extension_name: z.string(),
+    description: z.string(),
+    settings: z.array(z.string()),
+    commands: z.array(RestCommandSchema),
+  })
+  .passthrough();
+
+const RestCompanyUserSchema = z
+  .object({
+    id: z.string(),
+    email: z.string(),
+    first_name: z.string(),
+    last_name: z.string(),
+    role: z.string().optional(),
+    role_id: z.number(),
+  })
+  .passthrough();
+
+const RestCompanySchema = z
+  .object({
+    id: z.string(),
+    company_id: z.string().nullable().optional(),
+    name: z.string(),
+    primary: z.boolean().optional(),
+    role_id: z.number().optional(),
+    agents: z.array(RestAgentSchema).optional(),
+    users: z.array(RestCompanyUserSchema).optional(),
+  })
+  .passthrough();
+
+const RestInvitationSchema = z
+  .object({
+    id: z.string(),
+    company_id: z.string(),
+    email: z.string(),
+    created_at: z.string(),
+    inviter_id: z.string(),
+    is_accepted: z.boolean(),
+    role_id: z.number(),
+    invitation_link: z.string().optional(),
+  })
+  .passthrough();
+
+const RestUploadSchema = z
+  .object({
+    upload_id: z.string(),
+    file_name: z.string(),
+    file_size: z.number(),
+    mime_type: z.string(),
+    received: z.number(),
+    chunk_size: z.number().optional(),
+    url: z.string().nullable().optional(),
+  })
+  .passthrough();
+
+export const ProvidersResponseSchema = z.object({ providers: StringListSchema });
+export const ProviderDetailsResponseSchema = z.object({ providers: z.array(RestProviderSchema) });
+export const ProviderSettingsResponseSchema = z.object({ settings: z.record(z.unknown()) });
+export const AgentsResponseSchema = z.object({ agents: z.array(RestAgentSchema) });
+export const AgentConfigResponseSchema = z.object({ agent: AgentConfigSchema });
+export const ConversationNamesResponseSchema = z.object({ conversations: StringListSchema });
+export const ConversationsResponseSchema = z.object({ conversations: z.array(RestConversationSchema) });
+export const ConversationHistoryResponseSchema = z.object({ conversation_history: z.array(RestMessageSchema) });
+// The fork endpoint names the new conversation in its message, as in "Conversation forked to <name>", and newer
+// servers also return its id.
+export const ForkConversationResponseSchema = MessageResponseSchema.extend({ id: z.string().optional() });
+export const ConversationNameResponseSchema = z.object({ conversation_name: z.string() });
+export const ConversationsWithIdsResponseSchema = z.object({ conversations_with_ids: z.record(z.string()) });
+export const MemoriesResponseSchema = z.object({ memories: z.array(MemoryRecordSchema) });
+export const CommandsResponseSchema = z.object({ commands: z.record(z.boolean()) });
+export const ChainResponseSchema = z.object({ chain: RestChainSchema });
+export const ChainResponsesResponseSchema = z.object({ chain: z.record(z.unknown()) });
+export const ChainArgsResponseSchema = z.object({ chain_args: StringListSchema });
+export const PromptResponseSchema = z.object({ prompt: z.string() });
+export const PromptsResponseSchema = z.object({ prompts: StringListSchema });
+export const PromptCategoriesResponseSchema = z.object({ prompt_categories: StringListSchema });
+export const PromptArgsResponseSchema = z.object({ prompt_args: StringListSchema });
+export const ExtensionSettingsResponseSchema = z.object({ extension_settings: z.record(z.record(z.unknown())) });
+export const ExtensionsResponseSchema = z.object({ extensions: z.array(RestExtensionSchema) });
+export const CommandArgsResponseSchema = z.object({ command_args: z.record(z.unknown()) });
+export const EmbeddersResponseSchema = z.object({ embedders: z.record(z.unknown()) });
+export const LinksResponseSchema = z.object({ links: StringListSchema });
+export const ExternalSourcesResponseSchema = z.object({ external_sources: StringListSchema });
+export const PersonaResponseSchema = z.object({ persona: z.string() });
+export const SpeechResponseSchema = z.object({ url: z.string() });
+export const CompaniesResponseSchema = z.array(RestCompanySchema);
+export const InvitationsResponseSchema = z.object({ invitations: z.array(RestInvitationSchema) });
+export const UploadResponseSchema = z.object({ upload: RestUploadSchema });
+
+// ============================================================================
+// SDK Types
+// ============================================================================
+// The camelCase shapes returned by AGiXTSDK, extending the shared schemas where the REST API carries less or more data.
+
+export const AgentSummarySchema = AgentSchema.pick({ id: true, name: true }).extend({
+  status: AgentSchema.shape.status.optional(),
+  default: AgentSchema.shape.default.optional(),
+  companyId: AgentSchema.shape.companyId.nullable().optional(),
+});
+
+export const ProviderDetailsSchema = ProviderSchema;
+
+export const ConversationSummarySchema = ConversationEdgeSchema.partial({
+  hasNotifications: true,
+  summary: true,
+  attachmentCount: true,
+}).extend({
+  agentId: ConversationMetadataSchema.shape.agentId.optional(),
+});
+
+export const ConversationMessageSchema = MessageSchema.extend({
+  // The REST API reports the name of the agent or user who sent a message rather than a role.
+  role: z.string(),
+  updatedAt: z.string().optional(),
+  updatedBy: z.string().optional(),
+});
+
+export const ChainDetailsStepSchema = ChainStepSchema.extend({
+  prompt: ChainStepPromptSchema.partial().extend({
+    args: z.record(z.unknown()),
+  }),
+});
+
+export const ChainDetailsSchema = ChainSchema.extend({
+  steps: z.array(ChainDetailsStepSchema),
+});
+
+export const MemorySchema = z.object({
+  id: z.string().optional(),
+  text: z.string(),
+  externalSourceName: z.string().optional(),
+  description: z.string().optional(),
+  additionalMetadata: z.string().optional(),
+  timestamp: z.string().optional(),
+  relevanceScore: z.number().optional(),
+});
+
+export const ExtensionCommandSchema = z.object({
+  name: z.string(),
+  friendlyName: z.string(),
+  description: z.string(),
+  args: z.record(z.unknown()),
+  enabled: z.boolean().optional(),
+});
+
+export const ExtensionSchema = z.object({
+  name: z.string(),
+  description: z.string(),
+  settings: z.array(z.string()),
+  commands: z.array(ExtensionCommandSchema),
+});
+
+export const CompanyUserSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  firstName: z.string(),
+  lastName: z.string(),
+  role: z.string().optional(),
+  roleId: z.number(),
+});
+
+export const CompanyDetailsSchema = CompanySchema.omit({ agents: true }).extend({
+  primary: CompanySchema.shape.primary.optional(),
+  roleId: CompanySchema.shape.roleId.optional(),
+  agents: z.array(AgentSummarySchema),
+  users: z.array(CompanyUserSchema),
+});
+
+export const InvitationDetailsSchema = InvitationSchema.extend({
+  roleId: z.number(),
+  invitationLink: z.string().optional(),
+});
+
+export const UploadSessionSchema = z.object({
+  id: z.string(),
+  fileName: z.string(),
+  fileSize: z.number(),
+  mimeType: z.string(),
+  // The number of bytes the server has received, from the start of the file.
+  received: z.number(),
+  // The chunk size the server asks for, if it has a preference.
+  chunkSize: z.number().optional(),
+  // Where the file can be fetched from once the upload is complete.
+  url: z.string().nullable().optional(),
+});
+
+export type MessageResponse = z.infer<typeof MessageResponseSchema>;
+export type AgentSummary = z.infer<typeof AgentSummarySchema>;
+export type AgentConfig = z.infer<typeof AgentConfigSchema>;
+export type ProviderDetails = z.infer<typeof ProviderDetailsSchema>;
+export type ConversationSummary = z.infer<typeof ConversationSummarySchema>;
+export type ConversationMessage = z.infer<typeof ConversationMessageSchema>;
+export type ChainDetails = z.infer<typeof ChainDetailsSchema>;
+export type ChainDetailsStep = z.infer<typeof ChainDetailsStepSchema>;
+export type MemoryRecord = z.infer<typeof MemoryRecordSchema>;
+export type Memory = z.infer<typeof MemorySchema>;
+export type Extension = z.infer<typeof ExtensionSchema>;
+export type ExtensionCommand = z.infer<typeof ExtensionCommandSchema>;
+export type CompanyUser = z.infer<typeof CompanyUserSchema>;
+export type CompanyDetails = z.infer<typeof CompanyDetailsSchema>;
+export type InvitationDetails = z.infer<typeof InvitationDetailsSchema>;
+export type UploadSession = z.infer<typeof UploadSessionSchema>;
+
+// ============================================================================
+// Mappers
+// ============================================================================
+
+export function toProviderDetails(provider: z.infer<typeof RestProviderSchema>): ProviderDetails {
+  return {
+    name: provider.name,
+    friendlyName: provider.friendly_name,
+    description: provider.description,
+    services: provider.services,
+    settings: Object.entries(provider.settings).map(([name, value]) => ({ name, value })),
+  };
+}
+
+export function toAgentSummary(agent: z.infer<typeof RestAgentSchema>): AgentSummary {
+  return {
+    id: agent.id,
+    name: agent.name,
+    status: agent.status,
+    default: agent.default,
+    companyId: agent.company_id,
+  };
+}
+
+export function toConversationSummary(conversation: z.infer<typeof RestConversationSchema>): ConversationSummary {
+  return {
+    id: conversation.id,
+    name: conversation.name,
+    agentId: conversation.agent_id,
+    hasNotifications: conversation.has_notifications,
+    createdAt: conversation.created_at,
+    updatedAt: conversation.updated_at,
+    summary: conversation.summary,
+    attachmentCount: conversation.attachment_count,
+  };
+}
+
+export function toConversationMessage(message: z.infer<typeof RestMessageSchema>): ConversationMessage {
+  return {
+    id: message.id,
+    role: message.role,
+    message: message.message,
+    timestamp: message.timestamp,
+    updatedAt: message.updated_at ?? undefined,
+    updatedBy: message.updated_by ?? undefined,
+    feedbackReceived: message.feedback_received ?? undefined,
+  };
+}
+
+export function toChainDetails(chain: z.infer<typeof RestChainSchema>): ChainDetails {
+  return {
+    id: chain.id,
+    chainName: chain.chain_name,
+    steps: chain.steps.map((step) => {
+      const { chain_name, command_name, prompt_name, prompt_category, ...args } = step.prompt;
+      return {
+        step: step.step,
+        agentName: step.agent_name,
+        promptType: step.prompt_type,
+        prompt: {
+          chainName: chain_name as string | undefined,
+          commandName: command_name as string | undefined,
+          promptName: prompt_name as string | undefined,
+          promptCategory: prompt_category,
+          args,
+        },
+      };
+    }),
+  };
+}
+
+/**
+ * Converts a chain step back into the payload accepted by importChain, addStep and updateStep.
+ * @param step The step as returned by getChain.
+ * @returns The snake_case step payload.
+ */
+export function toChainStepPayload(step: ChainDetailsStep): z.infer<typeof RestChainStepSchema> {
+  const { chainName, commandName, promptName, promptCategory, args } = step.prompt;
+  return {
+    step: step.step,
+    agent_name: step.agentName,
+    prompt_type: step.promptType,
+    prompt: {
+      ...args,
+      ...(chainName === undefined ? {} : { chain_name: chainName }),
+      ...(commandName === undefined ? {} : { command_name: commandName }),
+      ...(promptName === undefined ? {} : { prompt_name: promptName }),
+      ...(promptCategory === undefined ? {} : { prompt_category: promptCategory }),
+    },
+  };
+}
+
+export function toMemory(memory: MemoryRecord): Memory {
+  return {
+    id: memory.id,
+    text: memory.text,
+    externalSourceName: memory.external_source_name,
+    description: memory.description,
+    additionalMetadata: memory.additional_metadata,
+    timestamp: memory.timestamp,
+    relevanceScore: memory.relevance_score,
+  };
+}
+
+export function toExtension(extension: z.infer<typeof RestExtensionSchema>): Extension {
+  return {
+    name: extension.extension_name,
+    description: extension.description,
+    settings: extension.settings,
+    commands: extension.commands.map((command) => ({
+      name: command.command_name,
+      friendlyName: command.friendly_name,
+      description: command.description,
+      args: command.command_args,
+      enabled: command.enabled,
+    })),
+  };
+}
+
+export function toCompanyDetails(company: z.infer<typeof RestCompanySchema>): CompanyDetails {
+  return {
+    id: company.id,
+    companyId: company.company_id ?? null,
+    name: company.name,
+    primary: company.primary,
+    roleId: company.role_id,
+    agents: (company.agents ?? []).map(toAgentSummary),
+    users: (company.users ?? []).map((user) => ({
+      id: user.id,
+      email: user.email,
+      firstName: user.first_name,
+      lastName: user.last_name,
+      role: user.role,
+      roleId: user.role_id,
+    })),
+  };
+}
+
+export function toInvitationDetails(invitation: z.infer<typeof RestInvitationSchema>): InvitationDetails {
+  return {
+    id: invitation.id,
+    companyId: invitation.company_id,
+    email: invitation.email,
+    createdAt: invitation.created_at,
+    inviterId: invitation.inviter_id,
+    isAccepted: invitation.is_accepted,
+    roleId: invitation.role_id,
+    invitationLink: invitation.invitation_link,
+  };
+}
+
+export function toUploadSession(upload: z.infer<typeof RestUploadSchema>): UploadSession {
+  return {
+    id: upload.upload_id,
+    fileName: upload.file_name,
+    fileSize: upload.file_size,
+    mimeType: upload.mime_type,
+    received: upload.received,
+    chunkSize: upload.chunk_size,
+    url: upload.url,
+  };
+}
@@ -0,0 +1,116 @@
+import axios, { AxiosError, AxiosHeaders, AxiosResponse } from 'axios';
+import { MockInstance, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import AGiXTSDK, { AGiXTError } from './sdk';
+
+function createSDK(): AGiXTSDK {
+  return new AGiXTSDK({ baseUri: 'http://agixt', requestPolicy: { maxRetries: 2, retryDelay: 100, maxRetryDelay: 1000 } });
+}
+
+function failure(status: number, headers: Record<string, string> = {}): AxiosError {
+  const config = { headers: new AxiosHeaders() };
+  const response: AxiosResponse = { status, statusText: '', headers, config, data: { detail: `Status ${status}` } };
+  return new AxiosError(`Request failed with status code ${status}`, AxiosError.ERR_BAD_RESPONSE, config, {}, response);
+}
+
+function success<T>(data: T): AxiosResponse<T> {
+  return { status: 200, statusText: 'OK', headers: {}, config: { headers: new AxiosHeaders() }, data };
+}
+
+/** Mocks the responses to the requests made, in order, and returns the mock to count the requests by. */
+function respond(...responses: (AxiosError | AxiosResponse)[]): MockInstance<typeof axios.request> {
+  const request = vi.spyOn(axios, 'request');
+  responses.forEach((response) =>
+    response instanceof AxiosError ? request.mockRejectedValueOnce(response) : request.mockResolvedValueOnce(response),
+  );
+  return request;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('AGiXTSDK requests', () => {
+  it('retries GET requests that may succeed later, waiting twice as long each time', async () => {
+    const request = respond(failure(504), failure(504), success(['Chain']));
+    const chains = createSDK().getChains();
+    expect(request).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(request).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(199);
+    expect(request).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(chains).resolves.toEqual(['Chain']);
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('throws the last failure once the retries run out', async () => {
+    const request = respond(failure(503), failure(503), failure(503));
+    const chains = createSDK().getChains();
+    const failed = expect(chains).rejects.toMatchObject({ status: 503, method: 'get', endpoint: '/api/chain' });
+    await vi.runAllTimersAsync();
+    await failed;
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('waits as long as Retry-After asks, up to the longest wait allowed', async () => {
+    const request = respond(failure(429, { 'retry-after': '0.5' }), failure(429, { 'retry-after': '60' }), success([]));
+    const chains = createSDK().getChains();
+    await vi.advanceTimersByTimeAsync(499);
+    expect(request).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(request).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(chains).resolves.toEqual([]);
+    expect(request).toHaveBeenCalledTimes(3);
+  });
+
+  it('reads a Retry-After date as the time until it', () => {
+    vi.setSystemTime(Date.UTC(2025, 0, 1));
+    const error = AGiXTError.fromAxiosError(
+      failure(503, { 'retry-after': new Date(Date.UTC(2025, 0, 1, 0, 0, 3)).toUTCString() }),
+      'get',
+      '/api/chain',
+    );
+    expect(error.retryAfter).toBe(3000);
+  });
+
+  it('retries other methods only when the server did not process them', async () => {
+    const sdk = createSDK();
+    const unprocessed = respond(failure(502), success({ message: 'Agent added.' }));
+    const added = sdk.addAgent('Agent');
+    await vi.advanceTimersByTimeAsync(100);
+    await added;
+    expect(unprocessed).toHaveBeenCalledTimes(2);
+    vi.restoreAllMocks();
+
+    const timedOut = respond(failure(504));
+    await expect(sdk.addAgent('Agent')).rejects.toMatchObject({ status: 504, retryable: true });
+    expect(timedOut).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry requests the server refused', async () => {
+    const request = respond(failure(401));
+    await expect(createSDK().getChains()).rejects.toMatchObject({
+      status: 401,
+      detail: 'Status 401',
+      retryable: false,
+    });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting to retry when cancelled', async () => {
+    const request = respond(failure(503));
+    const controller = new AbortController();
+    const chains = createSDK().getChains({ signal: controller.signal });
+    const failed = expect(chains).rejects.toThrow('Request was cancelled while waiting to retry.');
+    await vi.advanceTimersByTimeAsync(50);
+    controller.abort();
+    await failed;
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
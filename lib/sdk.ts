@@ -1,18 +1,215 @@
-import axios, { AxiosRequestConfig } from 'axios';
-
-type Conversation = {
-  id: string;
-  name: string;
-  has_notifications: boolean;
-  created_at: string;
-  updated_at: string;
+import axios, { AxiosError, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { z } from 'zod';
+
+import {
+  AgentConfigResponseSchema,
+  AgentsResponseSchema,
+  ChainArgsResponseSchema,
+  ChainResponseSchema,
+  ChainResponsesResponseSchema,
+  ChainRunResponseSchema,
+  CommandArgsResponseSchema,
+  CommandsResponseSchema,
+  CompaniesResponseSchema,
+  ConversationHistoryResponseSchema,
+  ConversationNameResponseSchema,
+  ConversationNamesResponseSchema,
+  ConversationsResponseSchema,
+  ConversationMessage,
+  ConversationSummary,
+  ConversationsWithIdsResponseSchema,
+  EmbeddersResponseSchema,
+  ExtensionSettingsResponseSchema,
+  ExtensionsResponseSchema,
+  ExternalSourcesResponseSchema,
+  ForkConversationResponseSchema,
+  InvitationsResponseSchema,
+  LinksResponseSchema,
+  MemoriesResponseSchema,
+  MessageResponseSchema,
+  PersonaResponseSchema,
+  PromptArgsResponseSchema,
+  PromptCategoriesResponseSchema,
+  PromptResponseSchema,
+  PromptsResponseSchema,
+  ProviderDetailsResponseSchema,
+  ProviderSettingsResponseSchema,
+  ProvidersResponseSchema,
+  ResponseResponseSchema,
+  SpeechResponseSchema,
+  StringListSchema,
+  toAgentSummary,
+  toChainDetails,
+  toCompanyDetails,
+  toConversationMessage,
+  toConversationSummary,
+  toExtension,
+  toInvitationDetails,
+  toMemory,
+  toProviderDetails,
+  toUploadSession,
+  UploadResponseSchema,
+  UploadSession,
+} from './sdk-schemas';
+
+export * from './sdk-schemas';
+
+// Statuses for which repeating the same request may succeed once the server recovers.
+const RETRYABLE_STATUSES = [408, 429, 502, 503, 504];
+// Statuses indicating the request was not processed, so it is safe to retry regardless of method.
+const UNPROCESSED_STATUSES = [429, 502, 503];
+
+export type RequestPolicy = {
+  /** Milliseconds to wait for each attempt before aborting it, 0 to wait indefinitely. */
+  timeout: number;
+  /** Maximum number of times a failed request is repeated before its error is thrown. */
+  maxRetries: number;
+  /** Milliseconds to wait before the first retry, doubled for every subsequent retry. */
+  retryDelay: number;
+  /** Upper bound in milliseconds for any wait between retries, including those requested by Retry-After. */
+  maxRetryDelay: number;
 };
 
+export type RequestOptions = {
+  /** Aborts the request, including any pending retries, when signalled. */
+  signal?: AbortSignal;
+  /** Overrides the policy timeout for this call. */
+  timeout?: number;
+};
+
+/** Identifies a conversation either by its id or by its name and the agent it belongs to. */
+export type ConversationRef = { id: string } | { name: string; agentName: string };
+
+export type ConversationPage = {
+  messages: ConversationMessage[];
+  page: number;
+  /** The page holding the messages before this one, or null if this was the first page. */
+  previousPage: number | null;
+  /** The page to request next, or null if this was the last page. */
+  nextPage: number | null;
+};
+
+export type UploadOptions = {
+  /** An upload of the same file that was interrupted, to be continued from where the server stopped receiving it. */
+  uploadId?: string;
+  /** Bytes sent in each request, unless the server asks for another size. */
+  chunkSize?: number;
+  /** Called with the id of a new upload once the server has started it, so that it can be resumed if interrupted. */
+  onCreate?: (uploadId: string) => void;
+  /** Called with the number of bytes sent so far as the chunks are uploaded. */
+  onProgress?: (sent: number) => void;
+};
+
+const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024;
+
+const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  timeout: 0,
+  maxRetries: 3,
+  retryDelay: 500,
+  maxRetryDelay: 30000,
+};
+
+// Parses a Retry-After header, which is either a number of seconds or an HTTP date, into milliseconds.
+function parseRetryAfter(header?: string): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function wait(milliseconds: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = (): void => {
+      clearTimeout(timeout);
+      reject(signal?.reason);
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, milliseconds);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Error thrown by every AGiXTSDK method when a request fails.
+ * Carries enough of the failed request and the server's response to distinguish e.g. an expired token from an outage.
+ */
+export class AGiXTError extends Error {
+  /** HTTP status of the response, undefined if no response was received. */
+  readonly status?: number;
+  readonly method: string;
+  readonly endpoint: string;
+  /** The server's explanation of the failure (the `detail` field of AGiXT error responses) if one was provided. */
+  readonly detail?: string;
+  /** Whether repeating the request unchanged may succeed (network failures, timeouts, rate limits, gateway errors). */
+  readonly retryable: boolean;
+  /** Milliseconds the server asked to wait before retrying, from its Retry-After header. */
+  readonly retryAfter?: number;
+
+  constructor({
+    method,
+    endpoint,
+    status,
+    detail,
+    retryable = false,
+    retryAfter,
+    cause,
+  }: {
+    method: string;
+    endpoint: string;
+    status?: number;
+    detail?: string;
+    retryable?: boolean;
+    retryAfter?: number;
+    cause?: unknown;
+  }) {
+    const statusText = status ? ' with status ' + status : '';
+    super(`${method.toUpperCase()} ${endpoint} failed${statusText}${detail ? ': ' + detail : '.'}`, { cause });
+    this.name = 'AGiXTError';
+    this.method = method;
+    this.endpoint = endpoint;
+    this.status = status;
+    this.detail = detail;
+    this.retryable = retryable;
+    this.retryAfter = retryAfter;
+  }
+
+  static fromAxiosError(error: unknown, method: string, endpoint: string): AGiXTError {
+    if (!axios.isAxiosError(error)) {
+      return new AGiXTError({ method, endpoint, detail: String(error), cause: error });
+    }
+    const status = error.response?.status;
+    const detail = error.response?.data?.detail;
+    return new AGiXTError({
+      method,
+      endpoint,
+      status,
+      detail: detail === undefined ? error.message : typeof detail === 'string' ? detail : JSON.stringify(detail),
+      retryable: status === undefined ? error.code !== AxiosError.ERR_CANCELED : RETRYABLE_STATUSES.includes(status),
+      retryAfter: parseRetryAfter(error.response?.headers?.['retry-after']),
+      cause: error,
+    });
+  }
+}
+
 export default class AGiXTSDK {
   private baseUri: string;
   private headers: AxiosRequestConfig['headers'];
-
-  constructor(config: { baseUri: string; apiKey?: string }) {
+  private policy: RequestPolicy;
+  private strict: boolean;
+
+  /**
+   * @param config.strict Throw an AGiXTError when a response does not match its schema instead of logging a warning.
+   */
+  constructor(config: { baseUri: string; apiKey?: string; requestPolicy?: Partial<RequestPolicy>; strict?: boolean }) {
+    this.strict = config.strict ?? false;
+    this.policy = { ...DEFAULT_REQUEST_POLICY, ...config.requestPolicy };
     this.baseUri = config.baseUri?.endsWith('/') ? config.baseUri.slice(0, -1) : config.baseUri || 'http://localhost:7437';
     this.headers = config.apiKey
       ? {
@@ -22,84 +219,226 @@ export default class AGiXTSDK {
       : { 'Content-Type': 'application/json' };
   }
 
-  private async request<T>(method: string, endpoint: string, data?: any, params?: any): Promise<T> {
+  /**
+   * Performs a request against the AGiXT server, retrying it according to the request policy, and validates the response.
+   * GET requests are retried on any retryable failure, other methods only when the server reports it did not process them.
+   * Responses that do not match the schema are read as-is with a warning, unless the SDK is in strict mode.
+   * @param options.maxRetries Overrides the policy's number of retries, such as for requests retried by their caller.
+   * @param read Gets the result from the validated response, such as by mapping it to camelCase.
+   * @throws {AGiXTError} If the request fails for any reason and is not (or no longer) retried, if the response cannot be
+   * read, or in strict mode if the response does not match the schema.
+   */
+  private async request<S extends z.ZodTypeAny, T = z.infer<S>>(
+    schema: S,
+    method: string,
+    endpoint: string,
+    data?: any,
+    {
+      params,
+      signal,
+      timeout = this.policy.timeout,
+      maxRetries = this.policy.maxRetries,
+      ...config
+    }: RequestOptions & { params?: any } & Partial<Pick<RequestPolicy, 'maxRetries'>> &
+      Pick<AxiosRequestConfig, 'headers' | 'onUploadProgress'> = {},
+    read: (data: z.infer<S>) => T = (validated) => validated,
+  ): Promise<T> {
+    let response: AxiosResponse;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        response = await axios.request({
+          method,
+          url: `${this.baseUri}${endpoint}`,
+          data,
+          params,
+          ...config,
+          headers: { ...this.headers, ...config.headers },
+          signal,
+          timeout,
+        });
+        break;
+      } catch (exception) {
+        const error = AGiXTError.fromAxiosError(exception, method, endpoint);
+        const retry =
+          (error.status !== undefined && UNPROCESSED_STATUSES.includes(error.status)) ||
+          (method.toLowerCase() === 'get' && error.retryable);
+        if (!retry || attempt >= maxRetries) {
+          throw error;
+        }
+        try {
+          await wait(Math.min(error.retryAfter ?? this.policy.retryDelay * 2 ** attempt, this.policy.maxRetryDelay), signal);
+        } catch (reason) {
+          throw new AGiXTError({ method, endpoint, detail: 'Request was cancelled while waiting to retry.', cause: reason });
+        }
+      }
+    }
+    return this.parseResponse(schema, method, endpoint, response, read);
+  }
+
+  /**
+   * Validates a response against its schema and reads it. A response that does not match is read as-is with a warning,
+   * unless the SDK is in strict mode.
+   * @throws {AGiXTError} In strict mode if the response does not match the schema, or if it cannot be read.
+   */
+  private parseResponse<S extends z.ZodTypeAny, T>(
+    schema: S,
+    method: string,
+    endpoint: string,
+    { status, data }: AxiosResponse,
+    read: (data: z.infer<S>) => T,
+  ): T {
+    const result = schema.safeParse(data);
+    if (!result.success) {
+      const error = new AGiXTError({
+        method,
+        endpoint,
+        status,
+        detail: `Response did not match the expected schema: ${result.error.message}`,
+        cause: result.error,
+      });
+      if (this.strict) {
+        throw error;
+      }
+      console.warn(error.message);
+    }
     try {
-      const response = await axios.request<T>({
+      return read(result.success ? result.data : data);
+    } catch (cause) {
+      // Only a response that did not match its schema can fail to be read.
+      throw new AGiXTError({
         method,
-        url: `${this.baseUri}${endpoint}`,
-        data,
-        params,
-        headers: this.headers,
+        endpoint,
+        status,
+        detail: `Response could not be read: ${cause instanceof Error ? cause.message : String(cause)}`,
+        cause,
       });
-      return response.data;
-    } catch (error) {
-      return `Error: ${error}` as T;
     }
   }
 
   // Provider Methods
-  async getProviders() {
-    return this.request<{ providers: string[] }>('get', '/api/provider').then((r) => r.providers);
+  async getProviders(options?: RequestOptions) {
+    return this.request(ProvidersResponseSchema, 'get', '/api/provider', undefined, options, (r) => r.providers);
   }
 
-  async getProvidersByService(service: string) {
-    return this.request<{ providers: string[] }>('get', `/api/providers/service/${service}`).then((r) => r.providers);
+  async getProvidersByService(service: string, options?: RequestOptions) {
+    return this.request(
+      ProvidersResponseSchema,
+      'get',
+      `/api/providers/service/${encodeURIComponent(service)}`,
+      undefined,
+      options,
+      (r) => r.providers,
+    );
   }
 
-  async getAllProviders() {
-    return this.request<{ providers: any[] }>('get', '/v1/providers').then((r) => r.providers);
+  async getAllProviders(options?: RequestOptions) {
+    return this.request(ProviderDetailsResponseSchema, 'get', '/v1/providers', undefined, options, (r) =>
+      r.providers.map(toProviderDetails),
+    );
   }
 
-  async getProviderSettings(providerName: string) {
-    return this.request<{ settings: any }>('get', `/api/provider/${providerName}`).then((r) => r.settings);
+  async getProviderSettings(providerName: string, options?: RequestOptions) {
+    return this.request(
+      ProviderSettingsResponseSchema,
+      'get',
+      `/api/provider/${encodeURIComponent(providerName)}`,
+      undefined,
+      options,
+      (r) => r.settings,
+    );
   }
 
-  async getEmbedProviders() {
-    return this.request<{ providers: string[] }>('get', '/api/embedding_providers').then((r) => r.providers);
+  async getEmbedProviders(options?: RequestOptions) {
+    return this.request(ProvidersResponseSchema, 'get', '/api/embedding_providers', undefined, options, (r) => r.providers);
   }
 
   // Agent Methods
-  async addAgent(agentName: string, settings: any = {}) {
-    return this.request('post', '/api/agent', { agent_name: agentName, settings });
+  async addAgent(agentName: string, settings: any = {}, options?: RequestOptions) {
+    return this.request(MessageResponseSchema, 'post', '/api/agent', { agent_name: agentName, settings }, options);
   }
 
-  async importAgent(agentName: string, settings: any = {}, commands: any = {}) {
-    return this.request('post', '/api/agent/import', { agent_name: agentName, settings, commands });
+  async importAgent(agentName: string, settings: any = {}, commands: any = {}, options?: RequestOptions) {
+    return this.request(
+      MessageResponseSchema,
+      'post',
+      '/api/agent/import',
+      { agent_name: agentName, settings, commands },
+      options,
+    );
   }
 
-  async renameAgent(agentName: string, newName: string) {
-    return this.request('patch', `/api/agent/${agentName}`, { new_name: newName });
+  async renameAgent(agentName: string, newName: string, options?: RequestOptions) {
+    return this.request(
+      MessageResponseSchema,
+      'patch',
+      `/api/agent/${encodeURIComponent(agentName)}`,
+      { new_name: newName },
+      options,
+    );
   }
 
-  async updateAgentSettings(agentName: string, settings: any) {
-    return this.request<{ message: string }>('put', `/api/agent/${agentName}`, { settings, agent_name: agentName }).then(
+  async updateAgentSettings(agentName: string, settings: any, options?: RequestOptions) {
+    return this.request(
+      MessageResponseSchema,
+      'put',
+      `/api/agent/${encodeURIComponent(agentName)}`,
+      { settings, agent_name: agentName },
+      options,
       (r) => r.message,
     );
   }
 
-  async updateAgentCommands(agentName: string, commands: any) {
-    return this.request<{ message: string }>('put', `/api/agent/${agentName}/commands`, {
-      commands,
-      agent_name: agentName,
-    }).then((r) => r.message);
+  async updateAgentCommands(agentName: string, commands: any, options?: RequestOptions) {
+    return this.request(
+      MessageResponseSchema,
+      'put',
+      `/api/agent/${encodeURIComponent(agentName)}/commands`,
+      {
+        commands,
+        agent_name: agentName,
+      },
+      options,
+      (r) => r.message,
+    );
   }
 
-  async deleteAgent(agentName: string) {
-    return this.request<{ message: string }>('delete', `/api/agent/${agentName}`).then((r) => r.message);
+  async deleteAgent(agentName: string, options?: RequestOptions) {
+    return this.request(
+      MessageResponseSchema,
+      'delete',
+      `/api/agent/${encodeURIComponent(agentName)}`,
+      undefined,
+      options,
+      (r) => r.message,
+    );
   }
 
-  async getAgents() {
-    return this.request<{ agents: any[] }>('get', '/api/agent').then((r) => r.agents);
+  async getAgents(options?: RequestOptions) {
+    return this.request(AgentsResponseSchema, 'get', '/api/agent', undefined, options, (r) => r.agents.map(toAgentSummary));
   }
 
-  async getAgentConfig(agentName: string) {
-    return this.request<{ agent: any }>('get', `/api/agent/${agentName}`).then((r) => r.agent);
+  async getAgentConfig(agentName: string, options?: RequestOptions) {
+    return this.request(
+      AgentConfigResponseSchema,
+      'get',
+      `/api/agent/${encodeURIComponent(agentName)}`,
+      undefined,
+      options,
+      (r) => r.agent,
+    );
   }
 
   // Conversation Methods
-  async getConversations(objects = false, agentName?: string) {
-    const url = objects ? '/v1/conversations' : agentName ? `/api/${agentName}/conversations` : '/api/conversations';
-    return this.request<{ conversations: any[] }>('get', url).then((r) => r.conversations);
+  async getConversations(objects: true, agentName?: string, options?: RequestOptions): Promise<ConversationSummary[]>;
+  async getConversations(objects?: false, agentName?: string, options?: RequestOptions): Promise<string[]>;
+  async getConversations(objects = false, agentName?: string, options?: RequestOptions) {
+    if (objects) {
+      return this.request(ConversationsResponseSchema, 'get', '/v1/conversations', undefined, options, (r) =>
+        r.conversations.map(toConversationSummary),
+      );
+    }
+    const url = agentName ? `/api/${encodeURIComponent(agentName)}/conversations` : '/api/conversations';
+    return this.request(ConversationNamesResponseSchema, 'get', url, undefined, options, (r) => r.conversations);
   }
 
   async addConversationFeedback(
@@ -109,323 +448,843 @@ export default class AGiXTSDK {
     userInput: string,
     feedback: string,
     conversationName: string,
+    options?: RequestOptions,
   ) {
-    return this.request<{ message: string }>('post', `/api/agent/${agentName}/feedback`, {
-      positive,
-      feedback,
-      message,
-      user_input: userInput,
-      conversation_name: conversationName,
-    }).then((r) => r.message);
+    return this.request(
+      MessageResponseSchema,
+      'post',
+      `/api/agent/${encodeURIComponent(agentName)}/feedback`,
+      {
+        positive,
+        feedback,
+        message,
+        user_input: userInput,
+        conversation_name: conversationName,
+      },
+      options,
+      (r) => r.message,
+    );
   }
 
-  async getConversation(conversationName = '', conversationId = '', limit = 100, page = 1, agentName?: string) {
-    if (!conversationName && !conversationId) throw new Error('Must define either conversationName or conversationId.');
-    if (conversationId && conversationName) throw new Error('Must define conversationName or conversationId, not both.');
-
-    const url = conversationId ? `/v1/conversation/${conversationId}` : '/api/conversation/${conversationName}';
-    const params = conversationId ? { limit, page } : { agent_name: agentName, limit, page };
+  /**
+   * Gets a single page of a conversation's history, oldest messages first.
+   * @param conversation The conversation to get.
+   * @param pagination.limit The number of messages per page.
+   * @param pagination.page The 1-based page to get.
+   * @returns The messages on the page and the page that follows it, if any.
+   */
+  async getConversation(
+    conversation: ConversationRef,
+    { limit = 100, page = 1 }: { limit?: number; page?: number } = {},
+    options?: RequestOptions,
+  ): Promise<ConversationPage> {
+    const [url, params] =
+      'id' in conversation
+        ? [`/v1/conversation/${encodeURIComponent(conversation.id)}`, { limit, page }]
+        : [
+            `/api/conversation/${encodeURIComponent(conversation.name)}`,
+            { agent_name: conversation.agentName, limit, page },
+          ];
+    const messages = await this.request(
+      ConversationHistoryResponseSchema,
+      'get',
+      url,
+      undefined,
+      { ...options, params },
+      (r) => r.conversation_history.map(toConversationMessage),
+    );
+    return { messages, page, previousPage: page > 1 ? page - 1 : null, nextPage: messages.length < limit ? null : page + 1 };
+  }
+
+  /**
+   * Gets the page holding the most recent messages of a conversation.
+   * Pages are counted from the oldest message, so the last one is located by doubling the page number, then bisecting.
+   * @param conversation The conversation to get.
+   * @param limit The number of messages per page.
+   * @param fromPage A page known to exist, such as a previously found last page, to start searching from.
+   */
+  async getLatestConversationPage(
+    conversation: ConversationRef,
+    limit = 100,
+    fromPage = 1,
+    options?: RequestOptions,
+  ): Promise<ConversationPage> {
+    let low = await this.getConversation(conversation, { limit, page: fromPage }, options);
+    if (low.messages.length === 0 && fromPage > 1) {
+      // Messages were deleted since fromPage was found.
+      return this.getLatestConversationPage(conversation, limit, 1, options);
+    }
+    if (low.nextPage === null) {
+      return low;
+    }
+    let high: ConversationPage;
+    for (let step = 1; ; step *= 2) {
+      high = await this.getConversation(conversation, { limit, page: low.page + step }, options);
+      if (high.nextPage === null) {
+        break;
+      }
+      low = high;
+    }
+    while (high.page - low.page > 1) {
+      const middle = await this.getConversation(
+        conversation,
+        { limit, page: Math.floor((low.page + high.page) / 2) },
+        options,
+      );
+      if (middle.nextPage === null) {
+        high = middle;
+      } else {
+        low = middle;
+      }
+    }
+    return high.messages.length > 0 ? high : low;
+  }
+
+  /**
+   * Iterates over every page of a conversation's history, requesting each page only once the previous one has been consumed.
+   * @param conversation The conversation to iterate.
+   * @param limit The number of messages per page.
+   */
+  async *getConversationPages(
+    conversation: ConversationRef,
+    limit = 100,
+    options?: RequestOptions,
+  ): AsyncGenerator<ConversationMessage[]> {
+    let page: number | null = 1;
+    while (page !== null) {
+      const result: ConversationPage = await this.getConversation(conversation, { limit, page }, options);
+      if (result.messages.length > 0) {
+        yield result.messages;
+      }
+      page = result.nextPage;
+    }
+  }
 
-    return this.request<{ conversation_history: any }>('get', url, null, params).then((r) => r.conversation_history);
+  /**
+   * Gets the entire history of a conversation, however many pages it spans.
+   * @param conversation The conversation to get.
+   * @param limit The number of messages requested per page.
+   */
+  async getConversationHistory(conversation: ConversationRef, limit = 100, options?: RequestOptions) {
+    const messages: ConversationMessage[] = [];
+    for await (const page of this.getConversationPages(conversation, limit, options)) {
+      messages.push(...page);
+    }
+    return messages;
+  }
+
+  /**
+   * Gets the metadata of a conversation, such as when it was created and whether it has notifications.
+   * Conversations referenced by name are matched by name alone, as the listing identifies agents only by id.
+   * @throws {AGiXTError} If the conversation does not exist.
+   */
+  async getConversationMetadata(conversation: ConversationRef, options?: RequestOptions) {
+    const conversations = await this.getConversations(true, undefined, options);
+    const metadata = conversations.find((candidate) =>
+      'id' in conversation ? candidate.id === conversation.id : candidate.name === conversation.name,
+    );
+    if (!metadata) {
+      throw new AGiXTError({
+        method: 'get',
+        endpoint: '/v1/conversations',
+        detail: `Conversation ${'id' in conversation ? conversation.id : conversation.name} does not exist.`,
+      });
+    }
+    return metadata;
+  }
+
+  async renameConversation(agentName: string, conversationName: string, newName = '-', options?: RequestOptions) {
+    return this.request(
+      ConversationNameResponseSchema,
+      'put',
+      '/api/conversation',
+      {
+        conversation_name: conversationName,
+        new_conversation_name: newName,
+        agent_name: agentName,
+      },
+      options,
+      (r) => r.conversation_name,
+    );
   }
 
-  async renameConversation(agentName: string, conversationName: string, newName = '-') {
-    return this.request<{ conversation_name: string }>('put', '/api/conversation', {
-      conversation_name: conversationName,
-      new_conversation_name: newName,
-      agent_name: agentName,
-    }).then((r) => r.conversation_name);
+  /**
+   * Copies a conversation up to and including one of its messages into a new conversation.
+   * @returns The id of the new conversation if the server returns it, and its name if it can be read from the response.
+   */
+  async forkConversation(conversationName: string, messageId: string, options?: RequestOptions) {
+    return this.request(
+      ForkConversationResponseSchema,
+      'post',
+      '/api/conversation/fork',
+      {
+        conversation_name: conversationName,
+        message_id: messageId,
+      },
+      options,
+      (r) => ({ id: r.id ?? null, name: /forked to (.+)$/i.exec(r.message)?.[1] ?? null }),
+    );
   }
 
-  async forkConversation(conversationName: string, messageId: string) {
-    return this.request<{ message: string }>('post', '/api/conversation/fork', {
-      conversation_name: conversationName,
-      message_id: messageId,
-    }).then((r) => r.message);
+  /**
+   * Forks a conversation after one of its messages, or starts an empty conversation if there is no message to fork after.
+   * The server does not record which conversation a branch was made from, so callers have to keep track of that
+   * themselves.
+   * @param conversationId The conversation to branch.
+   * @param messageId The last message to keep, or null to keep none.
+   * @param agentName The agent an empty conversation is started with.
+   * @returns The new conversation.
+   * @throws {AGiXTError} If the conversation does not exist, or the new conversation cannot be identified.
+   */
+  async branchConversation(
+    conversationId: string,
+    messageId: string | null,
+    agentName: string,
+    options?: RequestOptions,
+  ): Promise<ConversationSummary> {
+    const source = await this.getConversationMetadata({ id: conversationId }, options);
+    if (messageId === null) {
+      // Conversations are identified by name here, so the name has to be one that is not in use yet.
+      const name = `${source.name} (branch ${new Date().toISOString()})`;
+      await this.newConversation(agentName, name, [], options);
+      return this.getConversationMetadata({ name, agentName }, options);
+    }
+    const fork = await this.forkConversation(source.name, messageId, options);
+    if (fork.id) {
+      return this.getConversationMetadata({ id: fork.id }, options);
+    }
+    if (fork.name) {
+      return this.getConversationMetadata({ name: fork.name, agentName }, options);
+    }
+    throw new AGiXTError({
+      method: 'post',
+      endpoint: '/api/conversation/fork',
+      detail: `The response does not identify the branch of conversation ${conversationId}.`,
+    });
   }
 
-  async newConversation(agentName: string, conversationName: string, conversationContent: any[] = []) {
-    return this.request<{ conversation_history: any[] }>('post', '/api/conversation', {
-      conversation_name: conversationName,
-      agent_name: agentName,
-      conversation_content: conversationContent,
-    }).then((r) => r.conversation_history);
+  async newConversation(
+    agentName: string,
+    conversationName: string,
+    conversationContent: any[] = [],
+    options?: RequestOptions,
+  ) {
+    return this.request(
+      ConversationHistoryResponseSchema,
+      'post',
+      '/api/conversation',
+      {
+        conversation_name: conversationName,
+        agent_name: agentName,
+        conversation_content: conversationContent,
+      },
+      options,
+      (r) => r.conversation_history.map(toConversationMessage),
+    );
   }
 
-  async deleteConversation(conversationName: string, agentName?: string) {
-    return this.request<{ message: string }>('delete', '/api/conversation', {
-      conversation_name: conversationName,
-      agent_name: agentName,
-    }).then((r) => r.message);
+  async deleteConversation(conversationName: string, agentName?: string, options?: RequestOptions) {
+    return this.request(
+      MessageResponseSchema,
+      'delete',
+      '/api/conversation',
+      {
+        conversation_name: conversationName,
+        agent_name: agentName,
+      },
+      options,
+      (r) => r.message,
+    );
   }
 
   // Message Methods
-  async updateConversationMessage(conversationName: string, messageId: string, newMessage: string) {
-    return this.request<{ message: string }>('put', `/api/conversation/message/${messageId}`, {
-      conversation_name: conversationName,
-      new_message: newMessage,
-    }).then((r) => r.message);
+  async updateConversationMessage(
+    conversationName: string,
+    messageId: string,
+    newMessage: string,
+    options?: RequestOptions,
+  ) {
+    return this.request(
+      MessageResponseSchema,
+      'put',
+      `/api/conversation/message/${encodeURIComponent(messageId)}`,
+      {
+        conversation_name: conversationName,
+        new_message: newMessage,
+      },
+      options,
+      (r) => r.message,
+    );
   }
 
-  async deleteConversationMessage(conversationName: string, messageId: string) {
-    return this.request<{ message: string }>('delete', `/api/conversation/message/${messageId}`, {
-      conversation_name: conversationName,
-    }).then((r) => r.message);
+  async deleteConversationMessage(conversationName: string, messageId: string, options?: RequestOptions) {
+    return this.request(
+      MessageResponseSchema,
+      'delete',
+      `/api/conversation/message/${encodeURIComponent(messageId)}`,
+      {
+        conversation_name: conversationName,
+      },
+      options,
+      (r) => r.message,
+    );
   }
 
   // Memory Methods
-  async importAgentMemories(agentName: string, memories: any[]) {
-    return this.request<{ message: string }>('post', `/api/agent/${agentName}/memory/import`, {
-      memories,
-    }).then((r) => r.message);
+  async importAgentMemories(agentName: string, memories: any[], options?: RequestOptions) {
+    return this.request(
+      MessageResponseSchema,
+      'post',
+      `/api/agent/${encodeURIComponent(agentName)}/memory/import`,
+      {
+        memories,
+      },
+      options,
+      (r) => r.message,
+    );
   }
 
-  async exportAgentMemories(agentName: string) {
-    return this.request<{ memories: any }>('get', `/api/agent/${agentName}/memory/export`).then((r) => r.memories);
+  /** Memories are returned in their wire format so they can be passed back to importAgentMemories. */
+  async exportAgentMemories(agentName: string, options?: RequestOptions) {
+    return this.request(
+      MemoriesResponseSchema,
+      'get',
+      `/api/agent/${encodeURIComponent(agentName)}/memory/export`,
+      undefined,
+      options,
+      (r) => r.memories,
+    );
   }
 
-  async wipeAgentMemories(agentName: string, collectionNumber = '0') {
-    return this.request<{ message: string }>('delete', `/api/agent/${agentName}/memory/${collectionNumber}`).then(
+  async wipeAgentMemories(agentName: string, collectionNumber = '0', options?: RequestOptions) {
+    return this.request(
+      MessageResponseSchema,
+      'delete',
+      `/api/agent/${encodeURIComponent(agentName)}/memory/${collectionNumber}`,
+      undefined,
+      options,
       (r) => r.message,
     );
   }
 
   // Agent Interaction Methods
-  async promptAgent(agentName: string, promptName: string, promptArgs: any) {
-    return this.request<{ response: string }>('post', `/api/agent/${agentName}/prompt`, {
-      prompt_name: promptName,
-      prompt_args: promptArgs,
-    }).then((r) => r.response);
-  }
-
-  async instruct(agentName: string, userInput: string, conversation: string) {
-    return this.promptAgent(agentName, 'instruct', {
-      user_input: userInput,
-      disable_memory: true,
-      conversation_name: conversation,
-    });
+  async promptAgent(agentName: string, promptName: string, promptArgs: any, options?: RequestOptions) {
+    return this.request(
+      ResponseResponseSchema,
+      'post',
+      `/api/agent/${encodeURIComponent(agentName)}/prompt`,
+      {
+        prompt_name: promptName,
+        prompt_args: promptArgs,
+      },
+      options,
+      (r) => r.response,
+    );
   }
 
-  async chat(agentName: string, userInput: string, conversation: string, contextResults = 4) {
-    return this.promptAgent(agentName, 'Chat', {
-      user_input: userInput,
-      context_results: contextResults,
-      conversation_name: conversation,
-      disable_memory: true,
-    });
+  async instruct(agentName: string, userInput: string, conversation: string, options?: RequestOptions) {
+    return this.promptAgent(
+      agentName,
+      'instruct',
+      {
+        user_input: userInput,
+        disable_memory: true,
+        conversation_name: conversation,
+      },
+      options,
+    );
   }
 
-  async smartinstruct(agentName: string, userInput: string, conversation: string) {
-    return this.runChain('Smart Instruct', userInput, agentName, false, 1, {
-      conversation_name: conversation,
-      disable_memory: true,
-    });
+  async chat(agentName: string, userInput: string, conversation: string, contextResults = 4, options?: RequestOptions) {
+    return this.promptAgent(
+      agentName,
+      'Chat',
+      {
+        user_input: userInput,
+        context_results: contextResults,
+        conversation_name: conversation,
+        disable_memory: true,
+      },
+      options,
+    );
   }
 
-  async smartchat(agentName: string, userInput: string, conversation: string) {
-    return this.runChain('Smart Chat', userInput, agentName, false, 1, {
-      conversation_name: conversation,
-      disable_memory: true,
-    });
+  async smartinstruct(agentName: string, userInput: string, conversation: string, options?: RequestOptions) {
+    return this.runChain(
+      'Smart Instruct',
+      userInput,
+      agentName,
+      false,
+      1,
+      {
+        conversation_name: conversation,
+        disable_memory: true,
+      },
+      options,
+    );
+  }
+
+  async smartchat(agentName: string, userInput: string, conversation: string, options?: RequestOptions) {
+    return this.runChain(
+      'Smart Chat',
+      userInput,
+      agentName,
+      false,
+      1,
+      {
+        conversation_name: conversation,
+        disable_memory: true,
+      },
+      options,
+    );
   }
 
   // Command Methods
-  async getCommands(agentName: string) {
-    return this.request<{ commands: any }>('get', `/api/agent/${agentName}/command`).then((r) => r.commands);
+  async getCommands(agentName: string, options?: RequestOptions) {
+    return this.request(
+      CommandsResponseSchema,
+      'get',
+      `/api/agent/${encodeURIComponent(agentName)}/command`,
+      undefined,
+      options,
+      (r) => r.commands,
+    );
   }
 
-  async executeCommand(agentName: string, commandName: string, commandArgs: any, conversation: string) {
-    return this.request<{ response: string }>('post', `/api/agent/${agentName}/command`, {
-      command_name: commandName,
-      command_args: commandArgs,
-      conversation_name: conversation,
-    }).then((r) => r.response);
+  async executeCommand(
+    agentName: string,
+    commandName: string,
+    commandArgs: any,
+    conversation: string,
+    options?: RequestOptions,
+  ) {
+    return this.request(
+      ResponseResponseSchema,
+      'post',
+      `/api/agent/${encodeURIComponent(agentName)}/command`,
+      {
+        command_name: commandName,
+        command_args: commandArgs,
+        conversation_name: conversation,
+      },
+      options,
+      (r) => r.response,
+    );
   }
 
-  async toggleCommand(agentName: string, commandName: string, enable: boolean) {
-    return this.request<{ message: string }>('patch', `/api/agent/${agentName}/command`, {
-      command_name: commandName,
-      enable,
-    }).then((r) => r.message);
+  async toggleCommand(agentName: string, commandName: string, enable: boolean, options?: RequestOptions) {
+    return this.request(
+      MessageResponseSchema,
+      'patch',
+      `/api/agent/${encodeURIComponent(agentName)}/command`,
+      {
+        command_name: commandName,
+        enable,
+      },
+      options,
+      (r) => r.message,
+    );
   }
 
   // Chain Methods
-  async getChains() {
-    return this.request<string[]>('get', '/api/chain');
+  async getChains(options?: RequestOptions) {
+    return this.request(StringListSchema, 'get', '/api/chain', undefined, options);
   }
 
-  async getChain(chainName: string) {
-    return this.request<{ chain: any }>('get', `/api/chain/${chainName}`).then((r) => r.chain);
+  async getChain(chainName: string, options?: RequestOptions) {
+    return this.request(ChainResponseSchema, 'get', `/api/chain/${encodeURIComponent(chainName)}`, undefined, options, (r) =>
+      toChainDetails(r.chain),
+    );
   }
 
-  async getChainResponses(chainName: string) {
-    return this.request<{ chain: any }>('get', `/api/chain/${chainName}/responses`).then((r) => r.chain);
+  async getChainResponses(chainName: string, options?: RequestOptions) {
+    return this.request(
+      ChainResponsesResponseSchema,
+      'get',
+      `/api/chain/${encodeURIComponent(chainName)}/responses`,
+      undefined,
+      options,
+      (r) => r.chain,
+    );
   }
 
-  async getChainArgs(chainName: string) {
-    return this.request<{ chain_args: string[] }>('get', `/api/chain/${chainName}/args`).then((r) => r.chain_args);
+  async getChainArgs(chainName: string, options?: RequestOptions) {
+    return this.request(
+      ChainArgsResponseSchema,
+      'get',
+      `/api/chain/${encodeURIComponent(chainName)}/args`,
+      undefined,
+      options,
+      (r) => r.chain_args,
+    );
   }
 
-  async runChain(chainName: string, userInput: string, agentName = '', allResponses = false, fromStep = 1, chainArgs = {}) {
-    return this.request('post', `/api/chain/${chainName}/run`, {
-      prompt: userInput,
-      agent_override: agentName,
-      all_responses: allResponses,
-      from_step: fromStep,
-      chain_args: chainArgs,
-    });
+  async runChain(
+    chainName: string,
+    userInput: string,
+    agentName = '',
+    allResponses = false,
+    fromStep = 1,
+    chainArgs = {},
+    options?: RequestOptions,
+  ) {
+    return this.request(
+      ChainRunResponseSchema,
+      'post',
+      `/api/chain/${encodeURIComponent(chainName)}/run`,
+      {
+        prompt: userInput,
+        agent_override: agentName,
+        all_responses: allResponses,
+        from_step: fromStep,
+        chain_args: chainArgs,
+      },
+      options,
+    );
   }
 
-  async runChainStep(chainName: string, stepNumber: number, userInput: string, agentName?: string, chainArgs = {}) {
-    return this.request('post', `/api/chain/${chainName}/run/step/${stepNumber}`, {
-      prompt: userInput,
-      agent_override: agentName,
-      chain_args: chainArgs,
-    });
+  async runChainStep(
+    chainName: string,
+    stepNumber: number,
+    userInput: string,
+    agentName?: string,
+    chainArgs = {},
+    options?: RequestOptions,
+  ) {
+    return this.request(
+      ChainRunResponseSchema,
+      'post',
+      `/api/chain/${encodeURIComponent(chainName)}/run/step/${stepNumber}`,
+      {
+        prompt: userInput,
+        agent_override: agentName,
+        chain_args: chainArgs,
+      },
+      options,
+    );
   }
 
-  async addChain(chainName: string) {
-    return this.request<{ message: string }>('post', '/api/chain', {
-      chain_name: chainName,
-    }).then((r) => r.message);
+  async addChain(chainName: string, options?: RequestOptions) {
+    return this.request(
+      MessageResponseSchema,
+      'post',
+      '/api/chain',
+      {
+        chain_name: chainName,
+      },
+      options,
+      (r) => r.message,
+    );
   }
 
-  async importChain(chainName: string, steps: any) {
-    return this.request<{ message: string }>('post', '/api/chain/import', {
-      chain_name: chainName,
-      steps,
-    }).then((r) => r.message);
+  async importChain(chainName: string, steps: any, options?: RequestOptions) {
+    return this.request(
+      MessageResponseSchema,
+      'post',
+      '/api/chain/import',
+      {
+        chain_name: chainName,
+        steps,
+      },
+      options,
+      (r) => r.message,
+    );
   }
 
-  async renameChain(chainName: string, newName: string) {
-    return this.request<{ message: string }>('put', `/api/chain/${chainName}`, {
-      new_name: newName,
-    }).then((r) => r.message);
+  async renameChain(chainName: string, newName: string, options?: RequestOptions) {
+    return this.request(
+      MessageResponseSchema,
+      'put',
+      `/api/chain/${encodeURIComponent(chainName)}`,
+      {
+        new_name: newName,
+      },
+      options,
+      (r) => r.message,
+    );
   }
 
-  async deleteChain(chainName: string) {
-    return this.request<{ message: string }>('delete', `/api/chain/${chainName}`).then((r) => r.message);
+  async deleteChain(chainName: string, options?: RequestOptions) {
+    return this.request(
+      MessageResponseSchema,
+      'delete',
+      `/api/chain/${encodeURIComponent(chainName)}`,
+      undefined,
+      options,
+      (r) => r.message,
+    );
   }
 
   // Chain Step Methods
-  async addStep(chainName: string, stepNumber: number, agentName: string, promptType: string, prompt: any) {
-    return this.request<{ message: string }>('post', `/api/chain/${chainName}/step`, {
-      step_number: stepNumber,
-      agent_name: agentName,
-      prompt_type: promptType,
-      prompt,
-    }).then((r) => r.message);
+  async addStep(
+    chainName: string,
+    stepNumber: number,
+    agentName: string,
+    promptType: string,
+    prompt: any,
+    options?: RequestOptions,
+  ) {
+    return this.request(
+      MessageResponseSchema,
+      'post',
+      `/api/chain/${encodeURIComponent(chainName)}/step`,
+      {
+        step_number: stepNumber,
+        agent_name: agentName,
+        prompt_type: promptType,
+        prompt,
+      },
+      options,
+      (r) => r.message,
+    );
   }
 
-  async updateStep(chainName: string, stepNumber: number, agentName: string, promptType: string, prompt: any) {
-    return this.request<{ message: string }>('put', `/api/chain/${chainName}/step/${stepNumber}`, {
-      step_number: stepNumber,
-      agent_name: agentName,
-      prompt_type: promptType,
-      prompt,
-    }).then((r) => r.message);
+  async updateStep(
+    chainName: string,
+    stepNumber: number,
+    agentName: string,
+    promptType: string,
+    prompt: any,
+    options?: RequestOptions,
+  ) {
+    return this.request(
+      MessageResponseSchema,
+      'put',
+      `/api/chain/${encodeURIComponent(chainName)}/step/${stepNumber}`,
+      {
+        step_number: stepNumber,
+        agent_name: agentName,
+        prompt_type: promptType,
+        prompt,
+      },
+      options,
+      (r) => r.message,
+    );
   }
 
-  async moveStep(chainName: string, oldStepNumber: number, newStepNumber: number) {
-    return this.request<{ message: string }>('patch', `/api/chain/${chainName}/step/move`, {
-      old_step_number: oldStepNumber,
-      new_step_number: newStepNumber,
-    }).then((r) => r.message);
+  async moveStep(chainName: string, oldStepNumber: number, newStepNumber: number, options?: RequestOptions) {
+    return this.request(
+      MessageResponseSchema,
+      'patch',
+      `/api/chain/${encodeURIComponent(chainName)}/step/move`,
+      {
+        old_step_number: oldStepNumber,
+        new_step_number: newStepNumber,
+      },
+      options,
+      (r) => r.message,
+    );
   }
 
-  async deleteStep(chainName: string, stepNumber: number) {
-    return this.request<{ message: string }>('delete', `/api/chain/${chainName}/step/${stepNumber}`).then((r) => r.message);
+  async deleteStep(chainName: string, stepNumber: number, options?: RequestOptions) {
+    return this.request(
+      MessageResponseSchema,
+      'delete',
+      `/api/chain/${encodeURIComponent(chainName)}/step/${stepNumber}`,
+      undefined,
+      options,
+      (r) => r.message,
+    );
   }
 
   // Prompt Methods
-  async addPrompt(promptName: string, prompt: string, promptCategory = 'Default') {
-    return this.request<{ message: string }>('post', `/api/prompt/${promptCategory}`, {
-      prompt_name: promptName,
-      prompt,
-    }).then((r) => r.message);
+  async addPrompt(promptName: string, prompt: string, promptCategory = 'Default', options?: RequestOptions) {
+    return this.request(
+      MessageResponseSchema,
+      'post',
+      `/api/prompt/${encodeURIComponent(promptCategory)}`,
+      {
+        prompt_name: promptName,
+        prompt,
+      },
+      options,
+      (r) => r.message,
+    );
   }
 
-  async getPrompt(promptName: string, promptCategory = 'Default') {
-    return this.request<{ prompt: any }>('get', `/api/prompt/${promptCategory}/${promptName}`).then((r) => r.prompt);
+  async getPrompt(promptName: string, promptCategory = 'Default', options?: RequestOptions) {
+    return this.request(
+      PromptResponseSchema,
+      'get',
+      `/api/prompt/${encodeURIComponent(promptCategory)}/${encodeURIComponent(promptName)}`,
+      undefined,
+      options,
+      (r) => r.prompt,
+    );
   }
 
-  async getPrompts(promptCategory = 'Default') {
-    return this.request<{ prompts: string[] }>('get', `/api/prompt/${promptCategory}`).then((r) => r.prompts);
+  async getPrompts(promptCategory = 'Default', options?: RequestOptions) {
+    return this.request(
+      PromptsResponseSchema,
+      'get',
+      `/api/prompt/${encodeURIComponent(promptCategory)}`,
+      undefined,
+      options,
+      (r) => r.prompts,
+    );
   }
 
-  async addPromptCategory(promptCategory: string) {
-    return this.request<{ prompts: string[] }>('get', `/api/prompt/${promptCategory}`).then(
+  async addPromptCategory(promptCategory: string, options?: RequestOptions) {
+    return this.request(
+      PromptsResponseSchema,
+      'get',
+      `/api/prompt/${encodeURIComponent(promptCategory)}`,
+      undefined,
+      options,
       () => `Prompt category ${promptCategory} created.`,
     );
   }
 
-  async getPromptCategories() {
-    return this.request<{ prompt_categories: string[] }>('get', '/api/prompt/categories').then((r) => r.prompt_categories);
+  async getPromptCategories(options?: RequestOptions) {
+    return this.request(
+      PromptCategoriesResponseSchema,
+      'get',
+      '/api/prompt/categories',
+      undefined,
+      options,
+      (r) => r.prompt_categories,
+    );
   }
 
-  async getPromptArgs(promptName: string, promptCategory = 'Default') {
-    return this.request<{ prompt_args: any }>('get', `/api/prompt/${promptCategory}/${promptName}/args`).then(
+  async getPromptArgs(promptName: string, promptCategory = 'Default', options?: RequestOptions) {
+    return this.request(
+      PromptArgsResponseSchema,
+      'get',
+      `/api/prompt/${encodeURIComponent(promptCategory)}/${encodeURIComponent(promptName)}/args`,
+      undefined,
+      options,
       (r) => r.prompt_args,
     );
   }
 
-  async deletePrompt(promptName: string, promptCategory = 'Default') {
-    return this.request<{ message: string }>('delete', `/api/prompt/${promptCategory}/${promptName}`).then((r) => r.message);
+  async deletePrompt(promptName: string, promptCategory = 'Default', options?: RequestOptions) {
+    return this.request(
+      MessageResponseSchema,
+      'delete',
+      `/api/prompt/${encodeURIComponent(promptCategory)}/${encodeURIComponent(promptName)}`,
+      undefined,
+      options,
+      (r) => r.message,
+    );
   }
 
-  async updatePrompt(promptName: string, prompt: string, promptCategory = 'Default') {
-    return this.request<{ message: string }>('put', `/api/prompt/${promptCategory}/${promptName}`, {
-      prompt,
-      prompt_name: promptName,
-      prompt_category: promptCategory,
-    }).then((r) => r.message);
+  async updatePrompt(promptName: string, prompt: string, promptCategory = 'Default', options?: RequestOptions) {
+    return this.request(
+      MessageResponseSchema,
+      'put',
+      `/api/prompt/${encodeURIComponent(promptCategory)}/${encodeURIComponent(promptName)}`,
+      {
+        prompt,
+        prompt_name: promptName,
+        prompt_category: promptCategory,
+      },
+      options,
+      (r) => r.message,
+    );
   }
 
-  async renamePrompt(promptName: string, newName: string, promptCategory = 'Default') {
-    return this.request<{ message: string }>('patch', `/api/prompt/${promptCategory}/${promptName}`, {
-      prompt_name: newName,
-    }).then((r) => r.message);
+  async renamePrompt(promptName: string, newName: string, promptCategory = 'Default', options?: RequestOptions) {
+    return this.request(
+      MessageResponseSchema,
+      'patch',
+      `/api/prompt/${encodeURIComponent(promptCategory)}/${encodeURIComponent(promptName)}`,
+      {
+        prompt_name: newName,
+      },
+      options,
+      (r) => r.message,
+    );
   }
 
   // Extension Methods
-  async getExtensionSettings() {
-    return this.request<{ extension_settings: any }>('get', '/api/extensions/settings').then((r) => r.extension_settings);
+  async getExtensionSettings(options?: RequestOptions) {
+    return this.request(
+      ExtensionSettingsResponseSchema,
+      'get',
+      '/api/extensions/settings',
+      undefined,
+      options,
+      (r) => r.extension_settings,
+    );
   }
 
-  async getExtensions() {
-    return this.request<{ extensions: any[] }>('get', '/api/extensions').then((r) => r.extensions);
+  async getExtensions(options?: RequestOptions) {
+    return this.request(ExtensionsResponseSchema, 'get', '/api/extensions', undefined, options, (r) =>
+      r.extensions.map(toExtension),
+    );
   }
 
-  async getAgentExtensions(agentName: string) {
-    return this.request<{ extensions: any[] }>('get', `/api/agent/${agentName}/extensions`).then((r) => r.extensions);
+  async getAgentExtensions(agentName: string, options?: RequestOptions) {
+    return this.request(
+      ExtensionsResponseSchema,
+      'get',
+      `/api/agent/${encodeURIComponent(agentName)}/extensions`,
+      undefined,
+      options,
+      (r) => r.extensions.map(toExtension),
+    );
   }
 
-  async getCommandArgs(commandName: string) {
-    return this.request<{ command_args: any }>('get', `/api/extensions/${commandName}/args`).then((r) => r.command_args);
+  async getCommandArgs(commandName: string, options?: RequestOptions) {
+    return this.request(
+      CommandArgsResponseSchema,
+      'get',
+      `/api/extensions/${encodeURIComponent(commandName)}/args`,
+      undefined,
+      options,
+      (r) => r.command_args,
+    );
   }
 
   // Learning Methods
-  async learnText(agentName: string, userInput: string, text: string, collectionNumber = '0') {
-    return this.request<{ message: string }>('post', `/api/agent/${agentName}/learn/text`, {
-      user_input: userInput,
-      text,
-      collection_number: collectionNumber,
-    }).then((r) => r.message);
+  async learnText(agentName: string, userInput: string, text: string, collectionNumber = '0', options?: RequestOptions) {
+    return this.request(
+      MessageResponseSchema,
+      'post',
+      `/api/agent/${encodeURIComponent(agentName)}/learn/text`,
+      {
+        user_input: userInput,
+        text,
+        collection_number: collectionNumber,
+      },
+      options,
+      (r) => r.message,
+    );
   }
 
-  async learnUrl(agentName: string, url: string, collectionNumber = '0') {
-    return this.request<{ message: string }>('post', `/api/agent/${agentName}/learn/url`, {
-      url,
-      collection_number: collectionNumber,
-    }).then((r) => r.message);
+  async learnUrl(agentName: string, url: string, collectionNumber = '0', options?: RequestOptions) {
+    return this.request(
+      MessageResponseSchema,
+      'post',
+      `/api/agent/${encodeURIComponent(agentName)}/learn/url`,
+      {
+        url,
+        collection_number: collectionNumber,
+      },
+      options,
+      (r) => r.message,
+    );
   }
 
-  async learnFile(agentName: string, fileName: string, fileContent: string, collectionNumber = '0') {
-    return this.request<{ message: string }>('post', `/api/agent/${agentName}/learn/file`, {
-      file_name: fileName,
-      file_content: fileContent,
-      collection_number: collectionNumber,
-    }).then((r) => r.message);
+  async learnFile(
+    agentName: string,
+    fileName: string,
+    fileContent: string,
+    collectionNumber = '0',
+    options?: RequestOptions,
+  ) {
+    return this.request(
+      MessageResponseSchema,
+      'post',
+      `/api/agent/${encodeURIComponent(agentName)}/learn/file`,
+      {
+        file_name: fileName,
+        file_content: fileContent,
+        collection_number: collectionNumber,
+      },
+      options,
+      (r) => r.message,
+    );
   }
 
   async learnGithubRepo(
@@ -436,56 +1295,108 @@ export default class AGiXTSDK {
     githubBranch = 'main',
     useAgentSettings = false,
     collectionNumber = '0',
+    options?: RequestOptions,
+  ) {
+    return this.request(
+      MessageResponseSchema,
+      'post',
+      `/api/agent/${encodeURIComponent(agentName)}/learn/github`,
+      {
+        github_repo: githubRepo,
+        github_user: githubUser,
+        github_token: githubToken,
+        github_branch: githubBranch,
+        use_agent_settings: useAgentSettings,
+        collection_number: collectionNumber,
+      },
+      options,
+      (r) => r.message,
+    );
+  }
+
+  async learnArxiv(
+    agentName: string,
+    query = '',
+    arxivIds = '',
+    maxResults = 5,
+    collectionNumber = '0',
+    options?: RequestOptions,
   ) {
-    return this.request<{ message: string }>('post', `/api/agent/${agentName}/learn/github`, {
-      github_repo: githubRepo,
-      github_user: githubUser,
-      github_token: githubToken,
-      github_branch: githubBranch,
-      use_agent_settings: useAgentSettings,
-      collection_number: collectionNumber,
-    }).then((r) => r.message);
-  }
-
-  async learnArxiv(agentName: string, query = '', arxivIds = '', maxResults = 5, collectionNumber = '0') {
-    return this.request<{ message: string }>('post', `/api/agent/${agentName}/learn/arxiv`, {
-      query,
-      arxiv_ids: arxivIds,
-      max_results: maxResults,
-      collection_number: collectionNumber,
-    }).then((r) => r.message);
-  }
-
-  async agentReader(agentName: string, readerName: string, data: any, collectionNumber = '0') {
+    return this.request(
+      MessageResponseSchema,
+      'post',
+      `/api/agent/${encodeURIComponent(agentName)}/learn/arxiv`,
+      {
+        query,
+        arxiv_ids: arxivIds,
+        max_results: maxResults,
+        collection_number: collectionNumber,
+      },
+      options,
+      (r) => r.message,
+    );
+  }
+
+  async agentReader(agentName: string, readerName: string, data: any, collectionNumber = '0', options?: RequestOptions) {
     if (!data.collection_number) {
       data.collection_number = collectionNumber;
     }
-    return this.request<{ message: string }>('post', `/api/agent/${agentName}/reader/${readerName}`, { data }).then(
+    return this.request(
+      MessageResponseSchema,
+      'post',
+      `/api/agent/${encodeURIComponent(agentName)}/reader/${encodeURIComponent(readerName)}`,
+      { data },
+      options,
       (r) => r.message,
     );
   }
 
   // Memory Query Methods
-  async getAgentMemories(agentName: string, userInput: string, limit = 5, minRelevanceScore = 0.5, collectionNumber = '0') {
-    return this.request<{ memories: any }>('post', `/api/agent/${agentName}/memory/${collectionNumber}/query`, {
-      user_input: userInput,
-      limit,
-      min_relevance_score: minRelevanceScore,
-    }).then((r) => r.memories);
+  async getAgentMemories(
+    agentName: string,
+    userInput: string,
+    limit = 5,
+    minRelevanceScore = 0.5,
+    collectionNumber = '0',
+    options?: RequestOptions,
+  ) {
+    return this.request(
+      MemoriesResponseSchema,
+      'post',
+      `/api/agent/${encodeURIComponent(agentName)}/memory/${collectionNumber}/query`,
+      {
+        user_input: userInput,
+        limit,
+        min_relevance_score: minRelevanceScore,
+      },
+      options,
+      (r) => r.memories.map(toMemory),
+    );
   }
 
-  async deleteAgentMemory(agentName: string, memoryId: string, collectionNumber = '0') {
-    return this.request<{ message: string }>(
+  async deleteAgentMemory(agentName: string, memoryId: string, collectionNumber = '0', options?: RequestOptions) {
+    return this.request(
+      MessageResponseSchema,
       'delete',
-      `/api/agent/${agentName}/memory/${collectionNumber}/${memoryId}`,
-    ).then((r) => r.message);
+      `/api/agent/${encodeURIComponent(agentName)}/memory/${collectionNumber}/${encodeURIComponent(memoryId)}`,
+      undefined,
+      options,
+      (r) => r.message,
+    );
   }
 
-  async createDataset(agentName: string, datasetName: string, batchSize = 4) {
-    return this.request<{ message: string }>('post', `/api/agent/${agentName}/memory/dataset`, {
-      dataset_name: datasetName,
-      batch_size: batchSize,
-    }).then((r) => r.message);
+  async createDataset(agentName: string, datasetName: string, batchSize = 4, options?: RequestOptions) {
+    return this.request(
+      MessageResponseSchema,
+      'post',
+      `/api/agent/${encodeURIComponent(agentName)}/memory/dataset`,
+      {
+        dataset_name: datasetName,
+        batch_size: batchSize,
+      },
+      options,
+      (r) => r.message,
+    );
   }
 
   // Voice and Audio Methods
@@ -498,32 +1409,54 @@ export default class AGiXTSDK {
     commandArgs = { input: 'Voice transcription from user' },
     tts = false,
     conversationName = 'AGiXT Terminal',
+    options?: RequestOptions,
   ) {
-    return this.request<{ response: string }>('post', `/api/agent/${agentName}/command`, {
-      command_name: 'Command with Voice',
-      command_args: {
-        base64_audio: base64Audio,
-        audio_variable: audioVariable,
-        audio_format: audioFormat,
-        tts,
-        command_name: commandName,
-        command_args: commandArgs,
+    return this.request(
+      ResponseResponseSchema,
+      'post',
+      `/api/agent/${encodeURIComponent(agentName)}/command`,
+      {
+        command_name: 'Command with Voice',
+        command_args: {
+          base64_audio: base64Audio,
+          audio_variable: audioVariable,
+          audio_format: audioFormat,
+          tts,
+          command_name: commandName,
+          command_args: commandArgs,
+        },
+        conversation_name: conversationName,
       },
-      conversation_name: conversationName,
-    }).then((r) => r.response);
+      options,
+      (r) => r.response,
+    );
   }
 
-  async getEmbeddersDetails() {
-    return this.request<{ embedders: any }>('get', '/api/embedders').then((r) => r.embedders);
+  async getEmbeddersDetails(options?: RequestOptions) {
+    return this.request(EmbeddersResponseSchema, 'get', '/api/embedders', undefined, options, (r) => r.embedders);
   }
 
   // Feedback Methods
-  async positiveFeedback(agentName: string, message: string, userInput: string, feedback: string, conversationName = '') {
-    return this.provideFeedback(agentName, message, userInput, feedback, true, conversationName);
+  async positiveFeedback(
+    agentName: string,
+    message: string,
+    userInput: string,
+    feedback: string,
+    conversationName = '',
+    options?: RequestOptions,
+  ) {
+    return this.provideFeedback(agentName, message, userInput, feedback, true, conversationName, options);
   }
 
-  async negativeFeedback(agentName: string, message: string, userInput: string, feedback: string, conversationName = '') {
-    return this.provideFeedback(agentName, message, userInput, feedback, false, conversationName);
+  async negativeFeedback(
+    agentName: string,
+    message: string,
+    userInput: string,
+    feedback: string,
+    conversationName = '',
+    options?: RequestOptions,
+  ) {
+    return this.provideFeedback(agentName, message, userInput, feedback, false, conversationName, options);
   }
 
   private async provideFeedback(
@@ -533,51 +1466,96 @@ export default class AGiXTSDK {
     feedback: string,
     positive: boolean,
     conversationName: string,
+    options?: RequestOptions,
   ) {
-    return this.request<{ message: string }>('post', `/api/agent/${agentName}/feedback`, {
-      user_input: userInput,
-      message,
-      feedback,
-      positive,
-      conversation_name: conversationName,
-    }).then((r) => r.message);
+    return this.request(
+      MessageResponseSchema,
+      'post',
+      `/api/agent/${encodeURIComponent(agentName)}/feedback`,
+      {
+        user_input: userInput,
+        message,
+        feedback,
+        positive,
+        conversation_name: conversationName,
+      },
+      options,
+      (r) => r.message,
+    );
   }
 
   // Browsing and External Sources Methods
-  async getBrowsedLinks(agentName: string, collectionNumber = '0') {
-    return this.request<{ links: string[] }>('get', `/api/agent/${agentName}/browsed_links/${collectionNumber}`).then(
+  async getBrowsedLinks(agentName: string, collectionNumber = '0', options?: RequestOptions) {
+    return this.request(
+      LinksResponseSchema,
+      'get',
+      `/api/agent/${encodeURIComponent(agentName)}/browsed_links/${collectionNumber}`,
+      undefined,
+      options,
       (r) => r.links,
     );
   }
 
-  async deleteBrowsedLink(agentName: string, link: string, collectionNumber = '0') {
-    return this.request<{ message: string }>('delete', `/api/agent/${agentName}/browsed_links`, {
-      link,
-      collection_number: collectionNumber,
-    }).then((r) => r.message);
+  async deleteBrowsedLink(agentName: string, link: string, collectionNumber = '0', options?: RequestOptions) {
+    return this.request(
+      MessageResponseSchema,
+      'delete',
+      `/api/agent/${encodeURIComponent(agentName)}/browsed_links`,
+      {
+        link,
+        collection_number: collectionNumber,
+      },
+      options,
+      (r) => r.message,
+    );
   }
 
-  async getMemoriesExternalSources(agentName: string, collectionNumber: string) {
-    return this.request<{ external_sources: any }>(
+  async getMemoriesExternalSources(agentName: string, collectionNumber: string, options?: RequestOptions) {
+    return this.request(
+      ExternalSourcesResponseSchema,
       'get',
-      `/api/agent/${agentName}/memory/external_sources/${collectionNumber}`,
-    ).then((r) => r.external_sources);
+      `/api/agent/${encodeURIComponent(agentName)}/memory/external_sources/${collectionNumber}`,
+      undefined,
+      options,
+      (r) => r.external_sources,
+    );
   }
 
-  async deleteMemoryExternalSource(agentName: string, source: string, collectionNumber: string) {
-    return this.request<{ message: string }>('delete', `/api/agent/${agentName}/memory/external_source`, {
-      external_source: source,
-      collection_number: collectionNumber,
-    }).then((r) => r.message);
+  async deleteMemoryExternalSource(agentName: string, source: string, collectionNumber: string, options?: RequestOptions) {
+    return this.request(
+      MessageResponseSchema,
+      'delete',
+      `/api/agent/${encodeURIComponent(agentName)}/memory/external_source`,
+      {
+        external_source: source,
+        collection_number: collectionNumber,
+      },
+      options,
+      (r) => r.message,
+    );
   }
 
   // Persona Methods
-  async getPersona(agentName: string) {
-    return this.request<{ persona: any }>('get', `/api/agent/${agentName}/persona`).then((r) => r.persona);
+  async getPersona(agentName: string, options?: RequestOptions) {
+    return this.request(
+      PersonaResponseSchema,
+      'get',
+      `/api/agent/${encodeURIComponent(agentName)}/persona`,
+      undefined,
+      options,
+      (r) => r.persona,
+    );
   }
 
-  async updatePersona(agentName: string, persona: string) {
-    return this.request<{ message: string }>('put', `/api/agent/${agentName}/persona`, { persona }).then((r) => r.message);
+  async updatePersona(agentName: string, persona: string, options?: RequestOptions) {
+    return this.request(
+      MessageResponseSchema,
+      'put',
+      `/api/agent/${encodeURIComponent(agentName)}/persona`,
+      { persona },
+      options,
+      (r) => r.message,
+    );
   }
 
   async promptAgentWithVoice(
@@ -589,36 +1567,65 @@ export default class AGiXTSDK {
     promptArgs = { context_results: 6, inject_memories_from_collection_number: 0 },
     tts = false,
     conversationName = 'AGiXT Terminal',
+    options?: RequestOptions,
   ) {
-    return this.request<{ response: string }>('post', `/api/agent/${agentName}/command`, {
-      command_name: 'Prompt with Voice',
-      command_args: {
-        base64_audio: base64Audio,
-        audio_variable: audioVariable,
-        audio_format: audioFormat,
-        tts,
-        prompt_name: promptName,
-        prompt_args: promptArgs,
+    return this.request(
+      ResponseResponseSchema,
+      'post',
+      `/api/agent/${encodeURIComponent(agentName)}/command`,
+      {
+        command_name: 'Prompt with Voice',
+        command_args: {
+          base64_audio: base64Audio,
+          audio_variable: audioVariable,
+          audio_format: audioFormat,
+          tts,
+          prompt_name: promptName,
+          prompt_args: promptArgs,
+        },
+        conversation_name: conversationName,
       },
-      conversation_name: conversationName,
-    }).then((r) => r.response);
+      options,
+      (r) => r.response,
+    );
   }
 
-  async textToSpeech(agentName: string, text: string) {
-    return this.request<{ url: string }>('post', `/api/agent/${agentName}/text_to_speech`, { text }).then((r) => r.url);
+  async textToSpeech(agentName: string, text: string, options?: RequestOptions) {
+    return this.request(
+      SpeechResponseSchema,
+      'post',
+      `/api/agent/${encodeURIComponent(agentName)}/text_to_speech`,
+      { text },
+      options,
+      (r) => r.url,
+    );
   }
 
   // Conversation Message Methods
-  async newConversationMessage(role: string, message: string, conversationName: string) {
-    return this.request<{ message: string }>('post', '/api/conversation/message', {
-      role,
-      message,
-      conversation_name: conversationName,
-    }).then((r) => r.message);
+  async newConversationMessage(role: string, message: string, conversationName: string, options?: RequestOptions) {
+    return this.request(
+      MessageResponseSchema,
+      'post',
+      '/api/conversation/message',
+      {
+        role,
+        message,
+        conversation_name: conversationName,
+      },
+      options,
+      (r) => r.message,
+    );
   }
 
-  async getConversationsWithIds() {
-    return this.request<{ conversations_with_ids: any }>('get', '/api/conversations').then((r) => r.conversations_with_ids);
+  async getConversationsWithIds(options?: RequestOptions) {
+    return this.request(
+      ConversationsWithIdsResponseSchema,
+      'get',
+      '/api/conversations',
+      undefined,
+      options,
+      (r) => r.conversations_with_ids,
+    );
   }
 
   // Task Planning Methods
@@ -631,27 +1638,196 @@ export default class AGiXTSDK {
     logUserInput = true,
     logOutput = true,
     enableNewCommand = true,
+    options?: RequestOptions,
   ) {
-    return this.request<{ response: string }>('post', `/api/agent/${agentName}/plan/task`, {
-      user_input: userInput,
-      websearch,
-      websearch_depth: websearchDepth,
-      conversation_name: conversationName,
-      log_user_input: logUserInput,
-      log_output: logOutput,
-      enable_new_command: enableNewCommand,
-    }).then((r) => r.response);
+    return this.request(
+      ResponseResponseSchema,
+      'post',
+      `/api/agent/${encodeURIComponent(agentName)}/plan/task`,
+      {
+        user_input: userInput,
+        websearch,
+        websearch_depth: websearchDepth,
+        conversation_name: conversationName,
+        log_user_input: logUserInput,
+        log_output: logOutput,
+        enable_new_command: enableNewCommand,
+      },
+      options,
+      (r) => r.response,
+    );
   }
 
   // Company Methods
-  async getCompanies() {
-    return this.request<any[]>('get', '/v1/companies');
+  async getCompanies(options?: RequestOptions) {
+    return this.request(CompaniesResponseSchema, 'get', '/v1/companies', undefined, options, (r) => r.map(toCompanyDetails));
   }
 
-  async getInvitations(company_id?: string) {
-    return this.request<{ invitations: any[] }>(
+  async getInvitations(company_id?: string, options?: RequestOptions) {
+    return this.request(
+      InvitationsResponseSchema,
       'get',
-      company_id ? `/v1/invitations/${company_id}` : '/v1/invitations',
-    ).then((r) => r.invitations);
+      company_id ? `/v1/invitations/${encodeURIComponent(company_id)}` : '/v1/invitations',
+      undefined,
+      options,
+      (r) => r.invitations.map(toInvitationDetails),
+    );
+  }
+
+  // Upload Methods
+  async createUpload(fileName: string, fileSize: number, mimeType: string, options?: RequestOptions) {
+    return this.request(
+      UploadResponseSchema,
+      'post',
+      '/v1/uploads',
+      {
+        file_name: fileName,
+        file_size: fileSize,
+        mime_type: mimeType,
+      },
+      options,
+      (r) => toUploadSession(r.upload),
+    );
+  }
+
+  async getUpload(uploadId: string, options?: RequestOptions) {
+    return this.request(
+      UploadResponseSchema,
+      'get',
+      `/v1/uploads/${encodeURIComponent(uploadId)}`,
+      undefined,
+      options,
+      (r) => toUploadSession(r.upload),
+    );
+  }
+
+  /**
+   * Sends the part of a file starting at offset, which must be the number of bytes the server has received. A chunk that
+   * fails is not sent again, as the offset to send it from has to be found anew first.
+   * @param onProgress Called with the number of bytes of the chunk sent so far.
+   */
+  async uploadChunk(
+    uploadId: string,
+    chunk: Blob,
+    offset: number,
+    fileSize: number,
+    { onProgress, ...options }: RequestOptions & { onProgress?: (sent: number) => void } = {},
+  ) {
+    return this.request(
+      UploadResponseSchema,
+      'put',
+      `/v1/uploads/${encodeURIComponent(uploadId)}`,
+      chunk,
+      {
+        ...options,
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'Content-Range': `bytes ${offset}-${offset + chunk.size - 1}/${fileSize}`,
+        },
+        onUploadProgress: onProgress && ((event) => onProgress(event.loaded)),
+        // Failed chunks are retried by uploadFile, from wherever the server reports it stopped receiving.
+        maxRetries: 0,
+      },
+      (r) => toUploadSession(r.upload),
+    );
+  }
+
+  async completeUpload(uploadId: string, options?: RequestOptions) {
+    return this.request(
+      UploadResponseSchema,
+      'post',
+      `/v1/uploads/${encodeURIComponent(uploadId)}/complete`,
+      undefined,
+      options,
+      (r) => toUploadSession(r.upload),
+    );
+  }
+
+  async cancelUpload(uploadId: string, options?: RequestOptions) {
+    return this.request(
+      MessageResponseSchema,
+      'delete',
+      `/v1/uploads/${encodeURIComponent(uploadId)}`,
+      undefined,
+      options,
+      (r) => r.message,
+    );
+  }
+
+  // Finds how much of an interrupted upload of the file the server received, or starts a new upload if there is none.
+  private async startUpload(
+    file: File,
+    uploadId: string | undefined,
+    onCreate: UploadOptions['onCreate'],
+    options: RequestOptions,
+  ): Promise<UploadSession> {
+    const previous = uploadId
+      ? await this.getUpload(uploadId, options).catch((error: AGiXTError) => {
+          if (error.status === 404) return null;
+          throw error;
+        })
+      : null;
+    if (previous && previous.fileSize === file.size) {
+      return previous;
+    }
+    const upload = await this.createUpload(file.name, file.size, file.type || 'application/octet-stream', options);
+    onCreate?.(upload.id);
+    return upload;
+  }
+
+  /**
+   * Uploads a file in chunks, so that large files are never read into memory whole and an interrupted upload can be
+   * continued rather than started over. A chunk that fails in a way that may succeed on repetition is sent again from
+   * wherever the server reports it stopped receiving, up to the policy's number of retries in a row.
+   * @returns The completed upload, with the URL the file can be fetched from.
+   * @throws {AGiXTError} If the upload fails or is cancelled, or the server does not return a URL for the file.
+   */
+  async uploadFile(
+    file: File,
+    { uploadId, chunkSize = DEFAULT_CHUNK_SIZE, onCreate, onProgress, ...options }: RequestOptions & UploadOptions = {},
+  ): Promise<UploadSession & { url: string }> {
+    let upload = await this.startUpload(file, uploadId, onCreate, options);
+    const size = upload.chunkSize ?? chunkSize;
+    for (let failures = 0; upload.received < file.size; ) {
+      const offset: number = upload.received;
+      onProgress?.(offset);
+      try {
+        upload = await this.uploadChunk(upload.id, file.slice(offset, offset + size), offset, file.size, {
+          ...options,
+          onProgress: onProgress && ((sent) => onProgress(offset + sent)),
+        });
+        failures = 0;
+      } catch (exception) {
+        const error = exception as AGiXTError;
+        if (!error.retryable || failures >= this.policy.maxRetries) {
+          throw error;
+        }
+        try {
+          await wait(
+            Math.min(error.retryAfter ?? this.policy.retryDelay * 2 ** failures, this.policy.maxRetryDelay),
+            options.signal,
+          );
+        } catch (reason) {
+          throw new AGiXTError({
+            method: 'put',
+            endpoint: `/v1/uploads/${encodeURIComponent(upload.id)}`,
+            detail: 'Upload was cancelled while waiting to retry.',
+            cause: reason,
+          });
+        }
+        failures++;
+        upload = await this.getUpload(upload.id, options);
+      }
+    }
+    onProgress?.(file.size);
+    const completed = upload.url ? upload : await this.completeUpload(upload.id, options);
+    if (!completed.url) {
+      throw new AGiXTError({
+        method: 'post',
+        endpoint: `/v1/uploads/${encodeURIComponent(upload.id)}/complete`,
+        detail: `The server did not return a URL for ${file.name}.`,
+      });
+    }
+    return { ...completed, url: completed.url };
   }
 }
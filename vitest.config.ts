@@ -0,0 +1,14 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+// Resolves the same import aliases as tsconfig.json, the most specific first.
+export default defineConfig({
+  resolve: {
+    alias: [
+      { find: '@/jrg', replacement: path.resolve(__dirname, 'components/jrg') },
+      { find: '@/auth', replacement: path.resolve(__dirname, 'components/jrg/auth') },
+      { find: '@/interactive', replacement: path.resolve(__dirname, 'components/interactive') },
+      { find: '@', replacement: __dirname },
+    ],
+  },
+});